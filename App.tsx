@@ -3,69 +3,67 @@ import StarBackground from './components/StarBackground';
 import PublicPortfolio from './components/pages/PublicPortfolio';
 import AdminDashboard from './components/pages/AdminDashboard';
 import ProjectDetail from './components/pages/ProjectDetail';
+import ProjectTagPage from './components/pages/ProjectTagPage';
+import PostTagPage from './components/pages/PostTagPage';
 import BlogDetail from './components/pages/BlogDetail';
+import NotFound from './components/pages/NotFound';
+import { SearchPalette } from './components/ui/SearchPalette';
 import { Button, Input, Card } from './components/ui/Components';
-import { supabase } from './src/lib/supabaseClient';
+import PasswordStrengthMeter from './src/components/admin/PasswordStrengthMeter';
+import ResetPasswordScreen from './src/components/admin/ResetPasswordScreen';
+import { dataProvider } from './src/data';
+import { Link, Redirect, RouteParams, matchRoute, navigate, usePathname } from './src/lib/router';
+import { PASSWORD_MIN_LENGTH, checkPassword } from './src/lib/passwordPolicy';
+import {
+  getSession,
+  onAuthChange,
+  signInWithPassword,
+  sendSetupCode,
+  completeAccountSetup,
+  sendMagicLink,
+  sendPasswordReset,
+  signOut,
+} from './src/services/authService';
 
 /**
  * LoginScreen Component
  * 
- * Admin authentication form with two flows:
- * 1. Existing admin: Email + Password login
- * 2. New admin: Email → OTP → Set Password
+ * Admin authentication form with these flows (auth calls live in src/services/authService):
+ * 1. Existing admin: Email + Password login, or a magic link by email
+ * 2. New admin (invited from the Users screen): Email → OTP → Set Password
+ * 3. Forgotten password: Email → recovery link to /admin/reset-password
  */
 const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
-  // Initial state: ask if user has account
-  const [hasAccount, setHasAccount] = useState<boolean | null>(null);
+  // Which form is shown: the initial question, then one of the flows
+  const [view, setView] = useState<'choose' | 'password' | 'setup' | 'magic' | 'forgot'>('choose');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Confirmation after an email was sent (magic link, password reset)
+  const [notice, setNotice] = useState<string | null>(null);
   
   // States for new account flow (OTP)
   const [otpSent, setOtpSent] = useState(false);
-  const [sendingOtp, setSendingOtp] = useState(false);
   const [otp, setOtp] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
 
-  // Regular password login (for existing admins)
-  const handlePasswordLogin = async (e: React.FormEvent) => {
+  const showView = (next: typeof view) => {
+    setView(next);
+    setError(null);
+    setNotice(null);
+    setPassword('');
+  };
+
+  // Runs an auth call with the loading and error state every form shares
+  const run = async (e: React.FormEvent, action: () => Promise<void>) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
-
+    setNotice(null);
     try {
-      // Step 1: Check if email exists in public.admin_users table
-      const { data: adminUser, error: adminError } = await supabase
-        .from('admin_users')
-        .select('email, role')
-        .eq('email', email)
-        .eq('role', 'admin')
-        .single();
-
-      if (adminError || !adminUser) {
-        setError('Email not found in admin users. Please contact an administrator.');
-        setLoading(false);
-        return;
-      }
-
-      // Step 2: Try to sign in with password
-      const { data, error: signInError } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (signInError) {
-        setError(signInError.message || 'Invalid email or password. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      if (data?.user) {
-        console.log('Login successful:', data.user.email);
-        onLogin(); // Update global auth state
-      }
+      await action();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.';
       setError(errorMessage);
@@ -75,135 +73,60 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
     }
   };
 
-  // Send OTP for new account setup
-  const handleSendOtpForNewAccount = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Step 1: Check if email exists in public.admin_users table
-      const { data: adminUser, error: adminError } = await supabase
-        .from('admin_users')
-        .select('email, role')
-        .eq('email', email)
-        .eq('role', 'admin')
-        .single();
-
-      if (adminError || !adminUser) {
-        setError('Email not found in admin users. Please contact an administrator to be added.');
-        setLoading(false);
-        return;
-      }
-
-      // Step 2: Send OTP for account setup
-      setSendingOtp(true);
-      const { error: otpError } = await supabase.auth.signInWithOtp({
-        email: email,
-        options: {
-          shouldCreateUser: true, // Allow creating user if they don't exist in auth
-        },
-      });
-
-      if (otpError) {
-        setError(otpError.message || 'Failed to send verification code. Please try again.');
-        setSendingOtp(false);
-        setLoading(false);
-        return;
-      }
+  // Regular password login (for existing admins)
+  const handlePasswordLogin = (e: React.FormEvent) => run(e, async () => {
+    await signInWithPassword(email, password);
+    onLogin(); // Update global auth state
+  });
 
-      setOtpSent(true);
-      setError(null);
-    } catch (err) {
-      console.error('Error sending OTP:', err);
-      setError('Failed to send verification code. Please try again.');
-      setSendingOtp(false);
-    } finally {
-      setLoading(false);
-      setSendingOtp(false);
-    }
-  };
+  // Send OTP for new account setup
+  const handleSendOtpForNewAccount = (e: React.FormEvent) => run(e, async () => {
+    await sendSetupCode(email);
+    setOtpSent(true);
+  });
 
   // Verify OTP and set password for new account
-  const handleSetPassword = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-
-    // Validate passwords match
+  const handleSetPassword = (e: React.FormEvent) => run(e, async () => {
     if (newPassword !== confirmPassword) {
-      setError('Passwords do not match. Please try again.');
-      setLoading(false);
-      return;
+      throw new Error('Passwords do not match. Please try again.');
     }
+    await completeAccountSetup(email, otp, newPassword);
+    onLogin(); // Update global auth state
+  });
+
+  const handleSendMagicLink = (e: React.FormEvent) => run(e, async () => {
+    await sendMagicLink(email);
+    setNotice(`Sign-in link sent to ${email}. Open it in this browser to reach the dashboard.`);
+  });
+
+  const handleSendPasswordReset = (e: React.FormEvent) => run(e, async () => {
+    await sendPasswordReset(email);
+    setNotice(`If ${email} has an account, a link to choose a new password is on its way.`);
+  });
+
+  const errorBox = error && (
+    <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
+      {error}
+    </div>
+  );
 
-    if (newPassword.length < 6) {
-      setError('Password must be at least 6 characters long.');
-      setLoading(false);
-      return;
-    }
-
-    try {
-      // Verify OTP first
-      const { data: otpData, error: verifyError } = await supabase.auth.verifyOtp({
-        email,
-        token: otp,
-        type: 'email',
-      });
-
-      if (verifyError) {
-        setError(verifyError.message || 'Invalid verification code. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      if (!otpData?.user) {
-        setError('Verification failed. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      // Update password
-      const { error: updateError } = await supabase.auth.updateUser({
-        password: newPassword,
-      });
-
-      if (updateError) {
-        setError(updateError.message || 'Failed to set password. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      // Password set successfully, now log in
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
-        email,
-        password: newPassword,
-      });
-
-      if (signInError) {
-        setError('Password set but login failed. Please try logging in with your new password.');
-        setLoading(false);
-        // Reset to account selection
-        setHasAccount(true);
-        setOtpSent(false);
-        setOtp('');
-        setNewPassword('');
-        setConfirmPassword('');
-        return;
-      }
+  const noticeBox = notice && (
+    <div className="p-3 rounded-md bg-indigo-500/10 border border-indigo-500/50 text-indigo-400 text-sm">
+      {notice}
+    </div>
+  );
 
-      if (signInData?.user) {
-        console.log('Password set and login successful:', signInData.user.email);
-        onLogin(); // Update global auth state
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.';
-      setError(errorMessage);
-      console.error('Password setup error:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const emailInput = (
+    <Input 
+      label="Email" 
+      type="email" 
+      value={email} 
+      onChange={e => setEmail(e.target.value)} 
+      placeholder="admin@example.com"
+      required
+      disabled={loading}
+    />
+  );
 
   return (
     <div className="min-h-screen flex items-center justify-center relative z-20 px-4">
@@ -211,25 +134,27 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
         <div className="text-center space-y-2">
           <h1 className="text-2xl font-bold text-white">CMS Login</h1>
           <p className="text-slate-400 text-sm">
-            {hasAccount === null
+            {view === 'choose'
               ? 'Do you have an admin account?'
-              : hasAccount && !otpSent
+              : view === 'password'
               ? 'Enter your email and password to sign in'
-              : !hasAccount && !otpSent
+              : view === 'magic'
+              ? "We'll email you a link that signs you in"
+              : view === 'forgot'
+              ? "We'll email you a link to choose a new password"
+              : !otpSent
               ? 'Enter your email to receive a verification code'
-              : otpSent
-              ? 'Set your password to complete account setup'
-              : 'Access the admin dashboard'}
+              : 'Set your password to complete account setup'}
           </p>
         </div>
         
-        {hasAccount === null ? (
+        {view === 'choose' ? (
           // Initial question: Do you have an account?
           <div className="space-y-4">
             <div className="flex gap-3">
               <Button 
                 className="flex-1" 
-                onClick={() => setHasAccount(true)}
+                onClick={() => showView('password')}
                 disabled={loading}
               >
                 Yes, I have an account
@@ -237,30 +162,18 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
               <Button 
                 variant="secondary" 
                 className="flex-1" 
-                onClick={() => setHasAccount(false)}
+                onClick={() => showView('setup')}
                 disabled={loading}
               >
                 No, I'm new
               </Button>
             </div>
           </div>
-        ) : hasAccount && !otpSent ? (
+        ) : view === 'password' ? (
           // Existing admin: Email + Password login
           <form onSubmit={handlePasswordLogin} className="space-y-4">
-            {error && (
-              <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
-                {error}
-              </div>
-            )}
-            <Input 
-              label="Email" 
-              type="email" 
-              value={email} 
-              onChange={e => setEmail(e.target.value)} 
-              placeholder="admin@example.com"
-              required
-              disabled={loading}
-            />
+            {errorBox}
+            {emailInput}
             <Input 
               label="Password" 
               type="password" 
@@ -270,17 +183,20 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
               required
               disabled={loading}
             />
+            <div className="flex justify-between text-sm">
+              <button type="button" className="text-indigo-400 hover:text-indigo-300" onClick={() => showView('forgot')}>
+                Forgot password?
+              </button>
+              <button type="button" className="text-indigo-400 hover:text-indigo-300" onClick={() => showView('magic')}>
+                Email me a sign-in link
+              </button>
+            </div>
             <div className="flex gap-2">
               <Button 
                 type="button" 
                 variant="secondary" 
                 className="flex-1" 
-                onClick={() => {
-                  setHasAccount(null);
-                  setEmail('');
-                  setPassword('');
-                  setError(null);
-                }}
+                onClick={() => showView('choose')}
                 disabled={loading}
               >
                 Back
@@ -290,24 +206,33 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
               </Button>
             </div>
           </form>
-        ) : !hasAccount && !otpSent ? (
+        ) : view === 'magic' || view === 'forgot' ? (
+          // Existing admin: magic link or password reset, both sent by email
+          <form onSubmit={view === 'magic' ? handleSendMagicLink : handleSendPasswordReset} className="space-y-4">
+            {errorBox}
+            {noticeBox}
+            {emailInput}
+            <div className="flex gap-2">
+              <Button 
+                type="button" 
+                variant="secondary" 
+                className="flex-1" 
+                onClick={() => showView('password')}
+                disabled={loading}
+              >
+                Back
+              </Button>
+              <Button className="flex-1" type="submit" disabled={loading}>
+                {loading ? 'Sending...' : notice ? 'Send Again' : view === 'magic' ? 'Send Sign-in Link' : 'Send Reset Link'}
+              </Button>
+            </div>
+          </form>
+        ) : !otpSent ? (
           // New admin: Email input to get code
           <form onSubmit={handleSendOtpForNewAccount} className="space-y-4">
-            {error && (
-              <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
-                {error}
-              </div>
-            )}
-            <Input 
-              label="Email" 
-              type="email" 
-              value={email} 
-              onChange={e => setEmail(e.target.value)} 
-              placeholder="admin@example.com"
-              required
-              disabled={loading || sendingOtp}
-            />
-            {sendingOtp ? (
+            {errorBox}
+            {emailInput}
+            {loading ? (
               <div className="flex items-center justify-center py-4">
                 <div className="flex flex-col items-center gap-2">
                   <div className="w-6 h-6 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
@@ -320,29 +245,20 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
                   type="button" 
                   variant="secondary" 
                   className="flex-1" 
-                  onClick={() => {
-                    setHasAccount(null);
-                    setEmail('');
-                    setError(null);
-                  }}
-                  disabled={loading}
+                  onClick={() => showView('choose')}
                 >
                   Back
                 </Button>
-                <Button className="flex-1" type="submit" disabled={loading}>
-                  {loading ? 'Sending...' : 'Send Code'}
+                <Button className="flex-1" type="submit">
+                  Send Code
                 </Button>
               </div>
             )}
           </form>
-        ) : otpSent ? (
+        ) : (
           // OTP + Password setup form
           <form onSubmit={handleSetPassword} className="space-y-4">
-            {error && (
-              <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
-                {error}
-              </div>
-            )}
+            {errorBox}
             <div className="p-3 rounded-md bg-indigo-500/10 border border-indigo-500/50 text-indigo-400 text-sm">
               Verification code sent to <strong>{email}</strong>
             </div>
@@ -361,16 +277,19 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
               type="password" 
               value={newPassword} 
               onChange={e => setNewPassword(e.target.value)} 
-              placeholder="Enter new password (min 6 characters)"
+              placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+              autoComplete="new-password"
               required
               disabled={loading}
             />
+            <PasswordStrengthMeter password={newPassword} email={email} />
             <Input 
               label="Confirm Password" 
               type="password" 
               value={confirmPassword} 
               onChange={e => setConfirmPassword(e.target.value)} 
               placeholder="Confirm new password"
+              autoComplete="new-password"
               required
               disabled={loading}
             />
@@ -390,15 +309,15 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
               >
                 Back
               </Button>
-              <Button className="flex-1" type="submit" disabled={loading}>
+              <Button className="flex-1" type="submit" disabled={loading || !checkPassword(newPassword, email).valid}>
                 {loading ? 'Setting Password...' : 'Set Password & Sign In'}
               </Button>
             </div>
           </form>
-        ) : null}
+        )}
         
         <div className="text-center">
-          <a href="#/" className="text-sm text-indigo-400 hover:text-indigo-300">Back to Portfolio</a>
+          <Link to="/" className="text-sm text-indigo-400 hover:text-indigo-300">Back to Portfolio</Link>
         </div>
       </Card>
     </div>
@@ -409,21 +328,28 @@ const LoginScreen = ({ onLogin }: { onLogin: () => void }) => {
  * App Root Component
  * 
  * Handles client-side routing and global layout.
- * Implements a custom lightweight hash router to avoid dependency version conflicts.
+ * Routes are clean paths handled by the History API router in src/lib/router.
  */
 const App: React.FC = () => {
   // Global Auth State
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authLoading, setAuthLoading] = useState(true);
   
-  // Custom Router State
-  const [currentPath, setCurrentPath] = useState(window.location.hash.replace('#', '') || '/');
+  // Router State
+  const currentPath = usePathname();
 
   // Check authentication status on mount and when auth state changes
   useEffect(() => {
+    // The local provider keeps everything in this browser, so there is nothing to sign in to
+    if (!dataProvider.requiresAuth) {
+      setIsAuthenticated(true);
+      setAuthLoading(false);
+      return;
+    }
+
     const checkAuth = async () => {
       try {
-        const { data: { session } } = await supabase.auth.getSession();
+        const session = await getSession();
         setIsAuthenticated(!!session);
       } catch (error) {
         console.error('Error checking auth:', error);
@@ -436,52 +362,82 @@ const App: React.FC = () => {
     checkAuth();
 
     // Listen for auth state changes (login, logout, token refresh)
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    return onAuthChange(session => {
       setIsAuthenticated(!!session);
     });
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
-
-  useEffect(() => {
-    const handleHashChange = () => {
-      // Normalize hash path (e.g., "#/admin" -> "/admin")
-      const path = window.location.hash.replace('#', '') || '/';
-      setCurrentPath(path);
-    };
-
-    // Initialize hash if empty
-    if (!window.location.hash) {
-      window.location.hash = '#/';
-    }
-    
-    // Set initial path
-    handleHashChange();
-
-    window.addEventListener('hashchange', handleHashChange);
-    return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
-  /**
-   * Programmatic navigation helper
-   */
-  const navigate = (path: string) => {
-    window.location.hash = `#${path}`;
-  };
-
   /**
    * Route Rendering Logic
    * 
+   * Routes:
+   * - /                 Public portfolio
+   * - /work/:slug       Project page
+   * - /thoughts/:slug   Thoughts article
+   * - /admin/login      Sign-in
+   * - /admin/reset-password  Choose a new password (opened from a reset email)
+   * - /admin/dashboard  CMS (requires authentication)
+   * - anything else     Not found
+   *
+   * Old /project/:id and /article/:slug links redirect to their new paths.
+   *
    * Protection Strategy:
-   * - Any route starting with '/admin' (except '/admin/login') requires authentication
+   * - Any route starting with '/admin' (except '/admin/login' and '/admin/reset-password') requires authentication
    * - Unauthenticated users are redirected to '/admin/login'
    * - Authenticated users accessing '/admin/login' are redirected to '/admin/dashboard'
    */
   const renderRoute = () => {
-    // Show loading state while checking authentication
-    if (authLoading) {
+    let params: RouteParams | null;
+
+    // 1. Public Portfolio
+    if (matchRoute('/', currentPath)) {
+      return <PublicPortfolio />;
+    }
+
+    // 2. Project Tag Route (/work/tag/:tag)
+    if ((params = matchRoute('/work/tag/:tag', currentPath))) {
+      return <ProjectTagPage tag={params.tag} onBack={() => navigate('/')} />;
+    }
+
+    // 3. Project Detail Route (/work/:slug, legacy ID links redirect to the slug)
+    if ((params = matchRoute('/work/:slug', currentPath))) {
+      return (
+        <ProjectDetail 
+          slug={params.slug}
+          onBack={() => navigate('/')}
+          onRedirect={(canonicalSlug) => navigate(`/work/${encodeURIComponent(canonicalSlug)}`, { replace: true })}
+        />
+      );
+    }
+
+    // 4. Thoughts Tag Archive Route (/thoughts/tag/:tag)
+    if ((params = matchRoute('/thoughts/tag/:tag', currentPath))) {
+      return <PostTagPage tag={params.tag} onBack={() => navigate('/')} />;
+    }
+
+    // 5. Thoughts Article Route (/thoughts/:slug, legacy ID links redirect to the slug)
+    if ((params = matchRoute('/thoughts/:slug', currentPath))) {
+      return (
+        <BlogDetail 
+          slug={params.slug}
+          onBack={() => navigate('/')}
+          onRedirect={(canonicalSlug) => navigate(`/thoughts/${encodeURIComponent(canonicalSlug)}`, { replace: true })}
+        />
+      );
+    }
+
+    // 6. Paths from before the switch to clean URLs
+    if ((params = matchRoute('/project/:id', currentPath))) {
+      return <Redirect to={`/work/${encodeURIComponent(params.id)}`} />;
+    }
+    if ((params = matchRoute('/article/:slug', currentPath))) {
+      return <Redirect to={`/thoughts/${encodeURIComponent(params.slug)}`} />;
+    }
+
+    const isAdminRoute = !!(matchRoute('/admin', currentPath) || matchRoute('/admin/*', currentPath));
+
+    // Show loading state while checking authentication (public pages don't wait for it)
+    if (isAdminRoute && authLoading) {
       return (
         <div className="min-h-screen flex items-center justify-center bg-slate-950">
           <div className="flex flex-col items-center gap-4">
@@ -492,82 +448,66 @@ const App: React.FC = () => {
       );
     }
 
-    // Check if route is an admin route
-    const isAdminRoute = currentPath.startsWith('/admin');
-    const isLoginRoute = currentPath === '/admin/login';
-    
-    // Check if route is a project detail page
-    const projectDetailMatch = currentPath.match(/^\/project\/(.+)$/);
-    
-    // Check if route is a blog/article detail page
-    const blogDetailMatch = currentPath.match(/^\/article\/(.+)$/);
-
-    // 1. Project Detail Route
-    if (projectDetailMatch) {
-      const projectId = projectDetailMatch[1];
+    // 7. Admin Login Route
+    if (matchRoute('/admin/login', currentPath)) {
+      if (isAuthenticated) {
+        // Already logged in, redirect to dashboard
+        return <Redirect to="/admin/dashboard" />;
+      }
       return (
-        <ProjectDetail 
-          projectId={projectId}
-          onBack={() => navigate('/')}
+        <LoginScreen 
+          onLogin={() => {
+            // Navigation handled by auth state change listener
+            navigate('/admin/dashboard');
+          }} 
         />
       );
     }
 
-    // 2. Blog/Article Detail Route
-    if (blogDetailMatch) {
-      const blogId = blogDetailMatch[1];
+    // 8. Password Reset Route (the reset link signs the user in; without a session it has expired)
+    if (matchRoute('/admin/reset-password', currentPath)) {
       return (
-        <BlogDetail 
-          blogId={blogId}
-          onBack={() => navigate('/')}
+        <ResetPasswordScreen 
+          hasSession={isAuthenticated && dataProvider.requiresAuth}
+          onDone={() => navigate('/admin/dashboard')}
         />
       );
     }
 
-    // 3. Admin Login Route
-    if (isLoginRoute) {
-      if (isAuthenticated) {
-        // Already logged in, redirect to dashboard
-        setTimeout(() => navigate('/admin/dashboard'), 0);
-        return <div className="min-h-screen flex items-center justify-center text-slate-500">Redirecting...</div>;
-      } else {
+    // 9. Protected Admin Routes (any /admin/* except /admin/login)
+    if (isAdminRoute) {
+      if (!isAuthenticated) {
+        // Not authenticated, redirect to login
         return (
-          <LoginScreen 
-            onLogin={() => {
-              // Navigation handled by auth state change listener
-              navigate('/admin/dashboard');
+          <>
+            <Redirect to="/admin/login" />
+            <div className="min-h-screen flex items-center justify-center text-slate-500">Redirecting to login...</div>
+          </>
+        );
+      }
+
+      if (matchRoute('/admin/dashboard', currentPath)) {
+        return (
+          <AdminDashboard 
+            onLogout={async () => {
+              if (!dataProvider.requiresAuth) {
+                navigate('/');
+                return;
+              }
+              await signOut();
+              navigate('/admin/login');
             }} 
           />
         );
       }
-    }
-
-    // 4. Protected Admin Routes (any /admin/* except /admin/login)
-    if (isAdminRoute && !isLoginRoute) {
-      if (!isAuthenticated) {
-        // Not authenticated, redirect to login
-        setTimeout(() => navigate('/admin/login'), 0);
-        return <div className="min-h-screen flex items-center justify-center text-slate-500">Redirecting to login...</div>;
-      } else {
-        // Authenticated - render dashboard or other admin routes
-        if (currentPath === '/admin/dashboard') {
-          return (
-            <AdminDashboard 
-              onLogout={async () => {
-                await supabase.auth.signOut();
-                navigate('/admin/login');
-              }} 
-            />
-          );
-        }
-        // For other admin routes, redirect to dashboard for now
-        setTimeout(() => navigate('/admin/dashboard'), 0);
-        return <div className="min-h-screen flex items-center justify-center text-slate-500">Redirecting...</div>;
+      // '/admin' itself opens the dashboard
+      if (matchRoute('/admin', currentPath)) {
+        return <Redirect to="/admin/dashboard" />;
       }
     }
 
-    // 5. Public Portfolio (Default for '/' and unknown routes)
-    return <PublicPortfolio />;
+    // 10. Not Found
+    return <NotFound path={currentPath} onBack={() => navigate('/')} />;
   };
 
   return (
@@ -577,6 +517,9 @@ const App: React.FC = () => {
       
       {/* Route Content */}
       {renderRoute()}
+
+      {/* Site search (Cmd/Ctrl-K) on the public pages */}
+      {!(matchRoute('/admin', currentPath) || matchRoute('/admin/*', currentPath)) && <SearchPalette />}
     </div>
   );
 };
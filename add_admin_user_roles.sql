@@ -0,0 +1,357 @@
+-- Roles for CMS users (owner, editor, author, viewer)
+-- Run this in your Supabase SQL Editor (after every other setup file)
+--
+-- Replaces the single 'admin' role with four, and enforces them in the RLS policies
+-- (the admin dashboard applies the same rules, see src/lib/permissions.ts):
+--   owner:  everything, including managing admin_users
+--   editor: all content, media, inbox and site content
+--   author: writes Thoughts posts and edits their own drafts; an editor publishes them
+--   viewer: reads the dashboard, changes nothing
+-- Existing 'admin' users become owners.
+--
+-- Every policy on projects, thought_posts, profiles, site_content and admin_users is
+-- replaced, since any leftover "authenticated users can write" policy would still let
+-- every signed-in user through (permissive policies are combined with OR).
+
+-- 1. admin_users: one row per person allowed into the CMS
+CREATE TABLE IF NOT EXISTS public.admin_users (
+  email TEXT PRIMARY KEY,
+  role TEXT NOT NULL DEFAULT 'viewer'
+);
+
+ALTER TABLE public.admin_users ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE public.admin_users ADD COLUMN IF NOT EXISTS invited_by TEXT;
+ALTER TABLE public.admin_users ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL;
+
+-- The dashboard upserts users by email
+CREATE UNIQUE INDEX IF NOT EXISTS admin_users_email_key ON public.admin_users(email);
+
+UPDATE public.admin_users SET role = 'owner' WHERE role = 'admin';
+UPDATE public.admin_users SET role = 'viewer' WHERE role NOT IN ('owner', 'editor', 'author', 'viewer');
+
+-- Store emails lowercase, so the dashboard's lookups agree with the lower() comparisons below.
+-- Where the same address is listed in several cases, the lowercase (or oldest) row is the one kept.
+UPDATE public.admin_users a
+SET email = lower(a.email)
+WHERE a.email <> lower(a.email)
+AND NOT EXISTS (
+  SELECT 1 FROM public.admin_users b
+  WHERE lower(b.email) = lower(a.email)
+  AND b.email <> a.email
+  AND (b.email = lower(b.email) OR b.created_at < a.created_at OR (b.created_at = a.created_at AND b.email < a.email))
+);
+
+ALTER TABLE public.admin_users DROP CONSTRAINT IF EXISTS admin_users_role_check;
+ALTER TABLE public.admin_users
+ADD CONSTRAINT admin_users_role_check CHECK (role IN ('owner', 'editor', 'author', 'viewer'));
+
+-- 2. Role lookups for the policies below
+-- SECURITY DEFINER so policies can read admin_users without being subject to its own policies
+CREATE OR REPLACE FUNCTION public.admin_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.admin_users
+  WHERE lower(email) = lower(auth.jwt() ->> 'email')
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_admin_role(VARIADIC roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.admin_role() = ANY(roles), FALSE)
+$$;
+
+-- The sign-in page checks an email before sending a code, without reading admin_users itself
+CREATE OR REPLACE FUNCTION public.is_admin_email(check_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.admin_users WHERE lower(email) = lower(check_email))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_admin_role(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin_email(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.is_admin_email(TEXT) TO authenticated;
+
+-- 3. Keep at least one owner
+CREATE OR REPLACE FUNCTION public.protect_last_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND (SELECT COUNT(*) FROM public.admin_users WHERE role = 'owner') <= 1
+  THEN
+    RAISE EXCEPTION 'The CMS needs at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_users_protect_last_owner ON public.admin_users;
+CREATE TRIGGER admin_users_protect_last_owner
+BEFORE UPDATE OR DELETE ON public.admin_users
+FOR EACH ROW EXECUTE FUNCTION public.protect_last_owner();
+
+-- 4. Thoughts posts remember who wrote them, so authors can only edit their own
+ALTER TABLE public.thought_posts
+ADD COLUMN IF NOT EXISTS created_by TEXT DEFAULT (auth.jwt() ->> 'email');
+
+-- 5. Drop the old policies on the tables whose policies are replaced in full
+DO $$
+DECLARE
+  pol RECORD;
+BEGIN
+  FOR pol IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN ('admin_users', 'projects', 'thought_posts', 'profiles', 'site_content', 'selected_work', 'selected_work_archived')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', pol.policyname, pol.tablename);
+  END LOOP;
+END $$;
+
+-- 6. admin_users: everyone can see their own row (for their role), owners manage the rest
+ALTER TABLE public.admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "CMS users can read their own role"
+ON public.admin_users
+FOR SELECT
+TO authenticated
+USING (lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can manage CMS users"
+ON public.admin_users
+FOR ALL
+TO authenticated
+USING (public.has_admin_role('owner'))
+WITH CHECK (public.has_admin_role('owner'));
+
+-- 7. projects: public read, editors write
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to projects"
+ON public.projects
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Editors can manage projects"
+ON public.projects
+FOR ALL
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'))
+WITH CHECK (public.has_admin_role('owner', 'editor'));
+
+-- The old selected_work table (renamed by merge_selected_work_into_projects.sql), if it is still around
+DO $$
+BEGIN
+  IF to_regclass('public.selected_work') IS NOT NULL THEN
+    EXECUTE 'ALTER TABLE public.selected_work ENABLE ROW LEVEL SECURITY';
+    EXECUTE 'CREATE POLICY "Allow public read access to selected_work" ON public.selected_work FOR SELECT TO public USING (true)';
+    EXECUTE 'CREATE POLICY "Editors can manage selected_work" ON public.selected_work FOR ALL TO authenticated '
+      || 'USING (public.has_admin_role(''owner'', ''editor'')) WITH CHECK (public.has_admin_role(''owner'', ''editor''))';
+  END IF;
+  IF to_regclass('public.selected_work_archived') IS NOT NULL THEN
+    EXECUTE 'ALTER TABLE public.selected_work_archived ENABLE ROW LEVEL SECURITY';
+    EXECUTE 'CREATE POLICY "Editors can manage selected_work_archived" ON public.selected_work_archived FOR ALL TO authenticated '
+      || 'USING (public.has_admin_role(''owner'', ''editor'')) WITH CHECK (public.has_admin_role(''owner'', ''editor''))';
+  END IF;
+END $$;
+
+-- 8. thought_posts: readers see live posts, CMS users see everything,
+-- authors add and edit their own drafts, editors do anything
+ALTER TABLE public.thought_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to published thought_posts"
+ON public.thought_posts
+FOR SELECT
+TO public
+USING (published = TRUE AND published_at IS NOT NULL AND published_at <= NOW());
+
+CREATE POLICY "CMS users can read all thought_posts"
+ON public.thought_posts
+FOR SELECT
+TO authenticated
+USING (public.admin_role() IS NOT NULL);
+
+CREATE POLICY "Authors can add thought_posts"
+ON public.thought_posts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_admin_role('owner', 'editor')
+  OR (public.has_admin_role('author') AND published = FALSE AND created_by = (auth.jwt() ->> 'email'))
+);
+
+CREATE POLICY "Authors can update their own draft thought_posts"
+ON public.thought_posts
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_admin_role('owner', 'editor')
+  OR (public.has_admin_role('author') AND published = FALSE AND created_by = (auth.jwt() ->> 'email'))
+)
+WITH CHECK (
+  public.has_admin_role('owner', 'editor')
+  OR (public.has_admin_role('author') AND published = FALSE AND created_by = (auth.jwt() ->> 'email'))
+);
+
+CREATE POLICY "Authors can delete their own draft thought_posts"
+ON public.thought_posts
+FOR DELETE
+TO authenticated
+USING (
+  public.has_admin_role('owner', 'editor')
+  OR (public.has_admin_role('author') AND published = FALSE AND created_by = (auth.jwt() ->> 'email'))
+);
+
+-- 9. profiles and site_content: public read, editors write
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to profiles"
+ON public.profiles
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Editors can manage profiles"
+ON public.profiles
+FOR ALL
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'))
+WITH CHECK (public.has_admin_role('owner', 'editor'));
+
+ALTER TABLE public.site_content ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to site_content"
+ON public.site_content
+FOR SELECT
+TO public
+USING (true);
+
+CREATE POLICY "Editors can manage site_content"
+ON public.site_content
+FOR ALL
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'))
+WITH CHECK (public.has_admin_role('owner', 'editor'));
+
+-- 10. contact_messages: only editors read and file messages (they contain visitor emails)
+DROP POLICY IF EXISTS "Admin users can read contact_messages" ON public.contact_messages;
+DROP POLICY IF EXISTS "Admin users can update contact_messages" ON public.contact_messages;
+DROP POLICY IF EXISTS "Admin users can delete contact_messages" ON public.contact_messages;
+
+CREATE POLICY "Admin users can read contact_messages"
+ON public.contact_messages
+FOR SELECT
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Admin users can update contact_messages"
+ON public.contact_messages
+FOR UPDATE
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'))
+WITH CHECK (public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Admin users can delete contact_messages"
+ON public.contact_messages
+FOR DELETE
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'));
+
+-- 11. revisions: every CMS user reads history, anyone who can save content records it
+DROP POLICY IF EXISTS "Admin users can read revisions" ON public.revisions;
+DROP POLICY IF EXISTS "Admin users can insert revisions" ON public.revisions;
+
+CREATE POLICY "Admin users can read revisions"
+ON public.revisions
+FOR SELECT
+TO authenticated
+USING (public.admin_role() IS NOT NULL);
+
+CREATE POLICY "Admin users can insert revisions"
+ON public.revisions
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_admin_role('owner', 'editor', 'author'));
+
+-- 12. media_details: every CMS user reads, authors record their uploads, editors manage
+DROP POLICY IF EXISTS "Admin users can manage media details" ON public.media_details;
+DROP POLICY IF EXISTS "CMS users can read media details" ON public.media_details;
+DROP POLICY IF EXISTS "Authors can record uploaded media" ON public.media_details;
+
+CREATE POLICY "CMS users can read media details"
+ON public.media_details
+FOR SELECT
+TO authenticated
+USING (public.admin_role() IS NOT NULL);
+
+CREATE POLICY "Authors can record uploaded media"
+ON public.media_details
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_admin_role('owner', 'editor', 'author'));
+
+CREATE POLICY "Admin users can manage media details"
+ON public.media_details
+FOR ALL
+TO authenticated
+USING (public.has_admin_role('owner', 'editor'))
+WITH CHECK (public.has_admin_role('owner', 'editor'));
+
+-- 13. portfolio_analytics: every CMS user sees the view count
+DROP POLICY IF EXISTS "Admin users can read analytics" ON public.portfolio_analytics;
+
+CREATE POLICY "Admin users can read analytics"
+ON public.portfolio_analytics
+FOR SELECT
+TO authenticated
+USING (public.admin_role() IS NOT NULL);
+
+-- 14. Storage: authors upload images into posts, editors manage every file
+DROP POLICY IF EXISTS "Allow authenticated uploads to project-images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated updates to project-images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated deletes from project-images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated uploads to resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated updates to resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated deletes from resumes" ON storage.objects;
+
+CREATE POLICY "Allow authenticated uploads to project-images"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'project-images' AND public.has_admin_role('owner', 'editor', 'author'));
+
+CREATE POLICY "Allow authenticated updates to project-images"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'project-images' AND public.has_admin_role('owner', 'editor'))
+WITH CHECK (bucket_id = 'project-images' AND public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Allow authenticated deletes from project-images"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'project-images' AND public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Allow authenticated uploads to resumes"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'resumes' AND public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Allow authenticated updates to resumes"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'resumes' AND public.has_admin_role('owner', 'editor'))
+WITH CHECK (bucket_id = 'resumes' AND public.has_admin_role('owner', 'editor'));
+
+CREATE POLICY "Allow authenticated deletes from resumes"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'resumes' AND public.has_admin_role('owner', 'editor'));
@@ -1,5 +1,6 @@
 -- Add missing 'category' column to selected_work table
 -- Run this in your Supabase SQL Editor
+-- Legacy: selected_work has been merged into projects (see merge_selected_work_into_projects.sql)
 
 -- Add category column if it doesn't exist
 DO $$ 
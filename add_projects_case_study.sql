@@ -0,0 +1,16 @@
+-- Case-study fields for projects
+-- Run this in your Supabase SQL Editor (after add_projects_ordering.sql)
+--
+-- body: long-form Markdown shown on the project page.
+-- outcomes: [{ "value": "+40%", "label": "checkout conversion" }, ...]
+-- links: [{ "kind": "live" | "repo" | "deck" | "other", "url": "...", "label": null }, ...]
+-- gallery: [{ "url": "...", "caption": "...", "alt": "..." }, ...] in display order
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS body TEXT,
+ADD COLUMN IF NOT EXISTS role TEXT,
+ADD COLUMN IF NOT EXISTS timeline TEXT,
+ADD COLUMN IF NOT EXISTS team TEXT,
+ADD COLUMN IF NOT EXISTS outcomes JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS links JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS gallery JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,11 @@
+-- Responsive image sets for projects
+-- Run this in your Supabase SQL Editor (after add_projects_case_study.sql)
+--
+-- image_set: resized copies of image_url, made in the browser at upload:
+-- { "width": 1600, "height": 1200, "placeholder": "data:image/jpeg;base64,...",
+--   "variants": [{ "url": "...", "width": 480, "format": "avif" | "webp" | "jpeg" }, ...] }
+-- NULL for images linked from elsewhere or uploaded before image sets.
+-- Gallery entries (the gallery column) carry the same object in their "image_set" key.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS image_set JSONB;
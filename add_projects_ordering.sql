@@ -0,0 +1,21 @@
+-- Manual ordering and featured projects for Selected Work
+-- Run this in your Supabase SQL Editor (after add_projects_slug.sql)
+--
+-- sort_order: position in Selected Work, set by drag and drop in the admin.
+-- Projects without one (new projects) are listed first, newest first.
+-- featured: pinned to the top of the public grid as a large card.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS sort_order INTEGER,
+ADD COLUMN IF NOT EXISTS featured BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Keep the current order (newest first) for existing projects
+UPDATE public.projects p
+SET sort_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY created_at DESC) - 1 AS position
+  FROM public.projects
+) ordered
+WHERE p.id = ordered.id AND p.sort_order IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_sort_order ON public.projects(sort_order NULLS FIRST, created_at DESC);
@@ -0,0 +1,49 @@
+-- Add slugs to projects so each one has a readable URL (/work/:slug)
+-- Run this in your Supabase SQL Editor (after merge_selected_work_into_projects.sql)
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'projects'
+    AND column_name = 'slug'
+  ) THEN
+    ALTER TABLE public.projects ADD COLUMN slug TEXT;
+  END IF;
+END $$;
+
+-- Backfill slugs from the title (same rules as slugify in src/lib/slug.ts), falling back to the ID
+UPDATE public.projects
+SET slug = COALESCE(
+  NULLIF(trim(both '-' from regexp_replace(lower(replace(title, '&', ' and ')), '[^a-z0-9]+', '-', 'g')), ''),
+  id::text
+)
+WHERE slug IS NULL OR slug = '';
+
+-- De-duplicate existing slugs by appending -2, -3, ... to later projects, skipping
+-- any suffix another project already has so the unique index below can be created
+DO $$
+DECLARE
+  duplicate RECORD;
+  n INTEGER;
+BEGIN
+  FOR duplicate IN
+    SELECT id, slug FROM (
+      SELECT id, slug, ROW_NUMBER() OVER (PARTITION BY slug ORDER BY created_at ASC) AS rn
+      FROM public.projects
+    ) ranked
+    WHERE rn > 1
+  LOOP
+    n := 2;
+    WHILE EXISTS (SELECT 1 FROM public.projects WHERE slug = duplicate.slug || '-' || n) LOOP
+      n := n + 1;
+    END LOOP;
+    UPDATE public.projects SET slug = duplicate.slug || '-' || n WHERE id = duplicate.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.projects ALTER COLUMN slug SET NOT NULL;
+
+-- Create unique index (also speeds up getProjectBySlug)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_slug ON public.projects(slug);
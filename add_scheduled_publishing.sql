@@ -0,0 +1,42 @@
+-- Scheduled publishing for thought_posts
+-- Run this in your Supabase SQL Editor
+--
+-- A post with published = TRUE and a future published_at is "scheduled":
+-- anonymous readers only see it once published_at has passed. No cron job is needed,
+-- because the policy compares against now() on every read.
+
+-- Backfill published_at for posts that were published before it was tracked
+UPDATE public.thought_posts
+SET published_at = created_at
+WHERE published = TRUE AND published_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.thought_posts ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing read policies if they exist
+DROP POLICY IF EXISTS "Allow public read access to thought_posts" ON public.thought_posts;
+DROP POLICY IF EXISTS "Allow public read access to published thought_posts" ON public.thought_posts;
+DROP POLICY IF EXISTS "Allow admins to read all thought_posts" ON public.thought_posts;
+
+-- Policy 1: Public can read posts that are published and whose publish time has passed
+CREATE POLICY "Allow public read access to published thought_posts"
+ON public.thought_posts
+FOR SELECT
+TO public
+USING (published = TRUE AND published_at IS NOT NULL AND published_at <= NOW());
+
+-- Policy 2: Admins can read everything, including drafts and scheduled posts
+CREATE POLICY "Allow admins to read all thought_posts"
+ON public.thought_posts
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Create index for the public listing (published posts ordered by publish time)
+CREATE INDEX IF NOT EXISTS idx_thought_posts_published_at ON public.thought_posts(published_at DESC) WHERE published = TRUE;
@@ -0,0 +1,9 @@
+-- Images in Thoughts posts
+-- Run this in your Supabase SQL Editor (after add_projects_image_sets.sql)
+--
+-- image_sets: resized copies of the images uploaded into a post's content, keyed by the
+-- URL used in the Markdown, each shaped like projects.image_set. Images not in the
+-- content any more are dropped when the post is saved.
+
+ALTER TABLE public.thought_posts
+ADD COLUMN IF NOT EXISTS image_sets JSONB NOT NULL DEFAULT '{}'::jsonb;
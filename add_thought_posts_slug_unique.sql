@@ -0,0 +1,32 @@
+-- Enforce unique slugs on thought_posts so /article/:slug resolves to one post
+-- Run this in your Supabase SQL Editor
+
+-- Backfill empty slugs from the post ID so the index can be created
+UPDATE public.thought_posts
+SET slug = id::text
+WHERE slug IS NULL OR slug = '';
+
+-- De-duplicate existing slugs by appending -2, -3, ... to later posts, skipping
+-- any suffix another post already has so the unique index below can be created
+DO $$
+DECLARE
+  duplicate RECORD;
+  n INTEGER;
+BEGIN
+  FOR duplicate IN
+    SELECT id, slug FROM (
+      SELECT id, slug, ROW_NUMBER() OVER (PARTITION BY slug ORDER BY created_at ASC) AS rn
+      FROM public.thought_posts
+    ) ranked
+    WHERE rn > 1
+  LOOP
+    n := 2;
+    WHILE EXISTS (SELECT 1 FROM public.thought_posts WHERE slug = duplicate.slug || '-' || n) LOOP
+      n := n + 1;
+    END LOOP;
+    UPDATE public.thought_posts SET slug = duplicate.slug || '-' || n WHERE id = duplicate.id;
+  END LOOP;
+END $$;
+
+-- Create unique index (also speeds up getBlogPostBySlug)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_thought_posts_slug ON public.thought_posts(slug);
@@ -0,0 +1,17 @@
+-- Tags and series for thought_posts
+-- Run this in your Supabase SQL Editor
+--
+-- tags: free-form labels, matched case-insensitively by the app (shown as /thoughts/tag/... pages).
+-- series: name of an ordered set of posts; series_order is the part number within it.
+-- Posts in a series without a part number are ordered by publish date after the numbered ones.
+
+ALTER TABLE public.thought_posts
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS series TEXT,
+ADD COLUMN IF NOT EXISTS series_order INTEGER;
+
+-- Tag archive pages filter on tags
+CREATE INDEX IF NOT EXISTS idx_thought_posts_tags ON public.thought_posts USING GIN (tags);
+
+-- Series navigation loads all parts of a series
+CREATE INDEX IF NOT EXISTS idx_thought_posts_series ON public.thought_posts(series) WHERE series IS NOT NULL;
@@ -13,37 +13,91 @@ import {
   CheckCircle,
   XCircle,
   Home,
-  Loader2
+  Loader2,
+  Inbox,
+  History,
+  Tags,
+  Images,
+  Users,
+  ShieldOff,
+  UserCog
 } from 'lucide-react';
 import { DataService } from '../../services/supabaseService';
-import { Project, BlogPost, Profile } from '../../types';
+import { Project, BlogPost, Profile, AdminUser } from '../../types';
 import { Button, Input, Textarea, Card } from '../ui/Components';
 import { BarChart as ReBarChart, Bar, LineChart as ReLineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { supabase } from '../../src/lib/supabaseClient';
+import { dataProvider } from '../../src/data';
 import SelectedWorkManager from '../../src/components/admin/SelectedWorkManager';
+import InboxManager from '../../src/components/admin/InboxManager';
+import TaxonomyManager from '../../src/components/admin/TaxonomyManager';
+import MediaLibrary from '../../src/components/admin/MediaLibrary';
+import UsersManager from '../../src/components/admin/UsersManager';
+import AccountSettings from '../../src/components/admin/AccountSettings';
+import TagInput from '../../src/components/admin/TagInput';
+import MarkdownEditor from '../../src/components/admin/MarkdownEditor';
+import DraftRestoreBanner from '../../src/components/admin/DraftRestoreBanner';
+import RevisionHistory, { RevisionField } from '../../src/components/admin/RevisionHistory';
+import { useDraftAutosave, useUnsavedChangesWarning, loadDraft, saveDraft, clearDraft, StoredDraft } from '../../src/hooks/useDraftAutosave';
 import { getTotalPortfolioViews } from '../../src/services/analyticsService';
 import { getMonthlyProjectActivity } from '../../src/services/adminService';
-import { uploadResume } from '../../src/services/storageService';
+import { getProjects, createProject, updateProject, deleteProject } from '../../src/services/projectRepository';
+import { uploadResume, uploadPostImage } from '../../src/services/storageService';
+import { releaseFiles } from '../../src/services/mediaService';
+import { getCurrentAdminUser } from '../../src/services/userService';
+import { can, canEditPost, roleLabel } from '../../src/lib/permissions';
+import { slugify } from '../../src/lib/slug';
+import { getPostStatus, toDateTimeLocal, fromDateTimeLocal } from '../../src/lib/publishing';
+import { removeUploadingImages } from '../../src/lib/markdownFormatting';
+import { navigate } from '../../src/lib/router';
+import { getPostTags, getPostSeries } from '../../src/lib/taxonomy';
 
 interface AdminDashboardProps {
   onLogout: () => void;
 }
 
+// Fields compared and restored by the revision history panels
+const BLOG_REVISION_FIELDS: RevisionField[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'Slug' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'content', label: 'Content' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'series', label: 'Series' },
+  { key: 'series_order', label: 'Part' },
+  { key: 'published', label: 'Published' },
+  { key: 'published_at', label: 'Publish At' },
+];
+
+const PROFILE_REVISION_FIELDS: RevisionField[] = [
+  { key: 'full_name', label: 'Full Name' },
+  { key: 'subtitle', label: 'Subtitle' },
+  { key: 'hero_title_1', label: 'Hero Title Line 1' },
+  { key: 'hero_title_2', label: 'Hero Title Line 2' },
+  { key: 'bio', label: 'Bio' },
+  { key: 'resume_url', label: 'Resume URL' },
+];
+
 /**
  * AdminDashboard Component
  * 
  * Secure control panel for managing portfolio content.
  * Provides CRUD capabilities for Projects and Blog Posts.
  * Includes a Statistics Overview using Recharts.
+ * Tabs and actions follow the signed-in user's role (see src/lib/permissions.ts).
  */
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
   // --- Dashboard State ---
-  const [activeTab, setActiveTab] = useState<'OVERVIEW' | 'SELECTED_WORK' | 'THOUGHTS' | 'SITE_CONTENT'>('OVERVIEW');
+  const [activeTab, setActiveTab] = useState<'OVERVIEW' | 'SELECTED_WORK' | 'TAXONOMY' | 'THOUGHTS' | 'MEDIA' | 'INBOX' | 'SITE_CONTENT' | 'USERS' | 'ACCOUNT'>('OVERVIEW');
+  // The signed-in user; null once loaded means their access was revoked
+  const [currentUser, setCurrentUser] = useState<AdminUser | null>(null);
+  const [userLoading, setUserLoading] = useState(true);
+  const role = currentUser?.role;
   const [projects, setProjects] = useState<Project[]>([]);
   const [blogs, setBlogs] = useState<BlogPost[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [totalViews, setTotalViews] = useState<number>(0);
   const [monthlyActivity, setMonthlyActivity] = useState<Array<{ month: string; activity_count: number }>>([]);
+  const [unreadMessages, setUnreadMessages] = useState<number>(0);
   
   // --- Form State (Project) ---
   const [isEditingProject, setIsEditingProject] = useState(false);
@@ -52,11 +106,22 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
   // --- Form State (Blog) ---
   const [isEditingBlog, setIsEditingBlog] = useState(false);
   const [currentBlog, setCurrentBlog] = useState<Partial<BlogPost>>({});
+  // Slug follows the title until it is edited by hand (always fixed for existing posts)
+  const [slugEdited, setSlugEdited] = useState(false);
+  // Snapshot of the post as opened, used to detect unsaved changes
+  const [blogBaseline, setBlogBaseline] = useState<string>('{}');
+  const [pendingBlogDraft, setPendingBlogDraft] = useState<StoredDraft<Partial<BlogPost>> | null>(null);
+  const [showBlogHistory, setShowBlogHistory] = useState(false);
+  // Images dropped or pasted into the post that are still uploading
+  const [postUploadsInFlight, setPostUploadsInFlight] = useState(0);
+  // Unsaved changes reported by the Selected Work editor
+  const [workDirty, setWorkDirty] = useState(false);
 
   // --- Form State (Profile/Resume) ---
   const [profileForm, setProfileForm] = useState<Partial<Profile>>({});
   const [resumeUploading, setResumeUploading] = useState(false);
   const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [showProfileHistory, setShowProfileHistory] = useState(false);
 
   // --- Form State (Contact Section) ---
   const [contactForm, setContactForm] = useState({
@@ -66,8 +131,49 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
   });
   const [contactLoading, setContactLoading] = useState(false);
 
+  // --- Unsaved Changes Tracking ---
+  const blogDraftKey = `blog:${currentBlog.id || 'new'}`;
+  // Existing tags and series offered while editing a post
+  const blogTagSuggestions = getPostTags(blogs).map(term => term.name);
+  const blogSeriesSuggestions = getPostSeries(blogs).map(term => term.name);
+  const isBlogDirty = isEditingBlog && JSON.stringify(currentBlog) !== blogBaseline;
+  const hasUnsavedChanges = isBlogDirty || workDirty;
+  const blogAutosavedAt = useDraftAutosave(isEditingBlog ? blogDraftKey : null, currentBlog, isBlogDirty);
+  useUnsavedChangesWarning(hasUnsavedChanges);
+
+  /**
+   * Asks before leaving an editor with unsaved changes.
+   * The autosaved draft is kept either way and offered again when the editor reopens.
+   */
+  const confirmLeave = () => {
+    return !hasUnsavedChanges || confirm('You have unsaved changes. Leave anyway? Your draft is kept and can be restored later.');
+  };
+
+  const changeTab = (tab: typeof activeTab) => {
+    if (tab === activeTab || !confirmLeave()) return;
+    if (hasUnsavedChanges) {
+      // Leaving abandons the edits: close the editors so they don't ask again or reopen later
+      // (the Selected Work editor closes by unmounting, its draft stays for next time)
+      if (isBlogDirty) saveDraft(blogDraftKey, currentBlog);
+      setIsEditingBlog(false);
+      setCurrentBlog({});
+      setBlogBaseline('{}');
+      setPendingBlogDraft(null);
+      setShowBlogHistory(false);
+      setWorkDirty(false);
+    }
+    setActiveTab(tab);
+  };
+
   // Initial Data Fetch
   useEffect(() => {
+    getCurrentAdminUser()
+      .then(setCurrentUser)
+      .catch(error => {
+        console.error('Error loading current user:', error);
+        setCurrentUser(null);
+      })
+      .finally(() => setUserLoading(false));
     refreshData();
   }, []);
 
@@ -148,16 +254,19 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
    * Called after any successful Create/Update/Delete operation.
    */
   const refreshData = async () => {
-    const pData = await DataService.getProjects();
-    const bData = await DataService.getBlogPosts();
+    const pData = await getProjects().catch(() => []);
+    const bData = await DataService.getAllBlogPosts();
     const profileData = await DataService.getProfile();
     const viewsData = await getTotalPortfolioViews();
     const activityData = await getMonthlyProjectActivity();
+    // Inbox is optional: the contact_messages table may not exist yet
+    const messagesData = await DataService.getContactMessages().catch(() => []);
     setProjects(pData);
     setBlogs(bData);
     setProfile(profileData);
     setTotalViews(viewsData);
     setMonthlyActivity(activityData);
+    setUnreadMessages(messagesData.filter(m => m.folder === 'inbox' && !m.is_read).length);
   };
 
   // --- Project CRUD Handlers ---
@@ -172,7 +281,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     try {
       if (currentProject.id) {
         // Update existing project
-        await DataService.updateProject(currentProject.id, {
+        await updateProject(currentProject.id, {
           title: currentProject.title,
           description: currentProject.description,
           category: currentProject.category || '',
@@ -182,7 +291,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
         console.log('Project updated');
       } else {
         // Create new project
-        await DataService.createProject({
+        await createProject({
           title: currentProject.title!,
           description: currentProject.description!,
           category: currentProject.category || '',
@@ -208,7 +317,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
   const handleDeleteProject = async (id: string) => {
     if (confirm("Delete this project?")) {
       try {
-        await DataService.deleteProject(id);
+        await deleteProject(id);
         await refreshData();
         alert("Project deleted successfully!");
       } catch (error: any) {
@@ -220,37 +329,89 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
 
   // --- Blog CRUD Handlers ---
 
+  // Opens the blog editor, offering to restore an autosaved draft if one differs from the post
+  const openBlogEditor = (blog: Partial<BlogPost>) => {
+    const draft = loadDraft<Partial<BlogPost>>(`blog:${blog.id || 'new'}`);
+    setCurrentBlog(blog);
+    setBlogBaseline(JSON.stringify(blog));
+    setPendingBlogDraft(draft && JSON.stringify(draft.value) !== JSON.stringify(blog) ? draft : null);
+    setSlugEdited(!!blog.id);
+    setShowBlogHistory(false);
+    setIsEditingBlog(true);
+  };
+
+  const closeBlogEditor = () => {
+    if (isBlogDirty && !confirm('Discard unsaved changes to this post?')) {
+      return;
+    }
+    clearDraft(blogDraftKey);
+    setPendingBlogDraft(null);
+    setIsEditingBlog(false);
+  };
+
   // Saves a new or edited blog post
   const handleSaveBlog = async () => {
-    if (!currentBlog.title || !currentBlog.slug || !currentBlog.content) {
-      alert("Title, Slug, and Content are required");
+    if (postUploadsInFlight > 0) {
+      alert("Wait for the images to finish uploading before saving");
+      return;
+    }
+
+    // Placeholders left by uploads that never finished (e.g. in a restored draft)
+    const content = removeUploadingImages(currentBlog.content || '');
+    if (!currentBlog.title || !content.trim()) {
+      alert("Title and Content are required");
+      return;
+    }
+
+    const desiredSlug = slugify(currentBlog.slug || currentBlog.title);
+    if (!desiredSlug) {
+      alert("Slug must contain at least one letter or number");
       return;
     }
     
     try {
+      // Enforce unique slugs: auto-generated ones get a suffix, hand-typed ones must be changed
+      const slug = await DataService.getUniqueBlogSlug(desiredSlug, currentBlog.id);
+      if (slug !== desiredSlug && slugEdited) {
+        alert(`The slug "${desiredSlug}" is already used by another post. Try "${slug}" instead.`);
+        return;
+      }
+
       let result: BlogPost;
       if (currentBlog.id) {
         // Update existing post
         result = await DataService.updateBlog(currentBlog.id, {
           title: currentBlog.title,
-          slug: currentBlog.slug,
+          slug,
           summary: currentBlog.summary || null,
-          content: currentBlog.content,
-          published: currentBlog.published ?? true,
+          content,
+          tags: currentBlog.tags || [],
+          series: currentBlog.series || null,
+          series_order: currentBlog.series ? currentBlog.series_order ?? null : null,
+          published: can(role, 'posts.publish') ? currentBlog.published ?? true : false,
+          published_at: can(role, 'posts.publish') && currentBlog.published ? currentBlog.published_at ?? null : null,
+          image_sets: currentBlog.image_sets || {},
         });
         console.log('Blog post updated:', result);
       } else {
         // Create new post
         result = await DataService.createBlog({
           title: currentBlog.title,
-          slug: currentBlog.slug,
+          slug,
           summary: currentBlog.summary || null,
-          content: currentBlog.content,
-          published: currentBlog.published ?? true,
+          content,
+          tags: currentBlog.tags || [],
+          series: currentBlog.series || null,
+          series_order: currentBlog.series ? currentBlog.series_order ?? null : null,
+          published: can(role, 'posts.publish') ? currentBlog.published ?? true : false,
+          published_at: can(role, 'posts.publish') && currentBlog.published ? currentBlog.published_at ?? null : null,
+          image_sets: currentBlog.image_sets || {},
         });
         console.log('Blog post created:', result);
       }
       
+      clearDraft(blogDraftKey);
+      setPendingBlogDraft(null);
       setIsEditingBlog(false);
       setCurrentBlog({});
       await refreshData(); // Reload data from database
@@ -262,6 +423,44 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     }
   };
 
+  // Uploads an image dropped or pasted into the post and keeps its resized copies with the post
+  const handleUploadPostImage = async (file: File): Promise<string> => {
+    setPostUploadsInFlight(count => count + 1);
+    try {
+      const { url, imageSet } = await uploadPostImage(file, currentBlog.id);
+      if (imageSet) {
+        setCurrentBlog(prev => ({...prev, image_sets: {...(prev.image_sets || {}), [url]: imageSet}}));
+      }
+      return url;
+    } finally {
+      setPostUploadsInFlight(count => count - 1);
+    }
+  };
+
+  // Saves an earlier revision over the post being edited and reloads it into the editor
+  const handleRestoreBlogRevision = async (snapshot: Record<string, any>) => {
+    if (!currentBlog.id) return;
+    // Same publishing rules as saving: roles that can't publish restore a draft
+    const canPublish = can(role, 'posts.publish');
+    const restored = await DataService.updateBlog(currentBlog.id, {
+      title: snapshot.title,
+      slug: snapshot.slug,
+      summary: snapshot.summary ?? null,
+      content: snapshot.content,
+      tags: snapshot.tags ?? [],
+      series: snapshot.series ?? null,
+      series_order: snapshot.series_order ?? null,
+      published: canPublish ? snapshot.published : false,
+      published_at: canPublish && snapshot.published ? snapshot.published_at ?? null : null,
+      image_sets: snapshot.image_sets ?? {},
+    });
+    clearDraft(blogDraftKey);
+    setPendingBlogDraft(null);
+    setCurrentBlog(restored);
+    setBlogBaseline(JSON.stringify(restored));
+    await refreshData();
+  };
+
   const handleDeleteBlog = async (id: string) => {
     if (confirm("Delete this post?")) {
       try {
@@ -286,7 +485,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
       const resumeUrl = await uploadResume(resumeFile);
       if (resumeUrl) {
         // Update profile with new resume URL
+        const previousUrl = profile?.resume_url;
         await DataService.updateProfile({ resume_url: resumeUrl });
+        // The replaced resume is deleted unless something else links to it
+        if (previousUrl) releaseFiles([previousUrl]);
         setProfileForm({ ...profileForm, resume_url: resumeUrl });
         setResumeFile(null);
         // Refresh profile data
@@ -308,6 +510,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
   const handleSaveProfile = async () => {
     try {
       await DataService.updateProfile(profileForm);
+      setShowProfileHistory(false);
       // Refresh profile data
       const updatedProfile = await DataService.getProfile();
       setProfile(updatedProfile);
@@ -319,6 +522,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     }
   };
 
+  // Saves an earlier revision of the profile and reloads the form from it
+  const handleRestoreProfileRevision = async (snapshot: Record<string, any>) => {
+    await DataService.updateProfile({
+      full_name: snapshot.full_name,
+      subtitle: snapshot.subtitle,
+      hero_title_1: snapshot.hero_title_1,
+      hero_title_2: snapshot.hero_title_2,
+      bio: snapshot.bio,
+      resume_url: snapshot.resume_url,
+    });
+    const updatedProfile = await DataService.getProfile();
+    setProfile(updatedProfile);
+  };
+
   const handleSaveContact = async () => {
     try {
       // Save all contact fields
@@ -351,7 +568,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
           </Card>
           <Card className="p-6 border-l-4 border-l-purple-500">
             <div className="text-sm text-slate-400">Published Posts</div>
-            <div className="text-3xl font-bold text-white">{blogs.filter(b => b.published).length}</div>
+            <div className="text-3xl font-bold text-white">{blogs.filter(b => getPostStatus(b) === 'published').length}</div>
           </Card>
           <Card className="p-6 border-l-4 border-l-pink-500">
             <div className="text-sm text-slate-400">Total Views</div>
@@ -528,25 +745,60 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
       <div className="space-y-6 animate-in fade-in duration-500">
         <div className="flex justify-between items-center">
           <h2 className="text-2xl font-bold text-white">Blog Management</h2>
-          <Button onClick={() => { setCurrentBlog({ published: true }); setIsEditingBlog(true); }}>
-            <Plus className="w-4 h-4 mr-2" /> New Post
-          </Button>
+          {can(role, 'posts.write') && (
+            <Button onClick={() => openBlogEditor({ published: can(role, 'posts.publish') })}>
+              <Plus className="w-4 h-4 mr-2" /> New Post
+            </Button>
+          )}
         </div>
 
         {/* Edit Form */}
         {isEditingBlog && (
           <Card className="p-6 space-y-4 border-indigo-500/50">
-            <h3 className="text-lg font-medium text-white">{currentBlog.id ? 'Edit' : 'Write'} Post</h3>
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-white">{currentBlog.id ? 'Edit' : 'Write'} Post</h3>
+                <div className="flex items-center gap-3">
+                    {blogAutosavedAt && (
+                        <span className="text-xs text-slate-500">Draft autosaved {new Date(blogAutosavedAt).toLocaleTimeString()}</span>
+                    )}
+                    {currentBlog.id && (
+                        <Button variant="ghost" className="h-8" onClick={() => setShowBlogHistory(!showBlogHistory)}>
+                            <History className="w-4 h-4 mr-2" /> History
+                        </Button>
+                    )}
+                </div>
+            </div>
+            {showBlogHistory && currentBlog.id && (
+                <RevisionHistory 
+                    entityType="thought_posts" 
+                    entityId={currentBlog.id} 
+                    fields={BLOG_REVISION_FIELDS} 
+                    onRestore={handleRestoreBlogRevision} 
+                    onClose={() => setShowBlogHistory(false)} 
+                />
+            )}
+            {pendingBlogDraft && (
+                <DraftRestoreBanner 
+                    savedAt={pendingBlogDraft.savedAt}
+                    onRestore={() => { setCurrentBlog(pendingBlogDraft.value); setPendingBlogDraft(null); }}
+                    onDiscard={() => { clearDraft(blogDraftKey); setPendingBlogDraft(null); }}
+                />
+            )}
             <Input 
                 label="Title" 
                 value={currentBlog.title || ''} 
-                onChange={e => setCurrentBlog({...currentBlog, title: e.target.value})} 
+                onChange={e => setCurrentBlog({
+                  ...currentBlog,
+                  title: e.target.value,
+                  ...(slugEdited ? {} : { slug: slugify(e.target.value) }),
+                })} 
             />
             <Input 
                 label="Slug" 
                 value={currentBlog.slug || ''} 
-                onChange={e => setCurrentBlog({...currentBlog, slug: e.target.value})} 
-                placeholder="my-thought-post"
+                onChange={e => { setSlugEdited(true); setCurrentBlog({...currentBlog, slug: e.target.value}); }} 
+                onBlur={() => setCurrentBlog({...currentBlog, slug: slugify(currentBlog.slug || currentBlog.title || '')})}
+                placeholder="Generated from the title"
             />
             <Textarea 
                 label="Summary (Optional)" 
@@ -555,11 +807,40 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                 placeholder="A brief summary of this post..."
                 className="min-h-[80px]"
             />
-            <Textarea 
+            <TagInput 
+                label="Tags" 
+                placeholder="Type a tag and press Enter" 
+                value={currentBlog.tags || []} 
+                onChange={tags => setCurrentBlog({...currentBlog, tags})} 
+                suggestions={blogTagSuggestions} 
+            />
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-4">
+                <Input 
+                    label="Series (Optional)" 
+                    value={currentBlog.series || ''} 
+                    onChange={e => setCurrentBlog({...currentBlog, series: e.target.value})} 
+                    placeholder="e.g., Design Systems 101"
+                    list="blog-series-suggestions"
+                />
+                <Input 
+                    label="Part" 
+                    type="number" 
+                    min={1} 
+                    value={currentBlog.series_order ?? ''} 
+                    onChange={e => setCurrentBlog({...currentBlog, series_order: e.target.value ? parseInt(e.target.value, 10) : null})} 
+                    placeholder="Auto"
+                    disabled={!currentBlog.series}
+                />
+                <datalist id="blog-series-suggestions">
+                    {blogSeriesSuggestions.map(series => <option key={series} value={series} />)}
+                </datalist>
+            </div>
+            <MarkdownEditor 
                 label="Content (Markdown)" 
-                className="font-mono min-h-[200px]"
                 value={currentBlog.content || ''} 
-                onChange={e => setCurrentBlog({...currentBlog, content: e.target.value})} 
+                onChange={content => setCurrentBlog(prev => ({...prev, content}))} 
+                imageSets={currentBlog.image_sets}
+                onUploadImage={handleUploadPostImage}
                 required
             />
             <div className="flex items-center gap-2">
@@ -568,14 +849,33 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                     id="published" 
                     checked={currentBlog.published} 
                     onChange={e => setCurrentBlog({...currentBlog, published: e.target.checked})}
+                    disabled={!can(role, 'posts.publish')}
                     className="w-4 h-4 rounded border-slate-700 bg-slate-900 text-indigo-600 focus:ring-indigo-500"
                 />
-                <label htmlFor="published" className="text-sm text-slate-300">Publish immediately</label>
+                <label htmlFor="published" className="text-sm text-slate-300">Published</label>
+                {!can(role, 'posts.publish') && (
+                    <span className="text-xs text-slate-500">Saved as a draft: an editor publishes it.</span>
+                )}
             </div>
+            {currentBlog.published && (
+                <div className="space-y-2">
+                    <Input 
+                        label="Publish at (Optional)" 
+                        type="datetime-local" 
+                        value={toDateTimeLocal(currentBlog.published_at)} 
+                        onChange={e => setCurrentBlog({...currentBlog, published_at: fromDateTimeLocal(e.target.value)})} 
+                    />
+                    <p className="text-xs text-slate-500">
+                        Leave empty to publish now. A future date schedules the post: it stays hidden until then.
+                    </p>
+                </div>
+            )}
             
             <div className="flex justify-end gap-3 pt-4">
-              <Button variant="ghost" onClick={() => setIsEditingBlog(false)}>Cancel</Button>
-              <Button onClick={handleSaveBlog}>Save Post</Button>
+              <Button variant="ghost" onClick={closeBlogEditor}>Cancel</Button>
+              <Button onClick={handleSaveBlog} disabled={postUploadsInFlight > 0}>
+                {postUploadsInFlight > 0 ? 'Uploading images...' : 'Save Post'}
+              </Button>
             </div>
           </Card>
         )}
@@ -587,30 +887,68 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                     <div>
                         <div className="flex items-center gap-2">
                              <h4 className="font-bold text-white">{blog.title}</h4>
-                             {blog.published ? 
-                                <span className="text-xs bg-green-900/30 text-green-400 px-2 py-0.5 rounded border border-green-800">Published</span> : 
+                             {getPostStatus(blog) === 'published' && 
+                                <span className="text-xs bg-green-900/30 text-green-400 px-2 py-0.5 rounded border border-green-800">Published</span>
+                             }
+                             {getPostStatus(blog) === 'scheduled' && 
+                                <span className="text-xs bg-amber-900/30 text-amber-400 px-2 py-0.5 rounded border border-amber-800">Scheduled</span>
+                             }
+                             {getPostStatus(blog) === 'draft' && 
                                 <span className="text-xs bg-slate-800 text-slate-400 px-2 py-0.5 rounded border border-slate-700">Draft</span>
                              }
                         </div>
-                        <div className="text-xs text-slate-500 font-mono mt-1">/{blog.slug} • {new Date(blog.created_at).toLocaleDateString()}</div>
+                        <div className="text-xs text-slate-500 font-mono mt-1">
+                            /{blog.slug} • {getPostStatus(blog) === 'scheduled' && blog.published_at
+                              ? `Goes live ${new Date(blog.published_at).toLocaleString()}`
+                              : new Date(blog.published_at || blog.created_at).toLocaleDateString()}
+                        </div>
                         {blog.summary && (
                           <p className="text-sm text-slate-400 mt-2 line-clamp-1">{blog.summary}</p>
                         )}
                     </div>
-                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <Button variant="secondary" className="h-8 w-8 p-0" onClick={() => { setCurrentBlog(blog); setIsEditingBlog(true); }}>
-                            <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button variant="danger" className="h-8 w-8 p-0" onClick={() => handleDeleteBlog(blog.id)}>
-                            <Trash2 className="w-4 h-4" />
-                        </Button>
-                    </div>
+                    {canEditPost(currentUser, blog) && (
+                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button variant="secondary" className="h-8 w-8 p-0" onClick={() => openBlogEditor(blog)}>
+                                <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button variant="danger" className="h-8 w-8 p-0" onClick={() => handleDeleteBlog(blog.id)}>
+                                <Trash2 className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    )}
                 </Card>
             ))}
         </div>
       </div>
   );
 
+  // --- Access Check ---
+  if (userLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center relative z-20">
+        <Loader2 className="w-8 h-8 text-indigo-500 animate-spin mr-3" />
+        <span className="text-slate-400">Checking your access...</span>
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center relative z-20 px-4">
+        <Card className="w-full max-w-md p-8 space-y-4 text-center border-slate-700 bg-slate-900/80">
+          <ShieldOff className="w-10 h-10 text-slate-500 mx-auto" />
+          <h1 className="text-xl font-bold text-white">No CMS access</h1>
+          <p className="text-slate-400 text-sm">
+            Your account isn't on the CMS user list, or its access was revoked. Ask an owner to invite you.
+          </p>
+          <Button variant="secondary" onClick={onLogout}>
+            <LogOut className="w-4 h-4 mr-2" /> Sign Out
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-screen bg-slate-950/50 backdrop-blur-sm z-20 relative">
       {/* --- Persistent Header --- */}
@@ -619,6 +957,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
           J
         </div>
         <h1 className="text-xl font-bold text-white tracking-tight">Portfolio Admin</h1>
+        {dataProvider.name === 'local' && (
+          <span 
+            className="text-xs bg-amber-900/30 text-amber-400 px-2 py-0.5 rounded border border-amber-800" 
+            title="Content is stored in this browser only. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to use Supabase."
+          >
+            Local data
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2 text-sm">
+          <span className="text-slate-400">{currentUser.email}</span>
+          <span className="text-xs bg-indigo-900/30 text-indigo-300 px-2 py-0.5 rounded border border-indigo-800">
+            {roleLabel(currentUser.role)}
+          </span>
+        </div>
       </header>
 
       {/* --- Main Layout: Sidebar + Content --- */}
@@ -627,16 +979,29 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
         <aside className="w-64 border-r border-slate-800 bg-slate-900/50 p-6 flex flex-col">
         
         <nav className="space-y-2 flex-1">
-          <SidebarItem icon={<LayoutDashboard size={20} />} label="Overview" active={activeTab === 'OVERVIEW'} onClick={() => setActiveTab('OVERVIEW')} />
-          <SidebarItem icon={<FolderOpen size={20} />} label="Selected Work" active={activeTab === 'SELECTED_WORK'} onClick={() => setActiveTab('SELECTED_WORK')} />
-          <SidebarItem icon={<FileText size={20} />} label="Thoughts" active={activeTab === 'THOUGHTS'} onClick={() => setActiveTab('THOUGHTS')} />
-          <SidebarItem icon={<Settings size={20} />} label="Site Content" active={activeTab === 'SITE_CONTENT'} onClick={() => setActiveTab('SITE_CONTENT')} />
+          <SidebarItem icon={<LayoutDashboard size={20} />} label="Overview" active={activeTab === 'OVERVIEW'} onClick={() => changeTab('OVERVIEW')} />
+          <SidebarItem icon={<FolderOpen size={20} />} label="Selected Work" active={activeTab === 'SELECTED_WORK'} onClick={() => changeTab('SELECTED_WORK')} />
+          <SidebarItem icon={<Tags size={20} />} label="Tags & Categories" active={activeTab === 'TAXONOMY'} onClick={() => changeTab('TAXONOMY')} />
+          <SidebarItem icon={<FileText size={20} />} label="Thoughts" active={activeTab === 'THOUGHTS'} onClick={() => changeTab('THOUGHTS')} />
+          <SidebarItem icon={<Images size={20} />} label="Media" active={activeTab === 'MEDIA'} onClick={() => changeTab('MEDIA')} />
+          {can(role, 'inbox.read') && (
+            <SidebarItem icon={<Inbox size={20} />} label="Inbox" badge={unreadMessages} active={activeTab === 'INBOX'} onClick={() => changeTab('INBOX')} />
+          )}
+          <SidebarItem icon={<Settings size={20} />} label="Site Content" active={activeTab === 'SITE_CONTENT'} onClick={() => changeTab('SITE_CONTENT')} />
+          {can(role, 'users.manage') && (
+            <SidebarItem icon={<Users size={20} />} label="Users" active={activeTab === 'USERS'} onClick={() => changeTab('USERS')} />
+          )}
+          {dataProvider.requiresAuth && (
+            <SidebarItem icon={<UserCog size={20} />} label="Account" active={activeTab === 'ACCOUNT'} onClick={() => changeTab('ACCOUNT')} />
+          )}
         </nav>
 
         <div className="pt-6 border-t border-slate-800 space-y-2">
           <button 
             onClick={() => {
-              window.location.hash = '#/';
+              if (confirmLeave()) {
+                navigate('/');
+              }
             }} 
             className="flex items-center gap-3 text-slate-400 hover:text-white transition-colors w-full px-3 py-2 rounded-lg hover:bg-white/5"
           >
@@ -644,8 +1009,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
             <span>View Portfolio</span>
           </button>
           <button 
-            onClick={async () => {
-              await supabase.auth.signOut();
+            onClick={() => {
+              if (!confirmLeave()) return;
               onLogout();
             }} 
             className="flex items-center gap-3 text-slate-400 hover:text-white transition-colors w-full px-3 py-2 rounded-lg hover:bg-white/5"
@@ -662,13 +1027,41 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
             {activeTab === 'OVERVIEW' && <div key="overview">{renderOverview()}</div>}
             {activeTab === 'SELECTED_WORK' && (
               <div className="space-y-6 animate-in fade-in duration-500" key="selected-work">
-                <SelectedWorkManager />
+                <SelectedWorkManager onDirtyChange={setWorkDirty} readOnly={!can(role, 'work.edit')} />
+              </div>
+            )}
+            {activeTab === 'TAXONOMY' && (
+              <div key="taxonomy">
+                <TaxonomyManager readOnly={!can(role, 'taxonomy.edit')} />
               </div>
             )}
             {activeTab === 'THOUGHTS' && <div key="thoughts">{renderBlog()}</div>}
+            {activeTab === 'MEDIA' && (
+              <div key="media">
+                <MediaLibrary readOnly={!can(role, 'media.manage')} />
+              </div>
+            )}
+            {activeTab === 'INBOX' && can(role, 'inbox.read') && (
+              <div key="inbox">
+                <InboxManager onUnreadCountChange={setUnreadMessages} />
+              </div>
+            )}
+            {activeTab === 'USERS' && can(role, 'users.manage') && (
+              <div key="users">
+                <UsersManager currentUser={currentUser} />
+              </div>
+            )}
+            {activeTab === 'ACCOUNT' && dataProvider.requiresAuth && (
+              <div key="account">
+                <AccountSettings currentUser={currentUser} onSignedOut={() => navigate('/admin/login')} />
+              </div>
+            )}
             {activeTab === 'SITE_CONTENT' && (
-              <div className="space-y-6 animate-in fade-in duration-500">
+              <fieldset disabled={!can(role, 'site.edit')} className="space-y-6 animate-in fade-in duration-500 min-w-0">
                   <h2 className="text-2xl font-bold text-white">Site Content</h2>
+                  {!can(role, 'site.edit') && (
+                    <p className="text-sm text-slate-400">Your role can view the site content but not change it.</p>
+                  )}
                   
                   {/* Profile Information */}
                   <Card className="p-6 space-y-4">
@@ -699,7 +1092,23 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                         value={profileForm.bio || ''} 
                         onChange={e => setProfileForm({...profileForm, bio: e.target.value})} 
                       />
-                      <Button onClick={handleSaveProfile}>Save Profile Changes</Button>
+                      <div className="flex gap-3">
+                          <Button onClick={handleSaveProfile}>Save Profile Changes</Button>
+                          {profile?.id && (
+                              <Button variant="ghost" onClick={() => setShowProfileHistory(!showProfileHistory)}>
+                                  <History className="w-4 h-4 mr-2" /> History
+                              </Button>
+                          )}
+                      </div>
+                      {showProfileHistory && profile?.id && (
+                          <RevisionHistory 
+                              entityType="profiles" 
+                              entityId={profile.id} 
+                              fields={PROFILE_REVISION_FIELDS} 
+                              onRestore={handleRestoreProfileRevision} 
+                              onClose={() => setShowProfileHistory(false)} 
+                          />
+                      )}
                   </Card>
 
                   {/* Resume Upload */}
@@ -816,7 +1225,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                         </>
                       )}
                   </Card>
-              </div>
+              </fieldset>
             )}
           </div>
         </main>
@@ -827,7 +1236,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
 
 
 // Helper component for sidebar links
-const SidebarItem = ({ icon, label, active, onClick }: any) => (
+const SidebarItem = ({ icon, label, active, onClick, badge }: any) => (
   <button 
     onClick={onClick}
     className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${
@@ -836,6 +1245,13 @@ const SidebarItem = ({ icon, label, active, onClick }: any) => (
   >
     {icon}
     <span className="font-medium text-sm">{label}</span>
+    {badge > 0 && (
+      <span className={`ml-auto text-xs font-bold px-2 py-0.5 rounded-full ${
+        active ? 'bg-white/20 text-white' : 'bg-indigo-600 text-white'
+      }`}>
+        {badge}
+      </span>
+    )}
   </button>
 );
 
@@ -1,13 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Loader2 } from 'lucide-react';
-import { BlogPost } from '../../types';
+import { ArrowLeft, ArrowRight, Loader2 } from 'lucide-react';
+import { BlogPost, Profile } from '../../types';
 import { Button } from '../ui/Components';
+import { Markdown } from '../ui/Markdown';
 import { DataService } from '../../services/supabaseService';
+import { isUuid } from '../../src/lib/slug';
+import { getSeriesParts, termSlug } from '../../src/lib/taxonomy';
+import { Link } from '../../src/lib/router';
+import { blogPostPageMeta } from '../../src/lib/seo';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+import { useInitialContent } from '../../src/prerender/snapshot';
 
 interface BlogDetailProps {
-  blogId: string;
+  slug: string;
   onBack: () => void;
+  /** Called with the canonical slug when the route used a legacy post ID */
+  onRedirect: (slug: string) => void;
 }
 
 /**
@@ -15,21 +24,62 @@ interface BlogDetailProps {
  * 
  * Displays a detailed view of a single Thoughts & Insights article.
  * Shows article title, published date, and full content.
+ * Loaded by slug; legacy UUID links are redirected to the slug URL.
+ * Posts in a series show "part N of M" with links to the previous and next parts.
+ * Sets the page title, social tags and BlogPosting structured data for sharing.
  */
-const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
-  const [blog, setBlog] = useState<BlogPost | null>(null);
-  const [loading, setLoading] = useState(true);
+const BlogDetail: React.FC<BlogDetailProps> = ({ slug, onBack, onRedirect }) => {
+  // Content the page was prerendered with, if any; fresh data is still fetched below
+  const initial = useInitialContent();
+  const initialBlog = initial?.blogs?.find(b => b.slug === slug) || null;
+
+  const [blog, setBlog] = useState<BlogPost | null>(initialBlog);
+  const [loading, setLoading] = useState(!initialBlog);
   const [error, setError] = useState<string | null>(null);
+  // The author shown in the structured data
+  const [profile, setProfile] = useState<Profile | null>(initial?.profile || null);
+  // All live parts of the post's series, in reading order
+  const [seriesParts, setSeriesParts] = useState<BlogPost[]>(
+    initialBlog?.series ? getSeriesParts(initial?.blogs || [], initialBlog.series) : []
+  );
+
+  useEffect(() => {
+    DataService.getProfile().then(setProfile).catch(() => setProfile(null));
+  }, []);
+
+  usePageMeta(blog ? blogPostPageMeta(blog, profile) : null);
+
+  useEffect(() => {
+    const series = blog?.series;
+    if (!series) {
+      setSeriesParts([]);
+      return;
+    }
+
+    DataService.getBlogPosts()
+      .then(posts => setSeriesParts(getSeriesParts(posts, series)))
+      .catch(err => console.error('Error loading series:', err));
+  }, [blog?.series]);
 
   useEffect(() => {
     const loadBlog = async () => {
-      setLoading(true);
+      // Prerendered content stays on screen while it is refreshed
+      if (blog?.slug !== slug) {
+        setLoading(true);
+      }
       setError(null);
       
       try {
-        // Fetch all blog posts and find the one matching the ID
-        const allBlogs = await DataService.getBlogPosts();
-        const foundBlog = allBlogs.find(b => b.id === blogId);
+        const foundBlog = await DataService.getBlogPostBySlug(slug);
+
+        // Old links used the post UUID: send them to the canonical slug URL
+        if (!foundBlog && isUuid(slug)) {
+          const legacyBlog = await DataService.getBlogPostById(slug);
+          if (legacyBlog?.slug) {
+            onRedirect(legacyBlog.slug);
+            return;
+          }
+        }
 
         if (!foundBlog) {
           setError('Article not found');
@@ -46,163 +96,16 @@ const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
       }
     };
 
-    if (blogId) {
+    if (slug) {
       loadBlog();
     }
-  }, [blogId]);
+  }, [slug]);
 
-  // Helper function to render markdown content with enhanced formatting
-  const renderContent = (content: string) => {
-    // Split by double newlines to get paragraphs
-    const paragraphs = content.split(/\n\s*\n/);
-    
-    return paragraphs.map((para, paraIdx) => {
-      const trimmedPara = para.trim();
-      if (!trimmedPara) return null;
-      
-      // Check for headings
-      if (trimmedPara.startsWith('#')) {
-        const match = trimmedPara.match(/^(#+)\s+(.+)$/);
-        if (match) {
-          const headingLevel = match[1].length;
-          const headingText = match[2];
-          const headingTag = `h${Math.min(headingLevel, 3)}` as 'h1' | 'h2' | 'h3';
-          const className = `font-bold text-white mt-8 mb-4 first:mt-0 ${
-            headingLevel === 1 ? 'text-3xl' : headingLevel === 2 ? 'text-2xl' : 'text-xl'
-          }`;
-          
-          return React.createElement(
-            headingTag,
-            { key: paraIdx, className },
-            renderInlineMarkdown(headingText)
-          );
-        }
-      }
-      
-      // Check for lists
-      if (trimmedPara.match(/^[-*+]\s/)) {
-        const items = trimmedPara.split('\n').filter(line => line.trim().match(/^[-*+]\s/));
-        return (
-          <ul key={paraIdx} className="mb-6 ml-6 space-y-2 list-disc list-outside text-slate-300">
-            {items.map((item, itemIdx) => {
-              const itemText = item.replace(/^[-*+]\s+/, '');
-              return (
-                <li key={itemIdx} className="leading-relaxed">
-                  {renderInlineMarkdown(itemText)}
-                </li>
-              );
-            })}
-          </ul>
-        );
-      }
-      
-      // Check for numbered lists
-      if (trimmedPara.match(/^\d+\.\s/)) {
-        const items = trimmedPara.split('\n').filter(line => line.trim().match(/^\d+\.\s/));
-        return (
-          <ol key={paraIdx} className="mb-6 ml-6 space-y-2 list-decimal list-outside text-slate-300">
-            {items.map((item, itemIdx) => {
-              const itemText = item.replace(/^\d+\.\s+/, '');
-              return (
-                <li key={itemIdx} className="leading-relaxed">
-                  {renderInlineMarkdown(itemText)}
-                </li>
-              );
-            })}
-          </ol>
-        );
-      }
-      
-      // Regular paragraph
-      return (
-        <p key={paraIdx} className="mb-6 text-slate-300 leading-relaxed text-lg">
-          {renderInlineMarkdown(trimmedPara)}
-        </p>
-      );
-    });
-  };
-
-  // Helper function to render inline markdown (bold, italic, links, code)
-  const renderInlineMarkdown = (text: string) => {
-    const parts: (string | React.ReactElement)[] = [];
-    let currentIndex = 0;
-    
-    // Pattern for bold **text** or __text__
-    const boldPattern = /(\*\*|__)(.+?)\1/g;
-    // Pattern for italic *text* or _text_
-    const italicPattern = /(\*|_)(.+?)\1/g;
-    // Pattern for links [text](url)
-    const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
-    // Pattern for inline code `code`
-    const codePattern = /`([^`]+)`/g;
-    
-    // Combine all patterns
-    const allMatches: Array<{ index: number; length: number; type: string; content: string; url?: string }> = [];
-    
-    let match;
-    while ((match = boldPattern.exec(text)) !== null) {
-      allMatches.push({ index: match.index, length: match[0].length, type: 'bold', content: match[2] });
-    }
-    while ((match = italicPattern.exec(text)) !== null) {
-      allMatches.push({ index: match.index, length: match[0].length, type: 'italic', content: match[2] });
-    }
-    while ((match = linkPattern.exec(text)) !== null) {
-      allMatches.push({ index: match.index, length: match[0].length, type: 'link', content: match[1], url: match[2] });
-    }
-    while ((match = codePattern.exec(text)) !== null) {
-      allMatches.push({ index: match.index, length: match[0].length, type: 'code', content: match[1] });
-    }
-    
-    // Sort by index
-    allMatches.sort((a, b) => a.index - b.index);
-    
-    // Build parts array
-    allMatches.forEach((match) => {
-      // Add text before match
-      if (match.index > currentIndex) {
-        parts.push(text.substring(currentIndex, match.index));
-      }
-      
-      // Add formatted element
-      switch (match.type) {
-        case 'bold':
-          parts.push(<strong key={`${match.index}-bold`} className="font-bold text-white">{match.content}</strong>);
-          break;
-        case 'italic':
-          parts.push(<em key={`${match.index}-italic`} className="italic">{match.content}</em>);
-          break;
-        case 'link':
-          parts.push(
-            <a 
-              key={`${match.index}-link`} 
-              href={match.url} 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-indigo-400 hover:text-indigo-300 underline"
-            >
-              {match.content}
-            </a>
-          );
-          break;
-        case 'code':
-          parts.push(
-            <code key={`${match.index}-code`} className="px-1.5 py-0.5 bg-slate-800 text-indigo-300 rounded text-sm font-mono">
-              {match.content}
-            </code>
-          );
-          break;
-      }
-      
-      currentIndex = match.index + match.length;
-    });
-    
-    // Add remaining text
-    if (currentIndex < text.length) {
-      parts.push(text.substring(currentIndex));
-    }
-    
-    return parts.length > 0 ? <>{parts}</> : text;
-  };
+  // --- Series Navigation ---
+  const partIndex = blog ? seriesParts.findIndex(part => part.id === blog.id) : -1;
+  const previousPart = partIndex > 0 ? seriesParts[partIndex - 1] : null;
+  const nextPart = partIndex >= 0 ? seriesParts[partIndex + 1] || null : null;
+  const partLabel = partIndex >= 0 ? `Part ${partIndex + 1} of ${seriesParts.length}` : null;
 
   if (loading) {
     return (
@@ -260,11 +163,16 @@ const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
           >
             {/* Article Header */}
             <div className="space-y-4 border-b border-slate-800 pb-8">
+              {blog.series && partLabel && (
+                <p className="text-sm font-mono text-indigo-400 uppercase tracking-wider">
+                  {blog.series} · {partLabel}
+                </p>
+              )}
               <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold text-white leading-tight">
                 {blog.title}
               </h1>
               <div className="flex items-center gap-4 text-slate-400">
-                <span className="text-sm font-mono">
+                <span className="text-sm font-mono" suppressHydrationWarning>
                   {new Date(blog.created_at).toLocaleDateString('en-US', {
                     year: 'numeric',
                     month: 'long',
@@ -274,7 +182,7 @@ const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
                 {blog.published_at && (
                   <>
                     <span className="text-slate-600">•</span>
-                    <span className="text-sm font-mono">
+                    <span className="text-sm font-mono" suppressHydrationWarning>
                       Published {new Date(blog.published_at).toLocaleDateString('en-US', {
                         year: 'numeric',
                         month: 'long',
@@ -293,6 +201,19 @@ const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
                   {blog.summary}
                 </p>
               )}
+              {blog.tags?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {blog.tags.map(tag => (
+                    <Link
+                      key={tag}
+                      to={`/thoughts/tag/${termSlug(tag)}`}
+                      className="text-xs px-2 py-0.5 rounded-full border border-slate-800 text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+                    >
+                      #{tag}
+                    </Link>
+                  ))}
+                </div>
+              )}
             </div>
           </motion.div>
         </div>
@@ -306,10 +227,41 @@ const BlogDetail: React.FC<BlogDetailProps> = ({ blogId, onBack }) => {
           transition={{ delay: 0.4, duration: 0.6 }}
         >
           <article className="prose prose-invert prose-lg max-w-none">
-            <div className="text-slate-300">
-              {renderContent(blog.content)}
-            </div>
+            <Markdown content={blog.content} imageSets={blog.image_sets} className="text-slate-300" />
           </article>
+
+          {/* Series Navigation */}
+          {partLabel && seriesParts.length > 1 && (
+            <nav aria-label={`${blog.series} series`} className="mt-16 border-t border-slate-800 pt-8 space-y-4">
+              <p className="text-sm text-slate-500">
+                {partLabel} in <span className="text-slate-300">{blog.series}</span>
+              </p>
+              <div className="grid gap-4 md:grid-cols-2">
+                {previousPart ? (
+                  <Link
+                    to={`/thoughts/${encodeURIComponent(previousPart.slug)}`}
+                    className="group p-4 rounded-lg border border-slate-800 hover:border-indigo-500/50 transition-colors"
+                  >
+                    <span className="flex items-center text-xs text-slate-500 mb-1">
+                      <ArrowLeft className="w-3 h-3 mr-1" /> Previous
+                    </span>
+                    <span className="text-slate-200 group-hover:text-indigo-400 transition-colors">{previousPart.title}</span>
+                  </Link>
+                ) : <div />}
+                {nextPart && (
+                  <Link
+                    to={`/thoughts/${encodeURIComponent(nextPart.slug)}`}
+                    className="group p-4 rounded-lg border border-slate-800 hover:border-indigo-500/50 transition-colors md:text-right"
+                  >
+                    <span className="flex items-center md:justify-end text-xs text-slate-500 mb-1">
+                      Next <ArrowRight className="w-3 h-3 ml-1" />
+                    </span>
+                    <span className="text-slate-200 group-hover:text-indigo-400 transition-colors">{nextPart.title}</span>
+                  </Link>
+                )}
+              </div>
+            </nav>
+          )}
         </motion.div>
       </section>
     </div>
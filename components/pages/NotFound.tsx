@@ -0,0 +1,47 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '../ui/Components';
+import { SITE_NAME } from '../../src/lib/seo';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+
+interface NotFoundProps {
+  path: string;
+  onBack: () => void;
+}
+
+/**
+ * NotFound Component
+ *
+ * Shown for any path no route matches, instead of silently falling back to the portfolio.
+ */
+const NotFound: React.FC<NotFoundProps> = ({ path, onBack }) => {
+  usePageMeta({
+    title: `Page Not Found | ${SITE_NAME}`,
+    description: 'There is no page at this address.',
+    path,
+    noIndex: true,
+  });
+
+  return (
+    <div className="min-h-screen relative z-10 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center space-y-4 max-w-md"
+      >
+        <p className="text-indigo-400 font-mono text-sm">404</p>
+        <h2 className="text-2xl font-bold text-white">Page Not Found</h2>
+        <p className="text-slate-400">
+          There's nothing at <span className="font-mono text-slate-300 break-all">{path}</span>. The link may be out of date.
+        </p>
+        <Button onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Portfolio
+        </Button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default NotFound;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { BlogPost, Profile } from '../../types';
+import { Button } from '../ui/Components';
+import { PostListItem } from '../ui/PostListItem';
+import { FilterChips } from '../ui/FilterChips';
+import { DataService } from '../../services/supabaseService';
+import { getPostTags, findTerm, hasTerm } from '../../src/lib/taxonomy';
+import { navigate } from '../../src/lib/router';
+import { postTagPageMeta } from '../../src/lib/seo';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+import { useInitialContent } from '../../src/prerender/snapshot';
+
+interface PostTagPageProps {
+  tag: string;
+  onBack: () => void;
+}
+
+/**
+ * PostTagPage Component
+ *
+ * Archive of the Thoughts articles with one tag (/thoughts/tag/:tag),
+ * with chips to switch to the other tags.
+ */
+const PostTagPage: React.FC<PostTagPageProps> = ({ tag, onBack }) => {
+  // Content the page was prerendered with, if any; fresh data is still fetched below
+  const initial = useInitialContent();
+
+  const [blogs, setBlogs] = useState<BlogPost[]>(initial?.blogs || []);
+  const [loading, setLoading] = useState(!initial?.blogs);
+  const [error, setError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(initial?.profile || null);
+
+  useEffect(() => {
+    const loadBlogs = async () => {
+      try {
+        setBlogs(await DataService.getBlogPosts());
+      } catch (err) {
+        console.error('Error loading blog posts:', err);
+        setError('Failed to load articles');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBlogs();
+    DataService.getProfile().then(setProfile).catch(() => setProfile(null));
+  }, []);
+
+  const tags = getPostTags(blogs);
+  const term = findTerm(tags, tag);
+  const tagged = blogs.filter(blog => hasTerm(blog.tags, tag));
+
+  usePageMeta(term ? postTagPageMeta(term.name, term.slug, tagged, profile) : null);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
+          <span className="text-slate-500 font-mono text-sm">Loading articles...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !term) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-6">
+        <div className="text-center space-y-4 max-w-md">
+          <h2 className="text-2xl font-bold text-white">Tag Not Found</h2>
+          <p className="text-slate-400">{error || 'No articles use this tag.'}</p>
+          <Button onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Portfolio
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen relative z-10 pb-20">
+      {/* Back Button */}
+      <div className="fixed top-4 left-4 z-40">
+        <Button
+          onClick={onBack}
+          variant="secondary"
+          className="bg-slate-900/70 backdrop-blur-md border-slate-800 hover:bg-slate-800"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Portfolio
+        </Button>
+      </div>
+
+      <section className="pt-32 px-6">
+        <div className="max-w-4xl mx-auto space-y-10">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="space-y-2 border-b border-slate-800 pb-8"
+          >
+            <p className="text-sm font-mono text-indigo-400 uppercase tracking-wider">Thoughts tagged</p>
+            <h1 className="text-4xl md:text-5xl font-bold text-white">{term.name}</h1>
+            <p className="text-slate-400">
+              {tagged.length} article{tagged.length === 1 ? '' : 's'}
+            </p>
+          </motion.div>
+
+          <FilterChips
+            terms={tags}
+            active={term.slug}
+            allLabel="All articles"
+            onSelect={slug => navigate(slug ? `/thoughts/tag/${slug}` : '/')}
+            label="Browse articles by tag"
+          />
+
+          <div className="space-y-8">
+            {tagged.map(blog => (
+              <PostListItem key={blog.id} post={blog} />
+            ))}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default PostTagPage;
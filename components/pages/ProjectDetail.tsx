@@ -1,41 +1,89 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, ExternalLink, Loader2 } from 'lucide-react';
-import { Project } from '../../types';
+import { ArrowLeft, ExternalLink, Loader2, Globe, Github, Presentation } from 'lucide-react';
+import { Project, Profile, ProjectLinkKind } from '../../types';
 import { Button } from '../ui/Components';
-import { supabase } from '../../src/lib/supabaseClient';
+import { Markdown } from '../ui/Markdown';
+import { Lightbox } from '../ui/Lightbox';
+import { ResponsiveImage } from '../ui/ResponsiveImage';
+import { Link } from '../../src/lib/router';
+import { termSlug } from '../../src/lib/taxonomy';
+import { getProjectById, getProjectBySlug } from '../../src/services/projectRepository';
+import { isUuid } from '../../src/lib/slug';
+import { DataService } from '../../services/supabaseService';
+import { projectPageMeta } from '../../src/lib/seo';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+import { useInitialContent } from '../../src/prerender/snapshot';
+
+const LINK_KINDS: Record<ProjectLinkKind, { label: string; icon: React.ElementType }> = {
+  live: { label: 'Live site', icon: Globe },
+  repo: { label: 'Repository', icon: Github },
+  deck: { label: 'Deck', icon: Presentation },
+  other: { label: 'Link', icon: ExternalLink },
+};
 
 interface ProjectDetailProps {
-  projectId: string;
+  slug: string;
   onBack: () => void;
+  /** Called with the canonical slug when the route used a legacy project ID */
+  onRedirect: (slug: string) => void;
 }
 
 /**
  * ProjectDetail Component
  * 
  * Displays a detailed view of a single Selected Work project.
- * Shows project title, image, description, tags, category, and link.
+ * Shows project title, image, description, tags and category, plus the case study when there is one:
+ * role/timeline/team, outcome figures, links, the Markdown write-up and an image gallery with a lightbox.
+ * Loaded by slug; links that still use the project ID are redirected to the slug URL.
+ * Sets the page title, social image and CreativeWork structured data for sharing.
  */
-const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
-  const [project, setProject] = useState<Project | null>(null);
-  const [loading, setLoading] = useState(true);
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ slug, onBack, onRedirect }) => {
+  // Content the page was prerendered with, if any; fresh data is still fetched below
+  const initial = useInitialContent();
+  const initialProject = initial?.projects?.find(p => (p.slug || p.id) === slug) || null;
+
+  const [project, setProject] = useState<Project | null>(initialProject);
+  const [loading, setLoading] = useState(!initialProject);
   const [error, setError] = useState<string | null>(null);
+  // The creator shown in the structured data
+  const [profile, setProfile] = useState<Profile | null>(initial?.profile || null);
+  // Gallery image open in the lightbox
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    DataService.getProfile().then(setProfile).catch(() => setProfile(null));
+  }, []);
+
+  usePageMeta(project ? projectPageMeta(project, profile) : null);
 
   useEffect(() => {
     const loadProject = async () => {
-      setLoading(true);
+      // Prerendered content stays on screen while it is refreshed
+      if ((project?.slug || project?.id) !== slug) {
+        setLoading(true);
+      }
       setError(null);
       
       try {
-        // Fetch from selected_work table (same as public portfolio)
-        const { data, error: fetchError } = await supabase
-          .from('selected_work')
-          .select('*')
-          .eq('id', projectId)
-          .single();
-
-        if (fetchError) {
-          console.error('Error fetching project:', fetchError);
+        // Same repository as the public grid, so every card link resolves
+        const data = await getProjectBySlug(slug);
+
+        // Old links used the project ID: send them to the canonical slug URL
+        if (!data && isUuid(slug)) {
+          const legacyProject = await getProjectById(slug);
+          if (legacyProject?.slug) {
+            onRedirect(legacyProject.slug);
+            return;
+          }
+          if (legacyProject) {
+            // Saved before projects had slugs: show it under its ID
+            setProject(legacyProject);
+            return;
+          }
+        }
+
+        if (!data) {
           setError('Project not found');
         } else {
           setProject(data);
@@ -48,10 +96,10 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
       }
     };
 
-    if (projectId) {
+    if (slug) {
       loadProject();
     }
-  }, [projectId]);
+  }, [slug]);
 
   if (loading) {
     return (
@@ -79,6 +127,16 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
     );
   }
 
+  // Rows saved before case studies existed have none of these fields
+  const facts = [
+    { label: 'Role', value: project.role },
+    { label: 'Timeline', value: project.timeline },
+    { label: 'Team', value: project.team },
+  ].filter(fact => fact.value);
+  const outcomes = project.outcomes || [];
+  const links = project.links || [];
+  const gallery = project.gallery || [];
+
   return (
     <div className="min-h-screen relative z-10 pb-20">
       {/* Back Button */}
@@ -142,10 +200,13 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
           transition={{ delay: 0.3, duration: 0.6 }}
           className="relative h-[50vh] md:h-[60vh] w-full overflow-hidden -mt-8"
         >
-          <img
+          <ResponsiveImage
             src={project.image_url}
+            imageSet={project.image_set}
             alt={project.title}
+            sizes="100vw"
             className="w-full h-full object-cover"
+            eager
           />
           <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent"></div>
         </motion.div>
@@ -163,12 +224,13 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
           {project.tags && project.tags.length > 0 && (
             <div className="flex flex-wrap gap-2 pb-6 border-b border-slate-800">
               {project.tags.map((tag, idx) => (
-                <span
+                <Link
                   key={idx}
+                  to={`/work/tag/${termSlug(tag)}`}
                   className="px-3 py-1.5 bg-slate-800/50 text-slate-300 text-sm rounded-full border border-slate-700 hover:border-indigo-500/50 transition-colors"
                 >
                   {tag}
-                </span>
+                </Link>
               ))}
             </div>
           )}
@@ -179,8 +241,96 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, onBack }) => {
               <p className="text-lg md:text-xl mb-6">{project.description}</p>
             </div>
           </div>
+
+          {/* Role, Timeline & Team */}
+          {facts.length > 0 && (
+            <dl className="grid gap-6 sm:grid-cols-3 py-6 border-y border-slate-800">
+              {facts.map(fact => (
+                <div key={fact.label}>
+                  <dt className="text-xs font-mono uppercase tracking-wider text-slate-500 mb-1">{fact.label}</dt>
+                  <dd className="text-slate-200">{fact.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {/* Outcomes */}
+          {outcomes.length > 0 && (
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+              {outcomes.map((outcome, idx) => (
+                <div key={idx} className="p-5 rounded-xl border border-slate-800 bg-slate-900/50">
+                  <div className="text-3xl font-bold text-indigo-400">{outcome.value}</div>
+                  <div className="text-sm text-slate-400 mt-1">{outcome.label}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Links */}
+          {links.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              {links.map((link, idx) => {
+                const kind = LINK_KINDS[link.kind] || LINK_KINDS.other;
+                const Icon = kind.icon;
+                return (
+                  <a
+                    key={idx}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center px-4 py-2 rounded-lg border border-slate-700 text-slate-200 text-sm hover:border-indigo-500/50 hover:text-white transition-colors"
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {link.label || kind.label}
+                  </a>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Case Study */}
+          {project.body && (
+            <article className="prose prose-invert prose-lg max-w-none">
+              <Markdown content={project.body} className="text-slate-300" />
+            </article>
+          )}
         </motion.div>
       </section>
+
+      {/* Gallery */}
+      {gallery.length > 0 && (
+        <section className="max-w-5xl mx-auto px-6 pb-12" aria-label="Gallery">
+          <div className="grid gap-6 sm:grid-cols-2">
+            {gallery.map((image, idx) => (
+              <figure key={`${idx}-${image.url}`} className={gallery.length % 2 === 1 && idx === 0 ? 'sm:col-span-2' : ''}>
+                <button
+                  onClick={() => setLightboxIndex(idx)}
+                  className="block w-full overflow-hidden rounded-xl border border-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  aria-label={`View ${image.alt || image.caption || `image ${idx + 1}`} full size`}
+                >
+                  <ResponsiveImage
+                    src={image.url}
+                    imageSet={image.image_set}
+                    alt={image.alt || image.caption || ''}
+                    sizes={gallery.length % 2 === 1 && idx === 0 ? '(min-width: 1024px) 1024px, 100vw' : '(min-width: 1024px) 512px, (min-width: 640px) 50vw, 100vw'}
+                    className="w-full aspect-video object-cover hover:scale-[1.02] transition-transform duration-500"
+                  />
+                </button>
+                {image.caption && (
+                  <figcaption className="mt-2 text-sm text-slate-500">{image.caption}</figcaption>
+                )}
+              </figure>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <Lightbox
+        images={gallery}
+        index={lightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        onNavigate={setLightboxIndex}
+      />
     </div>
   );
 };
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Project, Profile } from '../../types';
+import { Button } from '../ui/Components';
+import { ProjectGrid } from '../ui/ProjectGrid';
+import { FilterChips } from '../ui/FilterChips';
+import { DataService } from '../../services/supabaseService';
+import { getProjects } from '../../src/services/projectRepository';
+import { getProjectTags, findTerm, hasTerm } from '../../src/lib/taxonomy';
+import { navigate } from '../../src/lib/router';
+import { projectTagPageMeta } from '../../src/lib/seo';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+import { useInitialContent } from '../../src/prerender/snapshot';
+
+interface ProjectTagPageProps {
+  tag: string;
+  onBack: () => void;
+}
+
+/**
+ * ProjectTagPage Component
+ *
+ * Landing page for one project tag (/work/tag/:tag): every project with the tag,
+ * with chips to switch to the other tags.
+ */
+const ProjectTagPage: React.FC<ProjectTagPageProps> = ({ tag, onBack }) => {
+  // Content the page was prerendered with, if any; fresh data is still fetched below
+  const initial = useInitialContent();
+
+  const [projects, setProjects] = useState<Project[]>(initial?.projects || []);
+  const [loading, setLoading] = useState(!initial?.projects);
+  const [error, setError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(initial?.profile || null);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        setProjects(await getProjects());
+      } catch (err) {
+        console.error('Error loading projects:', err);
+        setError('Failed to load projects');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProjects();
+    DataService.getProfile().then(setProfile).catch(() => setProfile(null));
+  }, []);
+
+  const tags = getProjectTags(projects);
+  const term = findTerm(tags, tag);
+  const tagged = projects.filter(project => hasTerm(project.tags, tag));
+
+  usePageMeta(term ? projectTagPageMeta(term.name, term.slug, tagged, profile) : null);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
+          <span className="text-slate-500 font-mono text-sm">Loading projects...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !term) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-6">
+        <div className="text-center space-y-4 max-w-md">
+          <h2 className="text-2xl font-bold text-white">Tag Not Found</h2>
+          <p className="text-slate-400">{error || 'No projects use this tag.'}</p>
+          <Button onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Portfolio
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen relative z-10 pb-20">
+      {/* Back Button */}
+      <div className="fixed top-4 left-4 z-40">
+        <Button
+          onClick={onBack}
+          variant="secondary"
+          className="bg-slate-900/70 backdrop-blur-md border-slate-800 hover:bg-slate-800"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Portfolio
+        </Button>
+      </div>
+
+      <section className="pt-32 px-6">
+        <div className="max-w-7xl mx-auto space-y-10">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="space-y-2"
+          >
+            <p className="text-sm font-mono text-indigo-400 uppercase tracking-wider">Tag</p>
+            <h1 className="text-4xl md:text-5xl font-bold text-white">{term.name}</h1>
+            <p className="text-slate-400">
+              {tagged.length} project{tagged.length === 1 ? '' : 's'}
+            </p>
+          </motion.div>
+
+          <FilterChips
+            terms={tags}
+            active={term.slug}
+            allLabel="All work"
+            onSelect={slug => navigate(slug ? `/work/tag/${slug}` : '/')}
+            label="Browse projects by tag"
+          />
+
+          <ProjectGrid projects={tagged} />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ProjectTagPage;
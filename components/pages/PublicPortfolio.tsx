@@ -1,11 +1,64 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Linkedin, Mail, ExternalLink, Download, X, ArrowRight, Loader2, Send } from 'lucide-react';
+import { Linkedin, Mail, ExternalLink, Download, X, ArrowRight, Loader2, Send, Rss, Search } from 'lucide-react';
 import { DataService } from '../../services/supabaseService';
 import { Profile, Project, BlogPost } from '../../types';
 import { Button, Card, Input, Textarea } from '../ui/Components';
-import { supabase } from '../../src/lib/supabaseClient';
+import { getProjects } from '../../src/services/projectRepository';
 import { incrementPortfolioView } from '../../src/services/analyticsService';
+import { checkContactSubmission } from '../../src/lib/spamFilter';
+import { Link, setSearchParams, useSearchParams } from '../../src/lib/router';
+import { profilePageMeta } from '../../src/lib/seo';
+import { FEED_PATHS } from '../../src/lib/feeds';
+import { getProjectTags, getPostTags, findTerm, hasTerm } from '../../src/lib/taxonomy';
+import { ProjectGrid } from '../ui/ProjectGrid';
+import { PostListItem } from '../ui/PostListItem';
+import { FilterChips } from '../ui/FilterChips';
+import { openSearch } from '../ui/SearchPalette';
+import { usePageMeta } from '../../src/hooks/usePageMeta';
+import { CONTACT_CONTENT_KEYS, useInitialContent } from '../../src/prerender/snapshot';
+
+// Local submission history used by the contact form rate limiter
+const SESSION_HISTORY_KEY = 'contact_submissions';
+const EMAIL_HISTORY_KEY = 'contact_submissions_by_email';
+
+const isTimestampList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(t => typeof t === 'number');
+
+const isHistoryByEmail = (value: unknown): value is Record<string, number[]> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isTimestampList);
+
+// Stored history, or the fallback when it is missing, unreadable or not the expected shape.
+// Storage is passed as a getter: merely touching localStorage throws when it's disabled.
+const readHistory = <T,>(storage: () => Storage, key: string, isValid: (value: unknown) => value is T, fallback: T): T => {
+  try {
+    const value: unknown = JSON.parse(storage().getItem(key) || 'null');
+    return isValid(value) ? value : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getSubmissionHistory = (email: string) => {
+  const byEmail = readHistory(() => localStorage, EMAIL_HISTORY_KEY, isHistoryByEmail, {});
+  const bySession = readHistory(() => sessionStorage, SESSION_HISTORY_KEY, isTimestampList, []);
+  return { previousByEmail: byEmail[email.trim().toLowerCase()] || [], previousBySession: bySession };
+};
+
+const recordSubmission = (email: string, timestamp: number) => {
+  try {
+    const byEmail = readHistory(() => localStorage, EMAIL_HISTORY_KEY, isHistoryByEmail, {});
+    const key = email.trim().toLowerCase();
+    byEmail[key] = [...(byEmail[key] || []), timestamp].slice(-10);
+    localStorage.setItem(EMAIL_HISTORY_KEY, JSON.stringify(byEmail));
+
+    const bySession = readHistory(() => sessionStorage, SESSION_HISTORY_KEY, isTimestampList, []);
+    sessionStorage.setItem(SESSION_HISTORY_KEY, JSON.stringify([...bySession, timestamp].slice(-10)));
+  } catch (err) {
+    // Storage can be unavailable (private mode); rate limiting just becomes best-effort
+    console.warn('Could not record contact submission:', err);
+  }
+};
 
 /**
  * PublicPortfolio Component
@@ -15,17 +68,20 @@ import { incrementPortfolioView } from '../../src/services/analyticsService';
  * Hero, Projects Grid, Blog Insights, and Contact Form.
  */
 const PublicPortfolio: React.FC = () => {
+  // Content the page was prerendered with, if any; fresh data is still fetched below
+  const initial = useInitialContent();
+
   // --- State Management ---
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [projectsLoading, setProjectsLoading] = useState(true);
-  const [blogs, setBlogs] = useState<BlogPost[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<Profile | null>(initial?.profile || null);
+  const [projects, setProjects] = useState<Project[]>(initial?.projects || []);
+  const [projectsLoading, setProjectsLoading] = useState(!initial?.projects);
+  const [blogs, setBlogs] = useState<BlogPost[]>(initial?.blogs || []);
+  const [loading, setLoading] = useState(!initial?.profile);
   const [showAllArticles, setShowAllArticles] = useState(false);
   const [contactData, setContactData] = useState({
-    contact_bio: '',
-    linkedin_url: '',
-    email_url: ''
+    contact_bio: initial?.siteContent?.contact_bio || '',
+    linkedin_url: initial?.siteContent?.linkedin_url || '',
+    email_url: initial?.siteContent?.email_url || ''
   });
   
   // UI State: Tracks which project is currently opened in the modal
@@ -33,8 +89,11 @@ const PublicPortfolio: React.FC = () => {
   
   // Contact Form State
   const [formState, setFormState] = useState({ name: '', email: '', message: '' });
+  const [honeypot, setHoneypot] = useState('');
+  const formRenderedAt = useRef(Date.now());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   // --- Data Fetching Function ---
   const loadData = async () => {
@@ -48,11 +107,7 @@ const PublicPortfolio: React.FC = () => {
       
       // Load contact section data separately (non-blocking)
       try {
-        const contactSectionData = await DataService.getSiteContentMultiple([
-          'contact_bio',
-          'linkedin_url',
-          'email_url'
-        ]);
+        const contactSectionData = await DataService.getSiteContentMultiple(CONTACT_CONTENT_KEYS);
         setContactData({
           contact_bio: contactSectionData.contact_bio || '',
           linkedin_url: contactSectionData.linkedin_url || '',
@@ -85,6 +140,29 @@ const PublicPortfolio: React.FC = () => {
     loadData();
   }, []);
 
+  // --- Page Metadata (title, social tags, Person structured data) ---
+  usePageMeta(profile ? profilePageMeta(profile) : null);
+
+  // --- Project Tag Filter ---
+  const searchParams = useSearchParams();
+  const projectTags = getProjectTags(projects);
+  const activeTag = searchParams.get('tag');
+  const activeTagTerm = activeTag ? findTerm(projectTags, activeTag) : undefined;
+  const visibleProjects = activeTag ? projects.filter(project => hasTerm(project.tags, activeTag)) : projects;
+
+  // --- Thoughts Tag Filter (?topic=, kept apart from the project tags) ---
+  const postTags = getPostTags(blogs);
+  const activeTopic = searchParams.get('topic');
+  const activeTopicTerm = activeTopic ? findTerm(postTags, activeTopic) : undefined;
+  const visibleBlogs = activeTopic ? blogs.filter(blog => hasTerm(blog.tags, activeTopic)) : blogs;
+
+  // --- Start the time-to-submit clock once the form is actually on screen ---
+  useEffect(() => {
+    if (!loading) {
+      formRenderedAt.current = Date.now();
+    }
+  }, [loading]);
+
   // --- Refresh articles when page gains focus (e.g., returning from admin) ---
   useEffect(() => {
     const handleFocus = () => {
@@ -110,22 +188,11 @@ const PublicPortfolio: React.FC = () => {
     incrementPortfolioView();
   }, []);
 
-  // --- Projects Data Fetching from Supabase (selected_work table) ---
+  // --- Projects Data Fetching (project repository) ---
   useEffect(() => {
     const loadProjects = async () => {
-      setProjectsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('selected_work')
-          .select('*')
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('Error fetching selected work:', error);
-          setProjects([]);
-        } else {
-          setProjects(data || []);
-        }
+        setProjects(await getProjects());
       } catch (err) {
         console.error('Error loading selected work:', err);
         setProjects([]);
@@ -150,20 +217,37 @@ const PublicPortfolio: React.FC = () => {
 
   /**
    * Form Submission Handler
-   * Simulates a network request delay and shows success state.
+   * Screens the message with the spam filter, then saves it to the admin inbox
+   * (or the spam folder when flagged) and shows success state. The database screens
+   * it again (see create_contact_messages_table.sql) and has the final say on the folder.
+   * Flagged visitors see the same success message so bots learn nothing.
    */
-  const handleContactSubmit = (e: React.FormEvent) => {
+  const handleContactSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
-    // Simulate API call delay
-    setTimeout(() => {
-      setIsSubmitting(false);
+    setSubmitError(null);
+    try {
+      const submittedAt = Date.now();
+      const screening = checkContactSubmission(
+        { ...formState, honeypot },
+        { formRenderedAt: formRenderedAt.current, submittedAt, ...getSubmissionHistory(formState.email) }
+      );
+      await DataService.submitContactMessage(formState, screening);
+      recordSubmission(formState.email, submittedAt);
       setSubmitted(true);
       // Reset form
       setFormState({ name: '', email: '', message: '' });
+      setHoneypot('');
+      formRenderedAt.current = Date.now();
       // Clear success message after 3 seconds
       setTimeout(() => setSubmitted(false), 3000);
-    }, 1500);
+    } catch (error) {
+      console.error('Error sending contact message:', error);
+      // Keep the form filled in so the visitor can retry
+      setSubmitError('Sorry, your message could not be sent. Please try again or reach out by email.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   // --- Loading State ---
@@ -185,13 +269,23 @@ const PublicPortfolio: React.FC = () => {
           <div className="font-bold text-lg md:text-xl tracking-tighter text-white truncate max-w-[200px] md:max-w-none">
             {profile?.full_name}
           </div>
+          {/* Search (always visible; also opens with Cmd/Ctrl-K) */}
+          <button
+            onClick={openSearch}
+            className="md:order-last md:ml-6 flex items-center gap-2 text-sm text-slate-400 hover:text-white border border-slate-800 hover:border-slate-600 rounded-md px-3 py-1.5 transition-colors"
+            aria-label="Search projects and articles"
+          >
+            <Search className="w-4 h-4" />
+            <span className="hidden lg:inline">Search</span>
+            <kbd className="hidden lg:inline text-[10px] text-slate-500 border border-slate-700 rounded px-1">⌘K</kbd>
+          </button>
           {/* Desktop Links */}
-          <div className="flex gap-6 text-sm text-slate-300 font-medium hidden md:flex">
+          <div className="flex gap-6 text-sm text-slate-300 font-medium hidden md:flex md:ml-auto">
             <button onClick={() => scrollToSection('about')} className="hover:text-white transition-colors">Bio</button>
             <button onClick={() => scrollToSection('projects')} className="hover:text-white transition-colors">Work</button>
             <button onClick={() => scrollToSection('insights')} className="hover:text-white transition-colors">Insights</button>
             <button onClick={() => scrollToSection('contact')} className="hover:text-white transition-colors">Contact</button>
-            <a href="#/admin/login" className="text-indigo-400 hover:text-indigo-300 ml-4">Admin</a>
+            <Link to="/admin/login" className="text-indigo-400 hover:text-indigo-300 ml-4">Admin</Link>
           </div>
         </div>
       </nav>
@@ -265,57 +359,37 @@ const PublicPortfolio: React.FC = () => {
       {/* --- Projects Grid Section --- */}
       <section id="projects" className="py-24 px-6 bg-slate-950/50">
         <div className="max-w-7xl mx-auto">
-          <div className="flex items-end justify-between mb-16">
+          <div className="flex items-end justify-between mb-8">
             <div>
               <h2 className="text-3xl md:text-4xl font-bold text-white mb-2">Selected Work</h2>
               <p className="text-slate-400">A curation of product and creative direction.</p>
             </div>
           </div>
 
+          {/* Tag Filter (synced to ?tag= in the URL) */}
+          <div className="mb-12 space-y-4">
+            {projectTags.length > 0 && (
+              <FilterChips
+                terms={projectTags}
+                active={activeTag}
+                onSelect={slug => setSearchParams({ tag: slug })}
+                label="Filter projects by tag"
+              />
+            )}
+            {activeTagTerm && (
+              <Link to={`/work/tag/${activeTagTerm.slug}`} className="inline-flex items-center text-sm text-indigo-400 hover:text-indigo-300">
+                All {activeTagTerm.name} work <ArrowRight className="w-4 h-4 ml-1" />
+              </Link>
+            )}
+          </div>
+
           {projectsLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="w-6 h-6 text-indigo-500 animate-spin mr-3" />
               <span className="text-slate-400">Loading projects...</span>
             </div>
           ) : (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {projects.map((project, idx) => (
-                <motion.div
-                  key={project.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  whileInView={{ opacity: 1, y: 0 }}
-                  viewport={{ once: true, margin: "-100px" }}
-                  transition={{ delay: idx * 0.1 }}
-                  onClick={() => {
-                    // Navigate to project detail page
-                    window.location.hash = `#/project/${project.id}`;
-                  }}
-                  className="cursor-pointer group"
-                >
-                  {/* Project Card */}
-                  <div className="rounded-2xl overflow-hidden bg-slate-900 border border-slate-800 hover:border-indigo-500/50 transition-all duration-300 shadow-2xl hover:shadow-indigo-900/10 hover:-translate-y-1">
-                    <div className="aspect-[4/3] w-full overflow-hidden bg-slate-800 relative">
-                      {project.image_url ? (
-                        <img 
-                          src={project.image_url} 
-                          alt={project.title} 
-                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700 ease-out"
-                        />
-                      ) : (
-                        <div className="flex items-center justify-center h-full text-slate-600">No Image</div>
-                      )}
-                      {/* Gradient Overlay for Text Readability */}
-                      <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent opacity-80"></div>
-                      
-                      <div className="absolute bottom-0 left-0 p-6 w-full">
-                        <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2 block">{project.category}</span>
-                        <h3 className="text-2xl font-bold text-white mb-1 group-hover:text-indigo-200 transition-colors">{project.title}</h3>
-                      </div>
-                    </div>
-                  </div>
-                </motion.div>
-              ))}
-            </div>
+            <ProjectGrid projects={visibleProjects} emptyMessage="No projects with this tag yet." />
           )}
         </div>
       </section>
@@ -325,44 +399,44 @@ const PublicPortfolio: React.FC = () => {
         <div className="max-w-4xl mx-auto">
            <div className="flex items-end justify-between mb-12 border-b border-slate-800 pb-8">
              <h2 className="text-3xl md:text-4xl font-bold text-white">Thoughts & Insights</h2>
+             <a href={FEED_PATHS.rss} className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors" title="Follow via RSS">
+               <Rss className="w-4 h-4" /> Subscribe
+             </a>
            </div>
+           {/* Tag Filter (synced to ?topic= in the URL) */}
+           {postTags.length > 0 && (
+             <div className="mb-10 space-y-4">
+               <FilterChips
+                 terms={postTags}
+                 active={activeTopic}
+                 onSelect={slug => setSearchParams({ topic: slug })}
+                 label="Filter articles by tag"
+               />
+               {activeTopicTerm && (
+                 <Link to={`/thoughts/tag/${activeTopicTerm.slug}`} className="inline-flex items-center text-sm text-indigo-400 hover:text-indigo-300">
+                   All articles tagged {activeTopicTerm.name} <ArrowRight className="w-4 h-4 ml-1" />
+                 </Link>
+               )}
+             </div>
+           )}
            <div className="space-y-8">
-              {(showAllArticles ? blogs : blogs.slice(0, 3)).map(blog => (
-                <div 
-                  key={blog.id} 
-                  className="group cursor-pointer"
-                  onClick={(e) => {
-                    e.preventDefault();
-                    // Navigate to blog detail page
-                    window.location.hash = `#/article/${blog.id}`;
-                  }}
-                >
-                  <div className="flex flex-col md:flex-row md:items-baseline justify-between mb-2">
-                    <h3 className="text-xl md:text-2xl font-bold text-slate-200 group-hover:text-indigo-400 transition-colors">{blog.title}</h3>
-                    <span className="text-sm text-slate-500 font-mono">{new Date(blog.created_at).toLocaleDateString()}</span>
-                  </div>
-                  {/* Use summary if available, otherwise show content preview */}
-                  <p className="text-slate-400 line-clamp-2 max-w-2xl">
-                    {blog.summary || blog.content.substring(0, 150).replace(/[#*_]/g, '')}...
-                  </p>
-                  <div className="mt-4 flex items-center text-sm text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity transform translate-x-[-10px] group-hover:translate-x-0 duration-300">
-                    Read Article <ArrowRight className="w-4 h-4 ml-2" />
-                  </div>
-                </div>
+              {(showAllArticles ? visibleBlogs : visibleBlogs.slice(0, 3)).map(blog => (
+                <PostListItem key={blog.id} post={blog} />
               ))}
               {blogs.length === 0 && <p className="text-slate-500 italic">No insights published yet.</p>}
-              {blogs.length > 3 && !showAllArticles && (
+              {blogs.length > 0 && visibleBlogs.length === 0 && <p className="text-slate-500 italic">No articles with this tag yet.</p>}
+              {visibleBlogs.length > 3 && !showAllArticles && (
                 <div className="pt-4">
                   <Button 
                     variant="secondary" 
                     onClick={() => setShowAllArticles(true)}
                     className="w-full md:w-auto"
                   >
-                    See All Articles ({blogs.length})
+                    See All Articles ({visibleBlogs.length})
                   </Button>
                 </div>
               )}
-              {showAllArticles && blogs.length > 3 && (
+              {showAllArticles && visibleBlogs.length > 3 && (
                 <div className="pt-4">
                   <Button 
                     variant="secondary" 
@@ -422,6 +496,11 @@ const PublicPortfolio: React.FC = () => {
                </div>
             ) : (
               <form onSubmit={handleContactSubmit} className="space-y-4">
+                {submitError && (
+                  <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
+                    {submitError}
+                  </div>
+                )}
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-slate-300">Name</label>
                   <Input 
@@ -451,6 +530,19 @@ const PublicPortfolio: React.FC = () => {
                     className="min-h-[120px]"
                   />
                 </div>
+                {/* Honeypot: hidden from people and assistive tech, bots fill it in */}
+                <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+                  <label htmlFor="contact-website">Website</label>
+                  <input
+                    id="contact-website"
+                    name="website"
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={e => setHoneypot(e.target.value)}
+                  />
+                </div>
                 <Button type="submit" className="w-full h-12 text-base" disabled={isSubmitting}>
                   {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Send Message'}
                 </Button>
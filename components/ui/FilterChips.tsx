@@ -0,0 +1,46 @@
+import React from 'react';
+import { TaxonomyTerm } from '../../src/lib/taxonomy';
+
+interface FilterChipsProps {
+  terms: TaxonomyTerm[];
+  // Slug of the selected term, or null for all
+  active: string | null;
+  onSelect: (slug: string | null) => void;
+  allLabel?: string;
+  // Accessible name for the group, e.g. "Filter projects by tag"
+  label: string;
+}
+
+/**
+ * FilterChips Component
+ *
+ * A row of toggle chips for filtering a list by tag. Selecting the active chip again clears it.
+ */
+export const FilterChips: React.FC<FilterChipsProps> = ({ terms, active, onSelect, allLabel = 'All', label }) => {
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm border transition-colors ${
+      selected
+        ? 'bg-indigo-500 text-white border-indigo-500'
+        : 'bg-slate-900/60 text-slate-400 border-slate-800 hover:text-white hover:border-slate-600'
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label={label}>
+      <button type="button" className={chipClass(!active)} aria-pressed={!active} onClick={() => onSelect(null)}>
+        {allLabel}
+      </button>
+      {terms.map(term => (
+        <button
+          key={term.slug}
+          type="button"
+          className={chipClass(active === term.slug)}
+          aria-pressed={active === term.slug}
+          onClick={() => onSelect(active === term.slug ? null : term.slug)}
+        >
+          {term.name}
+          <span className="ml-1.5 text-xs opacity-60">{term.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ProjectGalleryImage } from '../../types';
+
+interface LightboxProps {
+  images: ProjectGalleryImage[];
+  // Index of the image on screen, or null when closed
+  index: number | null;
+  onClose: () => void;
+  onNavigate: (index: number) => void;
+}
+
+/**
+ * Lightbox Component
+ *
+ * Full-screen view of one gallery image with its caption. Arrow keys move between images,
+ * Escape closes, and focus returns to whatever opened it.
+ */
+export const Lightbox: React.FC<LightboxProps> = ({ images, index, onClose, onNavigate }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const isOpen = index !== null && !!images[index];
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const opener = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    // The page behind shouldn't scroll while the lightbox is open
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.body.style.overflow = overflow;
+      opener?.focus();
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (index === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowRight') {
+        onNavigate((index + 1) % images.length);
+      } else if (e.key === 'ArrowLeft') {
+        onNavigate((index - 1 + images.length) % images.length);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, images.length, onClose, onNavigate]);
+
+  const image = index !== null ? images[index] : null;
+
+  return (
+    <AnimatePresence>
+      {image && index !== null && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/95 backdrop-blur-sm p-4 md:p-10"
+          role="dialog"
+          aria-modal="true"
+          aria-label={`Image ${index + 1} of ${images.length}`}
+          onClick={onClose}
+        >
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 rounded-full text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-6 h-6" />
+          </button>
+
+          {images.length > 1 && (
+            <>
+              <button
+                onClick={e => { e.stopPropagation(); onNavigate((index - 1 + images.length) % images.length); }}
+                className="absolute left-2 md:left-6 top-1/2 -translate-y-1/2 p-2 rounded-full text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                aria-label="Previous image"
+              >
+                <ChevronLeft className="w-8 h-8" />
+              </button>
+              <button
+                onClick={e => { e.stopPropagation(); onNavigate((index + 1) % images.length); }}
+                className="absolute right-2 md:right-6 top-1/2 -translate-y-1/2 p-2 rounded-full text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                aria-label="Next image"
+              >
+                <ChevronRight className="w-8 h-8" />
+              </button>
+            </>
+          )}
+
+          <figure className="max-w-6xl w-full flex flex-col items-center gap-4" onClick={e => e.stopPropagation()}>
+            <motion.img
+              key={image.url}
+              initial={{ opacity: 0, scale: 0.98 }}
+              animate={{ opacity: 1, scale: 1 }}
+              src={image.url}
+              alt={image.alt || image.caption || ''}
+              className="max-h-[75vh] w-auto max-w-full object-contain rounded-lg shadow-2xl"
+            />
+            <figcaption className="text-center text-slate-300 text-sm max-w-2xl">
+              {image.caption}
+              <span className="block text-xs text-slate-500 mt-1 font-mono">{index + 1} / {images.length}</span>
+            </figcaption>
+          </figure>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,203 @@
+import React from 'react';
+import ReactMarkdown, { type Components, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import 'highlight.js/styles/github-dark.css';
+import { Loader2 } from 'lucide-react';
+import { ImageSet } from '../../types';
+import { isUploadingImage } from '../../src/lib/markdownFormatting';
+import { ResponsiveImage } from './ResponsiveImage';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  // Resized copies of embedded images, by image URL (see BlogPost.image_sets)
+  imageSets?: Record<string, ImageSet>;
+}
+
+/**
+ * Link Safety
+ * react-markdown's default transform already blocks javascript:, vbscript: and data: URLs.
+ * On top of that, links leaving the site open in a new tab without leaking the opener or referrer.
+ */
+const isExternalLink = (href?: string) => !!href && /^(https?:)?\/\//i.test(href);
+
+/**
+ * Images uploaded with the local provider are stored as data: URLs, so raster image data
+ * is allowed as an image source (never as a link), as are the editor's upload placeholders
+ */
+const urlTransform = (url: string, key: string): string =>
+  key === 'src' && (/^data:image\/(png|jpe?g|gif|webp|avif);/i.test(url) || isUploadingImage(url))
+    ? url
+    : defaultUrlTransform(url);
+
+const IMAGE_CLASS_NAME = 'my-8 w-full h-auto rounded-xl border border-slate-800';
+
+/**
+ * Element Renderers
+ * Maps markdown AST nodes to the Starfall typography used across the public site.
+ */
+const components: Components = {
+  h1: ({ node, ...props }) => <h1 className="text-3xl font-bold text-white mt-8 mb-4 first:mt-0" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-2xl font-bold text-white mt-8 mb-4 first:mt-0" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-xl font-bold text-white mt-8 mb-4 first:mt-0" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="text-lg font-bold text-white mt-6 mb-3 first:mt-0" {...props} />,
+  h5: ({ node, ...props }) => <h5 className="text-base font-bold text-white mt-6 mb-3 first:mt-0" {...props} />,
+  h6: ({ node, ...props }) => <h6 className="text-sm font-bold uppercase tracking-wider text-slate-400 mt-6 mb-3 first:mt-0" {...props} />,
+  p: ({ node, ...props }) => <p className="mb-6 text-slate-300 leading-relaxed text-lg" {...props} />,
+  ul: ({ node, className, ...props }) => (
+    <ul
+      className={
+        className?.includes('contains-task-list')
+          ? 'mb-6 space-y-2 list-none text-slate-300'
+          : 'mb-6 ml-6 space-y-2 list-disc list-outside text-slate-300 [&_ul]:mt-2 [&_ul]:mb-0 [&_ol]:mt-2 [&_ol]:mb-0'
+      }
+      {...props}
+    />
+  ),
+  ol: ({ node, ...props }) => (
+    <ol className="mb-6 ml-6 space-y-2 list-decimal list-outside text-slate-300 [&_ul]:mt-2 [&_ul]:mb-0 [&_ol]:mt-2 [&_ol]:mb-0" {...props} />
+  ),
+  li: ({ node, className, ...props }) => (
+    <li
+      className={`leading-relaxed [&>p]:mb-2 ${className?.includes('task-list-item') ? 'flex items-start gap-2' : ''}`}
+      {...props}
+    />
+  ),
+  input: ({ node, ...props }) => (
+    // Task list checkboxes are display-only
+    <input {...props} disabled className="mt-1.5 w-4 h-4 rounded border-slate-700 bg-slate-900 accent-indigo-500" />
+  ),
+  a: ({ node, href, ...props }) => (
+    <a
+      href={href}
+      className="text-indigo-400 hover:text-indigo-300 underline"
+      {...(isExternalLink(href) ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+      {...props}
+    />
+  ),
+  strong: ({ node, ...props }) => <strong className="font-bold text-white" {...props} />,
+  em: ({ node, ...props }) => <em className="italic" {...props} />,
+  del: ({ node, ...props }) => <del className="text-slate-500" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    <blockquote className="mb-6 border-l-4 border-indigo-500 pl-4 italic text-slate-400 [&>p]:mb-2" {...props} />
+  ),
+  hr: ({ node, ...props }) => <hr className="my-10 border-slate-800" {...props} />,
+  pre: ({ node, ...props }) => (
+    <pre
+      className="mb-6 overflow-x-auto rounded-xl border border-slate-800 bg-slate-900/80 p-4 text-sm leading-relaxed [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-slate-200"
+      {...props}
+    />
+  ),
+  code: ({ node, className, ...props }) => (
+    // Fenced blocks carry a language/hljs class and are styled by <pre>; everything else is inline code
+    <code
+      className={className || 'px-1.5 py-0.5 bg-slate-800 text-indigo-300 rounded text-sm font-mono'}
+      {...props}
+    />
+  ),
+  table: ({ node, ...props }) => (
+    <div className="mb-6 overflow-x-auto">
+      <table className="w-full border-collapse text-left text-slate-300" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border-b border-slate-700 px-4 py-2 font-semibold text-white" {...props} />,
+  td: ({ node, ...props }) => <td className="border-b border-slate-800 px-4 py-2" {...props} />,
+};
+
+/**
+ * Markdown Component
+ *
+ * Shared CommonMark + GitHub Flavored Markdown renderer for Thoughts posts.
+ * Images with a resized image set are rendered responsively (srcset and blur-up).
+ * Parses to an AST (remark) and renders React elements directly, so raw HTML in a post
+ * is never injected into the page. Used by the public article page and the admin preview,
+ * so what the editor shows is exactly what readers see.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ content, className, imageSets }) => {
+  // Images uploaded through the editor get a srcset; others load as they are
+  const img: Components['img'] = ({ node, alt, src, ...props }) => {
+    if (isUploadingImage(src)) {
+      return (
+        <span className="my-8 flex items-center justify-center gap-2 w-full aspect-video rounded-xl border border-dashed border-slate-700 text-sm text-slate-500 animate-pulse">
+          <Loader2 className="w-4 h-4 animate-spin" /> Uploading {alt || 'image'}...
+        </span>
+      );
+    }
+    const imageSet = src ? imageSets?.[src] : undefined;
+    if (src && imageSet) {
+      return (
+        <ResponsiveImage
+          src={src}
+          imageSet={imageSet}
+          alt={alt || ''}
+          sizes="(min-width: 768px) 720px, 100vw"
+          className={IMAGE_CLASS_NAME}
+        />
+      );
+    }
+    return <img alt={alt || ''} src={src} loading="lazy" decoding="async" className={IMAGE_CLASS_NAME} {...props} />;
+  };
+
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: false }]]}
+        urlTransform={urlTransform}
+        components={{ ...components, img }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+interface FeedMarkdownProps {
+  content: string;
+  // Public origin of the site, e.g. https://example.com; links and images are resolved against it
+  siteUrl: string;
+  imageSets?: Record<string, ImageSet>;
+}
+
+// Feed readers show posts away from the site, so every link and image needs an absolute URL
+const resolveUrl = (url: string | undefined, siteUrl: string): string | undefined => {
+  if (!url || /^(data|mailto|tel):/i.test(url) || url.startsWith('#')) return url;
+  try {
+    return new URL(url, `${siteUrl}/`).href;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * FeedMarkdown Component
+ *
+ * Post HTML for the RSS, Atom and JSON feeds: the same Markdown as the article page,
+ * rendered as plain elements (no site classes or highlighting) that read well in any feed reader.
+ * Images with an image set use its largest JPEG and carry their size.
+ */
+export const FeedMarkdown: React.FC<FeedMarkdownProps> = ({ content, siteUrl, imageSets }) => {
+  const feedComponents: Components = {
+    a: ({ node, href, ...props }) => <a href={resolveUrl(href, siteUrl)} {...props} />,
+    img: ({ node, alt, src, ...props }) => {
+      // A placeholder saved mid-upload has no image behind it
+      if (isUploadingImage(src)) return null;
+      const imageSet = src ? imageSets?.[src] : undefined;
+      return (
+        <img
+          {...props}
+          alt={alt || ''}
+          src={resolveUrl(src, siteUrl)}
+          {...(imageSet ? { width: imageSet.width, height: imageSet.height } : {})}
+        />
+      );
+    },
+  };
+
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} urlTransform={urlTransform} components={feedComponents}>
+      {content}
+    </ReactMarkdown>
+  );
+};
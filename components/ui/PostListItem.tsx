@@ -0,0 +1,62 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { BlogPost } from '../../types';
+import { Link, navigate } from '../../src/lib/router';
+import { termSlug } from '../../src/lib/taxonomy';
+
+interface PostListItemProps {
+  post: BlogPost;
+}
+
+/**
+ * PostListItem Component
+ *
+ * One article in the Thoughts & Insights lists (portfolio and tag archives):
+ * title, date, summary, series and tags. The whole row opens the article.
+ */
+export const PostListItem: React.FC<PostListItemProps> = ({ post }) => {
+  const tags = post.tags || [];
+
+  return (
+    <div
+      className="group cursor-pointer"
+      onClick={(e) => {
+        e.preventDefault();
+        // Navigate to blog detail page
+        navigate(`/thoughts/${encodeURIComponent(post.slug || post.id)}`);
+      }}
+    >
+      <div className="flex flex-col md:flex-row md:items-baseline justify-between mb-2">
+        <h3 className="text-xl md:text-2xl font-bold text-slate-200 group-hover:text-indigo-400 transition-colors">{post.title}</h3>
+        <span className="text-sm text-slate-500 font-mono" suppressHydrationWarning>{new Date(post.published_at || post.created_at).toLocaleDateString()}</span>
+      </div>
+      {post.series && (
+        <p className="text-xs font-mono text-indigo-400 uppercase tracking-wider mb-2">
+          {post.series}{post.series_order ? ` · Part ${post.series_order}` : ''}
+        </p>
+      )}
+      {/* Use summary if available, otherwise show content preview */}
+      <p className="text-slate-400 line-clamp-2 max-w-2xl">
+        {post.summary || post.content.substring(0, 150).replace(/[#*_]/g, '')}...
+      </p>
+      {tags.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <Link
+              key={tag}
+              to={`/thoughts/tag/${termSlug(tag)}`}
+              // Tag links open the archive, not the article
+              onClick={e => e.stopPropagation()}
+              className="text-xs px-2 py-0.5 rounded-full border border-slate-800 text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+            >
+              #{tag}
+            </Link>
+          ))}
+        </div>
+      )}
+      <div className="mt-4 flex items-center text-sm text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity transform translate-x-[-10px] group-hover:translate-x-0 duration-300">
+        Read Article <ArrowRight className="w-4 h-4 ml-2" />
+      </div>
+    </div>
+  );
+};
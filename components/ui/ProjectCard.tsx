@@ -0,0 +1,62 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Project } from '../../types';
+import { Link } from '../../src/lib/router';
+import { ResponsiveImage } from './ResponsiveImage';
+
+interface ProjectCardProps {
+  project: Project;
+  // Position in the grid, used to stagger the entrance animation
+  index: number;
+  // Large hero card with the description, for featured projects
+  featured?: boolean;
+}
+
+/**
+ * ProjectCard Component
+ *
+ * Image card for a project in the Selected Work grids (portfolio and tag pages).
+ * Links to the project page.
+ */
+export const ProjectCard: React.FC<ProjectCardProps> = ({ project, index, featured = false }) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      viewport={{ once: true, margin: "-100px" }}
+      transition={{ delay: index * 0.1 }}
+      className="cursor-pointer group"
+    >
+      <Link to={`/work/${encodeURIComponent(project.slug || project.id)}`} className="block">
+        <div className="rounded-2xl overflow-hidden bg-slate-900 border border-slate-800 hover:border-indigo-500/50 transition-all duration-300 shadow-2xl hover:shadow-indigo-900/10 hover:-translate-y-1">
+          <div className={`${featured ? 'aspect-[4/3] md:aspect-[16/9]' : 'aspect-[4/3]'} w-full overflow-hidden bg-slate-800 relative`}>
+            {project.image_url ? (
+              <ResponsiveImage
+                src={project.image_url}
+                imageSet={project.image_set}
+                alt={project.title}
+                sizes={featured ? '(min-width: 768px) 80vw, 100vw' : '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'}
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700 ease-out"
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full text-slate-600">No Image</div>
+            )}
+            {/* Gradient Overlay for Text Readability */}
+            <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent opacity-80"></div>
+
+            <div className={`absolute bottom-0 left-0 w-full ${featured ? 'p-6 md:p-10' : 'p-6'}`}>
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2 block">
+                {featured && <span className="text-amber-300">Featured · </span>}
+                {project.category}
+              </span>
+              <h3 className={`${featured ? 'text-3xl md:text-4xl' : 'text-2xl'} font-bold text-white mb-1 group-hover:text-indigo-200 transition-colors`}>{project.title}</h3>
+              {featured && project.description && (
+                <p className="hidden md:block text-slate-300 max-w-2xl line-clamp-2 mt-2">{project.description}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </Link>
+    </motion.div>
+  );
+};
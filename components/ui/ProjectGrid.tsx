@@ -0,0 +1,45 @@
+import React from 'react';
+import { Project } from '../../types';
+import { ProjectCard } from './ProjectCard';
+import { splitFeatured } from '../../src/lib/projectOrder';
+
+interface ProjectGridProps {
+  // Already in display order
+  projects: Project[];
+  emptyMessage?: string;
+}
+
+/**
+ * ProjectGrid Component
+ *
+ * The Selected Work layout: featured projects first as large hero cards, then the rest
+ * in a three-column grid, each group keeping the order set in the admin.
+ */
+export const ProjectGrid: React.FC<ProjectGridProps> = ({ projects, emptyMessage }) => {
+  const { featured, rest } = splitFeatured(projects);
+
+  if (projects.length === 0) {
+    return emptyMessage ? <p className="text-slate-500">{emptyMessage}</p> : null;
+  }
+
+  return (
+    <div className="space-y-8">
+      {featured.length > 0 && (
+        <div className="grid md:grid-cols-2 gap-8">
+          {featured.map((project, idx) => (
+            <div key={project.id} className={featured.length % 2 === 1 && idx === 0 ? 'md:col-span-2' : ''}>
+              <ProjectCard project={project} index={idx} featured />
+            </div>
+          ))}
+        </div>
+      )}
+      {rest.length > 0 && (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {rest.map((project, idx) => (
+            <ProjectCard key={project.id} project={project} index={idx} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
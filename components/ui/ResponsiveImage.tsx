@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageFormat, ImageSet } from '../../types';
+
+interface ResponsiveImageProps {
+  // Plain URL, used as is when there is no image set
+  src: string;
+  imageSet?: ImageSet | null;
+  alt: string;
+  // Rendered width of the image at each breakpoint, e.g. "(min-width: 768px) 50vw, 100vw"
+  sizes: string;
+  className?: string;
+  // Load straight away instead of when scrolled near (for images at the top of the page)
+  eager?: boolean;
+}
+
+const srcSetFor = (imageSet: ImageSet, format: ImageFormat): string =>
+  imageSet.variants
+    .filter(variant => variant.format === format)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+
+/**
+ * ResponsiveImage Component
+ *
+ * Lazy-loaded image that lets the browser pick the best size and format from an image set
+ * (AVIF, then WebP, then JPEG). The blurred placeholder fills the box until the image loads.
+ */
+export const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ src, imageSet, alt, sizes, className, eager = false }) => {
+  const [loaded, setLoaded] = useState(false);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  // A prerendered image can finish loading before React attaches onLoad
+  useEffect(() => {
+    if (imgRef.current?.complete) setLoaded(true);
+  }, []);
+
+  const loading = eager ? 'eager' : 'lazy';
+
+  if (!imageSet) {
+    return <img src={src} alt={alt} loading={loading} decoding="async" className={className} />;
+  }
+
+  const avif = srcSetFor(imageSet, 'avif');
+  const webp = srcSetFor(imageSet, 'webp');
+
+  return (
+    <picture>
+      {avif && <source type="image/avif" srcSet={avif} sizes={sizes} />}
+      {webp && <source type="image/webp" srcSet={webp} sizes={sizes} />}
+      <img
+        ref={imgRef}
+        src={src}
+        srcSet={srcSetFor(imageSet, 'jpeg')}
+        sizes={sizes}
+        width={imageSet.width}
+        height={imageSet.height}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+        className={className}
+        style={loaded ? undefined : {
+          backgroundImage: `url(${imageSet.placeholder})`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      />
+    </picture>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Search, FileText, Briefcase, Loader2, CornerDownLeft } from 'lucide-react';
+import { navigate } from '../../src/lib/router';
+import { MatchRange, SearchIndex, SearchResult, searchIndex } from '../../src/lib/search';
+import { getSearchIndex } from '../../src/services/searchService';
+
+const OPEN_EVENT = 'app:open-search';
+
+/**
+ * Opens the search palette (e.g. from a nav button)
+ */
+export const openSearch = () => {
+  window.dispatchEvent(new Event(OPEN_EVENT));
+};
+
+/**
+ * Text with the matched ranges wrapped in <mark>
+ */
+const Highlighted: React.FC<{ text: string; ranges: MatchRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start < last) return;
+    parts.push(text.slice(last, start));
+    parts.push(<mark key={i} className="bg-indigo-500/30 text-indigo-100 rounded-sm">{text.slice(start, end)}</mark>);
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+/**
+ * SearchPalette Component
+ *
+ * Full-text search over the public projects and articles, opened with Cmd/Ctrl-K or openSearch().
+ * Arrow keys move through the results, Enter opens one and Escape closes the palette.
+ */
+export const SearchPalette: React.FC = () => {
+  // --- State Management ---
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results: SearchResult[] = index && query.trim() ? searchIndex(index, query) : [];
+
+  // --- Opening ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener(OPEN_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener(OPEN_EVENT, handleOpen);
+    };
+  }, []);
+
+  // The index is built the first time the palette opens
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    getSearchIndex()
+      .then(setIndex)
+      .catch(err => {
+        console.error('Error building search index:', err);
+        setError('Search is unavailable right now.');
+      });
+  }, [open]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted result in view
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  const openResult = (result: SearchResult) => {
+    close();
+    navigate(result.document.url);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (results.length ? (i + 1) % results.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (results.length ? (i - 1 + results.length) % results.length : 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/80 backdrop-blur-sm px-4 pt-[15vh]"
+          onClick={close}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.98 }}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Search"
+            className="w-full max-w-2xl rounded-xl border border-slate-800 bg-slate-900 shadow-2xl overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            {/* Search Input */}
+            <div className="flex items-center gap-3 px-4 border-b border-slate-800">
+              <Search className="w-5 h-5 text-slate-500 shrink-0" />
+              <input
+                autoFocus
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={handleInputKeyDown}
+                placeholder="Search projects and articles..."
+                className="h-14 w-full bg-transparent text-slate-100 placeholder:text-slate-500 focus:outline-none"
+                role="combobox"
+                aria-expanded={results.length > 0}
+                aria-controls="search-results"
+                aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+                aria-autocomplete="list"
+              />
+              <kbd className="hidden sm:block text-xs text-slate-500 border border-slate-700 rounded px-1.5 py-0.5">Esc</kbd>
+            </div>
+
+            {/* Results */}
+            <div className="max-h-[60vh] overflow-y-auto">
+              {error ? (
+                <p className="px-4 py-8 text-center text-sm text-red-400">{error}</p>
+              ) : !index ? (
+                <div className="flex items-center justify-center py-8 text-sm text-slate-500">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Building search index...
+                </div>
+              ) : !query.trim() ? (
+                <p className="px-4 py-8 text-center text-sm text-slate-500">
+                  Search {index.documents.length} projects and articles by title, tag or text.
+                </p>
+              ) : results.length === 0 ? (
+                <p className="px-4 py-8 text-center text-sm text-slate-500">No results for "{query}".</p>
+              ) : (
+                <ul id="search-results" role="listbox" ref={listRef} className="py-2">
+                  {results.map((result, i) => {
+                    const doc = result.document;
+                    const Icon = doc.type === 'project' ? Briefcase : FileText;
+                    const isActive = i === activeIndex;
+
+                    return (
+                      <li
+                        key={`${doc.type}-${doc.id}`}
+                        id={`search-result-${i}`}
+                        data-index={i}
+                        role="option"
+                        aria-selected={isActive}
+                        onMouseMove={() => setActiveIndex(i)}
+                        onClick={() => openResult(result)}
+                        className={`mx-2 px-3 py-3 rounded-lg cursor-pointer flex gap-3 ${isActive ? 'bg-slate-800' : ''}`}
+                      >
+                        <Icon className="w-4 h-4 mt-1 text-slate-500 shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-slate-100 truncate">
+                              <Highlighted text={doc.title} ranges={result.titleMatches} />
+                            </span>
+                            <span className="text-[10px] uppercase tracking-wider text-slate-500">
+                              {doc.type === 'project' ? 'Project' : 'Article'}
+                            </span>
+                          </div>
+                          {result.snippet && (
+                            <p className="mt-1 text-sm text-slate-400 line-clamp-2">
+                              <Highlighted text={result.snippet} ranges={result.snippetMatches} />
+                            </p>
+                          )}
+                        </div>
+                        {isActive && <CornerDownLeft className="w-4 h-4 mt-1 text-slate-500 shrink-0" />}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -16,29 +16,70 @@ export const MOCK_PROJECTS: Project[] = [
   {
     id: '1',
     title: 'Starfall CMS Platform',
+    slug: 'starfall-cms-platform',
     description: 'This web application. A comprehensive portfolio solution blending administrative power with high-end aesthetics. Managed the product lifecycle from ideation to deployment.',
     tags: ['Product Management', 'React', 'UX Strategy', 'Web App'],
+    sort_order: 0,
+    featured: true,
     image_url: 'https://images.unsplash.com/photo-1460925895917-afdab827c52f?q=80&w=2426&auto=format&fit=crop',
+    image_set: null,
     category: 'Product',
-    created_at: new Date().toISOString()
+    body: '## The challenge\n\nA portfolio that doubles as a CMS: fast public pages for visitors, and an admin that makes publishing work and writing effortless.\n\n## Approach\n\n- Mapped the publishing workflow before designing any screens\n- Built the public site and admin on one data layer, so the site also runs offline\n- Shipped in small increments, measuring each release',
+    role: 'Product lead and developer',
+    timeline: '2024, 3 months',
+    team: 'Solo, with design feedback from peers',
+    outcomes: [
+      { value: '100', label: 'Lighthouse performance score' },
+      { value: '< 1 min', label: 'to publish a new article' },
+    ],
+    links: [
+      { kind: 'repo', url: 'https://github.com/jckoomson1/Personal-Portfolio-CMS-Site', label: null },
+    ],
+    gallery: [],
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
   },
   {
     id: '2',
     title: 'Neon Nights Series',
+    slug: 'neon-nights-series',
     description: 'A collection of typographic posters exploring the intersection of retro-futurism and modern minimalism. Focused on visual hierarchy and color theory.',
     tags: ['Creative Direction', 'Graphic Design', 'Typography'],
+    sort_order: 1,
+    featured: false,
     image_url: 'https://images.unsplash.com/photo-1563089145-599997674d42?q=80&w=2370&auto=format&fit=crop',
+    image_set: null,
     category: 'Creative Work',
-    created_at: new Date(Date.now() - 86400000).toISOString()
+    body: null,
+    role: null,
+    timeline: null,
+    team: null,
+    outcomes: [],
+    links: [],
+    gallery: [],
+    created_at: new Date(Date.now() - 86400000).toISOString(),
+    updated_at: new Date(Date.now() - 86400000).toISOString()
   },
   {
     id: '3',
     title: 'Urban Rhythm Campaign',
+    slug: 'urban-rhythm-campaign',
     description: 'Visual storytelling campaign for a streetwear brand, blending photography with bold layout design to capture the city\'s pulse.',
     tags: ['Art Direction', 'Branding', 'Visual Strategy'],
+    sort_order: 2,
+    featured: false,
     image_url: 'https://images.unsplash.com/photo-1558655146-d09347e92766?q=80&w=2464&auto=format&fit=crop',
+    image_set: null,
     category: 'Campaign',
-    created_at: new Date(Date.now() - 172800000).toISOString()
+    body: null,
+    role: null,
+    timeline: null,
+    team: null,
+    outcomes: [],
+    links: [],
+    gallery: [],
+    created_at: new Date(Date.now() - 172800000).toISOString(),
+    updated_at: new Date(Date.now() - 172800000).toISOString()
   }
 ];
 
@@ -47,16 +88,32 @@ export const MOCK_BLOGS: BlogPost[] = [
     id: '1',
     title: 'The Art of Human-Centred Design',
     slug: 'human-centred-design',
+    summary: 'How empathy drives better product decisions.',
     content: '# Design Thinking\n\nHow empathy drives better product decisions...',
+    tags: ['Design', 'Product'],
+    series: null,
+    series_order: null,
+    image_sets: {},
+    created_by: null,
     published: true,
-    created_at: new Date().toISOString()
+    published_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
   },
   {
     id: '2',
     title: 'Why Aesthetics Matter in Product',
     slug: 'aesthetics-in-product',
+    summary: 'First impressions are everything in software adoption.',
     content: '# Visual Strategy\n\nFirst impressions are everything in software adoption.',
+    tags: ['Design'],
+    series: null,
+    series_order: null,
+    image_sets: {},
+    created_by: null,
     published: true,
-    created_at: new Date(Date.now() - 86400000).toISOString()
+    published_at: new Date(Date.now() - 86400000).toISOString(),
+    created_at: new Date(Date.now() - 86400000).toISOString(),
+    updated_at: new Date(Date.now() - 86400000).toISOString()
   }
 ];
\ No newline at end of file
@@ -0,0 +1,52 @@
+-- Session functions for the dashboard's Account tab
+-- Run this in your Supabase SQL Editor
+--
+-- Supabase Auth keeps sessions in auth.sessions, which the API can't read. These functions
+-- let a signed-in user list their own sessions and end one of them; nobody else's.
+-- Ending a session deletes its refresh tokens too, so that browser is signed out when
+-- its access token next expires (within the JWT expiry, an hour by default).
+
+-- 1. List the caller's sessions, most recently active first
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  user_agent TEXT,
+  ip TEXT,
+  current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::timestamptz, s.updated_at) AS updated_at,
+    s.user_agent,
+    host(s.ip) AS ip,
+    s.id = (auth.jwt() ->> 'session_id')::uuid AS current
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > NOW())
+  ORDER BY COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at) DESC
+$$;
+
+-- 2. End one of the caller's sessions
+CREATE OR REPLACE FUNCTION public.revoke_my_session(session_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions
+  WHERE id = revoke_my_session.session_id
+    AND user_id = auth.uid()
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_my_sessions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_my_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_my_session(UUID) TO authenticated;
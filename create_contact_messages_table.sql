@@ -0,0 +1,187 @@
+-- Create contact_messages table for the public contact form and admin Inbox
+-- Run this in your Supabase SQL Editor
+
+-- Create contact_messages table (if it doesn't exist)
+CREATE TABLE IF NOT EXISTS public.contact_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  message TEXT NOT NULL,
+  is_read BOOLEAN DEFAULT FALSE NOT NULL,
+  folder TEXT DEFAULT 'inbox' NOT NULL,
+  spam_score INTEGER DEFAULT 0 NOT NULL,
+  spam_reasons TEXT[] DEFAULT '{}' NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Add spam columns if table already exists (for existing tables)
+DO $$ 
+BEGIN
+  -- Add spam_score column if missing
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_schema = 'public' 
+    AND table_name = 'contact_messages' 
+    AND column_name = 'spam_score'
+  ) THEN
+    ALTER TABLE public.contact_messages 
+    ADD COLUMN spam_score INTEGER DEFAULT 0 NOT NULL;
+  END IF;
+
+  -- Add spam_reasons column if missing
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_schema = 'public' 
+    AND table_name = 'contact_messages' 
+    AND column_name = 'spam_reasons'
+  ) THEN
+    ALTER TABLE public.contact_messages 
+    ADD COLUMN spam_reasons TEXT[] DEFAULT '{}' NOT NULL;
+  END IF;
+END $$;
+
+-- Folders: inbox, archived, and spam (quarantined by the contact form filter)
+ALTER TABLE public.contact_messages DROP CONSTRAINT IF EXISTS contact_messages_folder_check;
+ALTER TABLE public.contact_messages
+ADD CONSTRAINT contact_messages_folder_check CHECK (folder IN ('inbox', 'archived', 'spam'));
+
+-- Enable RLS
+ALTER TABLE public.contact_messages ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Allow public to submit contact_messages" ON public.contact_messages;
+DROP POLICY IF EXISTS "Admin users can read contact_messages" ON public.contact_messages;
+DROP POLICY IF EXISTS "Admin users can update contact_messages" ON public.contact_messages;
+DROP POLICY IF EXISTS "Admin users can delete contact_messages" ON public.contact_messages;
+
+-- Policy 1: Allow anyone (including anonymous visitors) to submit a message
+-- New messages always land unread, either in the inbox or quarantined as spam
+-- (screen_contact_message() below picks the folder, whatever the visitor sent)
+CREATE POLICY "Allow public to submit contact_messages"
+ON public.contact_messages
+FOR INSERT
+TO public
+WITH CHECK (is_read = FALSE AND folder IN ('inbox', 'spam'));
+
+-- Policy 2: Only admin users can read messages (they contain visitor emails)
+CREATE POLICY "Admin users can read contact_messages"
+ON public.contact_messages
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Policy 3: Only admin users can mark read/unread or archive messages
+CREATE POLICY "Admin users can update contact_messages"
+ON public.contact_messages
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Policy 4: Only admin users can delete messages
+CREATE POLICY "Admin users can delete contact_messages"
+ON public.contact_messages
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Screen every new message in the database as well. The contact form's checks run in the
+-- visitor's browser, so anything posting straight to the API could skip them and pick its own
+-- folder. This trigger repeats the checks the server can make (links, keywords and messages per
+-- email, mirroring src/lib/spamFilter.ts), keeps the higher of the two scores and files the
+-- message itself. The browser's score still counts, so the honeypot and timing checks only
+-- it can make still quarantine messages from the real form.
+CREATE OR REPLACE FUNCTION public.screen_contact_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  body TEXT := lower(NEW.name || E'\n' || NEW.message);
+  links INTEGER;
+  keywords TEXT[];
+  recent_by_email INTEGER;
+  score INTEGER := 0;
+  reasons TEXT[] := '{}';
+BEGIN
+  -- Messages from one address in the last hour (reading them needs SECURITY DEFINER)
+  SELECT COUNT(*) INTO recent_by_email
+  FROM public.contact_messages
+  WHERE lower(email) = lower(NEW.email)
+    AND created_at > NOW() - INTERVAL '1 hour';
+
+  -- Hard limit: past this, refuse instead of quarantining
+  IF recent_by_email >= 10 THEN
+    RAISE EXCEPTION 'Too many messages from this email address. Please try again later.';
+  END IF;
+
+  IF recent_by_email >= 3 THEN
+    score := score + 5;
+    reasons := reasons || format('%s earlier messages from this email in the last hour', recent_by_email);
+  END IF;
+
+  SELECT COUNT(*) INTO links FROM regexp_matches(body, '(https?://|www\.)\S+', 'g');
+  IF links > 2 THEN
+    score := score + (links - 2) * 2;
+    reasons := reasons || format('Contains %s links', links);
+  END IF;
+
+  SELECT COALESCE(array_agg(keyword), '{}') INTO keywords
+  FROM unnest(ARRAY[
+    'viagra', 'casino', 'crypto', 'bitcoin', 'forex', 'loan', 'seo services', 'backlinks',
+    'guest post', 'web traffic', 'click here', 'limited time', 'free money', 'work from home'
+  ]) AS keyword
+  WHERE position(keyword IN body) > 0;
+  IF cardinality(keywords) > 0 THEN
+    score := score + cardinality(keywords) * 2;
+    reasons := reasons || ('Contains spam keywords: ' || array_to_string(keywords, ', '));
+  END IF;
+
+  NEW.is_read := FALSE;
+  NEW.created_at := NOW();
+  NEW.spam_score := GREATEST(COALESCE(NEW.spam_score, 0), score);
+  NEW.spam_reasons := ARRAY(
+    SELECT DISTINCT reason FROM unnest(COALESCE(NEW.spam_reasons, '{}') || reasons) AS reason
+  );
+  NEW.folder := CASE WHEN NEW.spam_score >= 5 THEN 'spam' ELSE 'inbox' END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS screen_contact_message ON public.contact_messages;
+CREATE TRIGGER screen_contact_message
+BEFORE INSERT ON public.contact_messages
+FOR EACH ROW EXECUTE FUNCTION public.screen_contact_message();
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS idx_contact_messages_created_at ON public.contact_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_contact_messages_folder ON public.contact_messages(folder);
+-- Per-email rate limit in screen_contact_message()
+CREATE INDEX IF NOT EXISTS idx_contact_messages_email ON public.contact_messages(lower(email), created_at DESC);
@@ -0,0 +1,43 @@
+-- Create media_details table for the admin media library
+-- Run this in your Supabase SQL Editor
+--
+-- Alt text, caption and size for uploaded files, keyed by public URL. For images uploaded
+-- as resized sets, image_set lists the copies so the library shows them as one asset.
+-- The files themselves stay in the storage buckets (see STORAGE_SETUP.md).
+
+-- Create media_details table (if it doesn't exist)
+CREATE TABLE IF NOT EXISTS public.media_details (
+  url TEXT PRIMARY KEY,
+  alt TEXT,
+  caption TEXT,
+  width INTEGER,
+  height INTEGER,
+  image_set JSONB,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.media_details ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Admin users can manage media details" ON public.media_details;
+
+-- Admin users can read, add, edit and delete media details
+CREATE POLICY "Admin users can manage media details"
+ON public.media_details
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
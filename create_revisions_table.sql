@@ -0,0 +1,58 @@
+-- Create revisions table for blog post, project and profile history
+-- Run this in your Supabase SQL Editor
+--
+-- Every save of a thought post, project or profile
+-- stores a full JSON snapshot of the saved row here, so earlier versions can be
+-- compared and restored from the admin editors.
+
+-- Create revisions table (if it doesn't exist)
+CREATE TABLE IF NOT EXISTS public.revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Entity types match the table each snapshot was taken from
+ALTER TABLE public.revisions DROP CONSTRAINT IF EXISTS revisions_entity_type_check;
+ALTER TABLE public.revisions
+ADD CONSTRAINT revisions_entity_type_check CHECK (entity_type IN ('thought_posts', 'projects', 'profiles'));
+
+-- Enable RLS
+ALTER TABLE public.revisions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Admin users can read revisions" ON public.revisions;
+DROP POLICY IF EXISTS "Admin users can insert revisions" ON public.revisions;
+
+-- Policy 1: Admin users can read revisions
+CREATE POLICY "Admin users can read revisions"
+ON public.revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Policy 2: Admin users can insert revisions
+-- There are no update or delete policies: history is append-only
+CREATE POLICY "Admin users can insert revisions"
+ON public.revisions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE admin_users.email = (auth.jwt() ->> 'email')
+    AND admin_users.role = 'admin'
+  )
+);
+
+-- Create index for loading an entity's history, newest first
+CREATE INDEX IF NOT EXISTS idx_revisions_entity ON public.revisions(entity_type, entity_id, created_at DESC);
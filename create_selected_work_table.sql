@@ -1,5 +1,6 @@
 -- Create selected_work table for the Selected Work tab
 -- Run this in your Supabase SQL Editor
+-- Legacy: selected_work has been merged into projects (see merge_selected_work_into_projects.sql)
 
 -- Create selected_work table (if it doesn't exist)
 CREATE TABLE IF NOT EXISTS public.selected_work (
@@ -1,15 +1,32 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { getPathname, startRouter } from './src/lib/router';
+import { ContentSnapshotContext, readEmbeddedSnapshot } from './src/prerender/snapshot';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
+// Rewrites legacy #/ links before the first route renders
+startRouter();
+
+// Prerendered pages embed the content they were rendered with (see scripts/prerender.ts)
+const snapshot = readEmbeddedSnapshot();
+
+const app = (
   <React.StrictMode>
-    <App />
+    <ContentSnapshotContext.Provider value={snapshot}>
+      <App />
+    </ContentSnapshotContext.Provider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Hydrate the static HTML when it is for this page; otherwise (SPA fallback for another
+// path, or a rewritten legacy link) render from scratch, replacing it
+if (snapshot?.path === getPathname()) {
+  ReactDOM.hydrateRoot(rootElement, app);
+} else {
+  ReactDOM.createRoot(rootElement).render(app);
+}
@@ -0,0 +1,75 @@
+-- Merge selected_work into projects so every page and the admin share one table
+-- Run this in your Supabase SQL Editor (after create_projects_table.sql)
+--
+-- The public grid, project pages and the Selected Work admin all read and write
+-- public.projects from now on. Rows are copied with their IDs, so existing
+-- /project/:id links keep working. The old table is renamed, not dropped.
+
+-- Add updated_at column to projects if missing
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_schema = 'public' 
+    AND table_name = 'projects' 
+    AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE public.projects 
+    ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL;
+  END IF;
+END $$;
+
+-- Copy selected_work rows into projects (skipping IDs that already exist)
+DO $$ 
+BEGIN
+  IF to_regclass('public.selected_work') IS NOT NULL THEN
+    INSERT INTO public.projects (id, title, description, tags, image_url, category, created_at, updated_at)
+    SELECT
+      id,
+      title,
+      description,
+      COALESCE(tags, '{}'),
+      COALESCE(image_url, ''),
+      COALESCE(category, ''),
+      created_at,
+      COALESCE(updated_at, created_at)
+    FROM public.selected_work
+    ON CONFLICT (id) DO NOTHING;
+
+    -- Keep the old rows around until the merge has been checked
+    ALTER TABLE public.selected_work RENAME TO selected_work_archived;
+  END IF;
+END $$;
+
+-- Point existing revision history at the merged table
+DO $$ 
+BEGIN
+  IF to_regclass('public.revisions') IS NOT NULL THEN
+    UPDATE public.revisions
+    SET entity_type = 'projects'
+    WHERE entity_type = 'selected_work';
+
+    ALTER TABLE public.revisions DROP CONSTRAINT IF EXISTS revisions_entity_type_check;
+    ALTER TABLE public.revisions
+    ADD CONSTRAINT revisions_entity_type_check CHECK (entity_type IN ('thought_posts', 'projects', 'profiles'));
+  END IF;
+END $$;
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON public.projects;
+CREATE TRIGGER update_projects_updated_at
+    BEFORE UPDATE ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Once the merged data looks right, the archived table can be removed:
+-- DROP TABLE public.selected_work_archived;
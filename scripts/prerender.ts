@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { Plugin, ResolvedConfig, createServer } from 'vite';
+
+/**
+ * Prerender Plugin
+ *
+ * After the client build, renders the public pages (the portfolio, every live article and
+ * every project) to static HTML in the output directory, so crawlers and link previews see
+ * real content. The browser then hydrates the page and carries on as a normal SPA.
+ * The Thoughts feeds, sitemap.xml and robots.txt are written alongside them.
+ *
+ * Content comes from the snapshot file when it exists (no network needed, e.g. in CI),
+ * otherwise from the configured data provider. `vite build --mode snapshot` fetches from
+ * the provider and saves the snapshot file for later builds.
+ */
+
+const SERVER_ENTRY = '/src/prerender/entry-server.tsx';
+const DEFAULT_SNAPSHOT_FILE = 'content-snapshot.json';
+
+interface PrerenderOptions {
+  // Snapshot file, relative to the project root
+  snapshotFile?: string;
+}
+
+/**
+ * Puts a rendered page into the built index.html: replaces the default title and
+ * description, adds the page's head tags and fills the root element.
+ */
+const injectPage = (template: string, page: { appHtml: string; headHtml: string; snapshotHtml: string }): string =>
+  template
+    .replace(/<title>[\s\S]*?<\/title>\s*/, '')
+    .replace(/<meta name="description"[^>]*>\s*/, '')
+    .replace('</head>', `    ${page.headHtml}\n  </head>`)
+    .replace('<div id="root"></div>', `<div id="root">${page.appHtml}</div>\n    ${page.snapshotHtml}`);
+
+export const prerender = (options: PrerenderOptions = {}): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'starfall-prerender',
+    apply: 'build',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    async closeBundle() {
+      if (config.build.ssr) return;
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const snapshotFile = path.resolve(config.root, options.snapshotFile || DEFAULT_SNAPSHOT_FILE);
+      const saveSnapshot = config.mode === 'snapshot';
+      const template = fs.readFileSync(path.join(outDir, 'index.html'), 'utf-8');
+
+      if (!config.env.VITE_SITE_URL) {
+        config.logger.warn('VITE_SITE_URL is not set: prerendered canonical and Open Graph URLs will be relative, and no feeds or sitemap.xml are written.');
+      }
+
+      // A throwaway dev server loads the TSX entry (and the app) in Node
+      const server = await createServer({
+        root: config.root,
+        mode: config.mode,
+        logLevel: 'error',
+        server: { middlewareMode: true, hmr: false, watch: null },
+        appType: 'custom',
+      });
+
+      try {
+        const entry = await server.ssrLoadModule(SERVER_ENTRY);
+
+        let snapshot;
+        if (!saveSnapshot && fs.existsSync(snapshotFile)) {
+          snapshot = JSON.parse(fs.readFileSync(snapshotFile, 'utf-8'));
+          config.logger.info(`Prerendering from ${path.relative(config.root, snapshotFile)}`);
+        } else {
+          snapshot = await entry.loadContentSnapshot();
+        }
+
+        if (saveSnapshot) {
+          fs.writeFileSync(snapshotFile, `${JSON.stringify(snapshot, null, 2)}\n`);
+          config.logger.info(`Saved content snapshot to ${path.relative(config.root, snapshotFile)}`);
+        }
+
+        const paths: string[] = entry.getPrerenderPaths(snapshot);
+        for (const pagePath of paths) {
+          const html = injectPage(template, entry.renderPage(pagePath, snapshot));
+          const file = path.join(outDir, decodeURIComponent(pagePath), 'index.html');
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, html);
+        }
+
+        config.logger.info(`Prerendered ${paths.length} pages`);
+
+        const files: Array<{ path: string; content: string }> = entry.renderStaticFiles(snapshot);
+        for (const file of files) {
+          fs.writeFileSync(path.join(outDir, file.path), file.content);
+        }
+
+        config.logger.info(`Generated ${files.map(file => file.path).join(', ')}`);
+      } finally {
+        await server.close();
+      }
+    },
+  };
+};
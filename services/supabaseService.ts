@@ -1,372 +1,242 @@
-import { MOCK_PROFILE, MOCK_PROJECTS, MOCK_BLOGS } from '../constants';
-import { Profile, Project, BlogPost } from '../types';
+import { Profile, BlogPost, ContactMessage } from '../types';
 import { supabase } from '../src/lib/supabaseClient';
-
-// Check if Supabase is properly configured
-const isSupabaseConfigured = () => {
-  const url = import.meta.env.VITE_SUPABASE_URL;
-  const key = import.meta.env.VITE_SUPABASE_ANON_KEY;
-  return !!(url && key && url.trim() !== '' && key.trim() !== '');
-};
+import { uniqueSlug } from '../src/lib/slug';
+import { normalizeTags } from '../src/lib/taxonomy';
+import { imageSetsInUse } from '../src/lib/markdownFormatting';
+import { publishNowDate } from '../src/lib/publishing';
+import { dataProvider } from '../src/data';
+import { recordRevision, recordBaselineRevision } from '../src/services/revisionService';
 
 /**
  * DataService Singleton
- * 
- * Abstraction layer for data access. 
- * Allows the application to switch transparently between a live Supabase backend
- * and local mock data (useful for development or when backend is offline).
+ *
+ * Abstraction layer for data access.
+ * Delegates storage to the configured data provider (Supabase, or in-browser local storage
+ * for demos and offline work, see src/data) and applies the content rules on top,
+ * so both backends behave the same.
+ * Projects have their own module: src/services/projectRepository.ts.
  */
 export const DataService = {
   // --- Read Operations ---
 
   getProfile: async (): Promise<Profile> => {
-    if (isSupabaseConfigured()) {
-      const { data, error } = await supabase.from('profiles').select('*').single();
-      if (!error && data) return data;
-    }
-    // Fallback if Supabase is not connected or returns error
-    return MOCK_PROFILE;
-  },
-
-  getProjects: async (): Promise<Project[]> => {
-    if (isSupabaseConfigured()) {
-      const { data, error } = await supabase.from('projects').select('*').order('created_at', { ascending: false });
-      if (!error && data) return data;
-    }
-    return MOCK_PROJECTS;
+    return dataProvider.getProfile();
   },
 
+  /**
+   * Gets the posts readers can see: published, with a publish time that has passed
+   * @returns Live posts, newest first
+   */
   getBlogPosts: async (): Promise<BlogPost[]> => {
-    if (isSupabaseConfigured()) {
-      const { data, error } = await supabase.from('thought_posts').select('*').order('created_at', { ascending: false });
-      if (!error && data) return data;
-    }
-    return MOCK_BLOGS;
+    return dataProvider.getBlogPosts({ liveOnly: true });
   },
 
-  // --- Write Operations (Simulated if no backend) ---
+  /**
+   * Gets every post, including drafts and scheduled posts (admin only)
+   * @returns All posts, newest first
+   */
+  getAllBlogPosts: async (): Promise<BlogPost[]> => {
+    return dataProvider.getBlogPosts({ liveOnly: false });
+  },
 
-  createProject: async (project: Omit<Project, 'id' | 'created_at'>): Promise<Project> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
-    console.log('Creating project with data:', project);
-    
-    const { data, error } = await supabase
-      .from('projects')
-      .insert([project])
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Supabase error creating project:', error);
-      throw new Error(`Failed to create project: ${error.message}`);
-    }
-    
-    if (!data) {
-      throw new Error('No data returned from database');
-    }
-    
-    console.log('Project created successfully:', data);
-    return data;
+  /**
+   * Gets a single blog post by its slug
+   * @param slug - The post slug from the /thoughts/:slug route
+   * @returns The post, or null if no live post has this slug
+   */
+  getBlogPostBySlug: async (slug: string): Promise<BlogPost | null> => {
+    return dataProvider.findBlogPost({ slug }, { liveOnly: true });
   },
 
-  updateProject: async (id: string, project: Partial<Omit<Project, 'id' | 'created_at'>>): Promise<Project> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
-    console.log('Updating project with data:', project);
-    
-    const { data, error } = await supabase
-      .from('projects')
-      .update(project)
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Supabase error updating project:', error);
-      throw new Error(`Failed to update project: ${error.message}`);
-    }
-    
-    if (!data) {
-      throw new Error('No data returned from database');
-    }
-    
-    console.log('Project updated successfully:', data);
-    return data;
+  /**
+   * Gets a single blog post by its ID (used to redirect legacy /thoughts/:id links)
+   * @param id - The post UUID
+   * @returns The post, or null if not found or not live yet
+   */
+  getBlogPostById: async (id: string): Promise<BlogPost | null> => {
+    return dataProvider.findBlogPost({ id }, { liveOnly: true });
   },
 
-  deleteProject: async (id: string): Promise<void> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
-    console.log('Deleting project:', id);
-    
-    const { error } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', id);
-    
-    if (error) {
-      console.error('Supabase error deleting project:', error);
-      throw new Error(`Failed to delete project: ${error.message}`);
-    }
-    
-    console.log('Project deleted successfully');
+  /**
+   * Returns a slug no other post uses, appending -2, -3, ... when needed
+   * @param slug - The desired slug
+   * @param excludeId - The post being edited, so it doesn't conflict with itself
+   */
+  getUniqueBlogSlug: async (slug: string, excludeId?: string): Promise<string> => {
+    return uniqueSlug(slug, await dataProvider.getBlogSlugs(slug, excludeId));
   },
 
+  // --- Write Operations ---
+
   updateProfile: async (profile: Partial<Profile>): Promise<void> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
     console.log('Updating profile with data:', profile);
-    
-    // Try to update by ID '1' first, or get the first profile if ID doesn't exist
-    const { data: existingProfile, error: fetchError } = await supabase
-      .from('profiles')
-      .select('id')
-      .limit(1)
-      .single();
-    
-    const profileId = existingProfile?.id || '1';
-    
-    const { error } = await supabase
-      .from('profiles')
-      .update(profile)
-      .eq('id', profileId);
-    
-    if (error) {
-      console.error('Supabase error updating profile:', error);
-      throw new Error(`Failed to update profile: ${error.message}`);
+
+    const current = await dataProvider.getProfile();
+    await recordBaselineRevision('profiles', current.id);
+
+    const data = await dataProvider.updateProfile(profile);
+
+    if (data) {
+      await recordRevision('profiles', data.id, data);
     }
-    
+
     console.log('Profile updated successfully');
   },
 
   // --- Site Content Operations ---
-  
+
   /**
    * Gets a single site_content value by key
    * @param key - The key to retrieve
    * @returns The value string, or null if not found
    */
   getSiteContent: async (key: string): Promise<string | null> => {
-    if (!isSupabaseConfigured()) {
-      return null;
-    }
-
-    try {
-      const { data, error } = await supabase
-        .from('site_content')
-        .select('value')
-        .eq('key', key)
-        .single();
-      
-      if (!error && data) {
-        return data.value;
-      }
-    } catch (err) {
-      console.warn('Error fetching site_content (table may not exist yet):', err);
-    }
-    
-    return null;
+    const values = await dataProvider.getSiteContent([key]);
+    return values[key];
   },
 
   /**
    * Gets multiple site_content values by keys
    * @param keys - Array of keys to retrieve
-   * @returns Object mapping keys to values
+   * @returns Object mapping keys to values (null for missing keys)
    */
   getSiteContentMultiple: async (keys: string[]): Promise<Record<string, string | null>> => {
-    // Return object with null values for all keys if no keys provided
-    const result: Record<string, string | null> = {};
-    keys.forEach(key => { result[key] = null; });
-    
-    if (!isSupabaseConfigured() || keys.length === 0) {
-      return result;
-    }
-
-    try {
-      const { data, error } = await supabase
-        .from('site_content')
-        .select('key, value')
-        .in('key', keys);
-      
-      if (!error && data) {
-        keys.forEach(key => {
-          const item = data.find(d => d.key === key);
-          result[key] = item ? item.value : null;
-        });
-      }
-      // If there's an error (e.g., table doesn't exist), return null values
-      // This allows the page to load even if site_content table isn't set up yet
-    } catch (err) {
-      console.warn('Error fetching site_content (table may not exist yet):', err);
-      // Return null values to allow page to load
-    }
-    
-    return result;
+    return dataProvider.getSiteContent(keys);
   },
 
-  /**
-   * Sets or updates a site_content value
-   * @param key - The key to set
-   * @param value - The value to set
-   */
   // --- Blog/Thought Post Operations ---
-  
-  createBlog: async (post: Omit<BlogPost, 'id' | 'created_at' | 'updated_at'>): Promise<BlogPost> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
-    const postData: any = {
+
+  createBlog: async (post: Omit<BlogPost, 'id' | 'created_at' | 'updated_at' | 'created_by'>): Promise<BlogPost> => {
+    const postData = {
       title: post.title,
       slug: post.slug,
       summary: post.summary || null,
       content: post.content,
+      tags: normalizeTags(post.tags || []),
+      series: post.series?.trim() || null,
+      series_order: post.series?.trim() ? post.series_order ?? null : null,
+      image_sets: imageSetsInUse(post.content, post.image_sets || {}),
       published: post.published ?? true,
+      // Set published_at only if publishing: a future date schedules the post
+      published_at: post.published ? post.published_at || new Date().toISOString() : null,
     };
-    
-    // Set published_at only if publishing
-    if (post.published) {
-      postData.published_at = new Date().toISOString();
-    } else {
-      postData.published_at = null;
-    }
-    
+
     console.log('Creating blog post with data:', postData);
-    
-    const { data, error } = await supabase
-      .from('thought_posts')
-      .insert([postData])
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Supabase error creating blog post:', error);
-      throw new Error(`Failed to create blog post: ${error.message}`);
-    }
-    
-    if (!data) {
-      throw new Error('No data returned from database');
-    }
-    
+
+    const data = await dataProvider.createBlog(postData);
+
     console.log('Blog post created successfully:', data);
     return data;
   },
 
-  updateBlog: async (id: string, post: Partial<Omit<BlogPost, 'id' | 'created_at'>>): Promise<BlogPost> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
-    const updateData: any = {
-      updated_at: new Date().toISOString(),
-    };
-    
+  updateBlog: async (id: string, post: Partial<Omit<BlogPost, 'id' | 'created_at' | 'updated_at' | 'created_by'>>): Promise<BlogPost> => {
+    const updateData: Partial<Omit<BlogPost, 'id' | 'created_at' | 'updated_at' | 'created_by'>> = {};
+
     if (post.title !== undefined) updateData.title = post.title;
     if (post.slug !== undefined) updateData.slug = post.slug;
     if (post.summary !== undefined) updateData.summary = post.summary;
     if (post.content !== undefined) updateData.content = post.content;
+    if (post.tags !== undefined) updateData.tags = normalizeTags(post.tags || []);
+    if (post.series !== undefined) updateData.series = post.series?.trim() || null;
+    if (post.series_order !== undefined) updateData.series_order = post.series_order;
+    if (post.image_sets !== undefined) {
+      updateData.image_sets = post.content !== undefined ? imageSetsInUse(post.content, post.image_sets || {}) : post.image_sets;
+    }
     if (post.published !== undefined) {
       updateData.published = post.published;
-      // Set published_at if publishing for the first time
-      if (post.published) {
-        // Check if already published by fetching current post
-        const { data: currentPost } = await supabase
-          .from('thought_posts')
-          .select('published_at')
-          .eq('id', id)
-          .single();
-        
-        if (!currentPost?.published_at) {
-          updateData.published_at = new Date().toISOString();
-        }
+      if (post.published && post.published_at) {
+        // Explicit publish time (past or future) from the editor
+        updateData.published_at = post.published_at;
+      } else if (post.published) {
+        // No time picked: publish now, unscheduling a post that was set for later
+        const currentPost = await dataProvider.getRecord('thought_posts', id);
+        updateData.published_at = publishNowDate(currentPost?.published_at);
       } else {
         updateData.published_at = null;
       }
     }
-    
+
     console.log('Updating blog post with data:', updateData);
-    
-    const { data, error } = await supabase
-      .from('thought_posts')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Supabase error updating blog post:', error);
-      throw new Error(`Failed to update blog post: ${error.message}`);
-    }
-    
-    if (!data) {
-      throw new Error('No data returned from database');
-    }
-    
+
+    await recordBaselineRevision('thought_posts', id);
+
+    const data = await dataProvider.updateBlog(id, updateData);
+
+    await recordRevision('thought_posts', id, data);
+
     console.log('Blog post updated successfully:', data);
     return data;
   },
 
   deleteBlog: async (id: string): Promise<void> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-    
     console.log('Deleting blog post:', id);
-    
-    const { error } = await supabase
-      .from('thought_posts')
-      .delete()
-      .eq('id', id);
-    
-    if (error) {
-      console.error('Supabase error deleting blog post:', error);
-      throw new Error(`Failed to delete blog post: ${error.message}`);
-    }
-    
+
+    await dataProvider.deleteBlog(id);
+
     console.log('Blog post deleted successfully');
   },
 
+  /**
+   * Sets or updates a site_content value
+   * @param key - The key to set
+   * @param value - The value to set
+   */
   setSiteContent: async (key: string, value: string): Promise<void> => {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file');
-    }
-
     console.log('Setting site content:', key, value);
 
-    try {
-      // Use upsert to insert or update
-      const { error } = await supabase
-        .from('site_content')
-        .upsert({ key, value, updated_at: new Date().toISOString() }, { onConflict: 'key' });
-      
-      if (error) {
-        console.error('Supabase error setting site_content:', error);
-        throw new Error(`Failed to set site content: ${error.message}`);
-      }
-      
-      console.log('Site content set successfully');
-    } catch (err: any) {
-      console.error('Error setting site_content:', err);
-      throw err instanceof Error ? err : new Error('Failed to set site content');
-    }
+    await dataProvider.setSiteContent(key, value);
+
+    console.log('Site content set successfully');
   },
-  
+
+  // --- Contact Message Operations ---
+
+  /**
+   * Saves a message submitted through the public contact form.
+   * @param message - The visitor's name, email and message
+   * @param screening - Spam filter verdict; flagged messages go to the spam folder
+   */
+  submitContactMessage: async (
+    message: Pick<ContactMessage, 'name' | 'email' | 'message'>,
+    screening: { isSpam: boolean; score: number; reasons: string[] } = { isSpam: false, score: 0, reasons: [] }
+  ): Promise<void> => {
+    await dataProvider.submitContactMessage({
+      name: message.name.trim(),
+      email: message.email.trim(),
+      message: message.message.trim(),
+      folder: screening.isSpam ? 'spam' : 'inbox',
+      spam_score: screening.score,
+      spam_reasons: screening.reasons,
+    });
+  },
+
+  /**
+   * Gets all contact messages, newest first (admin only)
+   */
+  getContactMessages: async (): Promise<ContactMessage[]> => {
+    return dataProvider.getContactMessages();
+  },
+
+  /**
+   * Updates the read state or folder of a contact message
+   * @param id - The message ID to update
+   * @param changes - The fields to change
+   */
+  updateContactMessage: async (id: string, changes: Partial<Pick<ContactMessage, 'is_read' | 'folder'>>): Promise<ContactMessage> => {
+    return dataProvider.updateContactMessage(id, changes);
+  },
+
+  deleteContactMessage: async (id: string): Promise<void> => {
+    await dataProvider.deleteContactMessage(id);
+  },
+
   // --- Auth Mocks ---
-  
+
   signIn: async (email: string) => {
       // Allow any login for demo purposes if Supabase isn't real
       if(!supabase) return { user: { email }, error: null };
-      
+
       const { data, error } = await supabase.auth.signInWithPassword({ email, password: 'password' });
       return { user: data.user, error };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+import { AdminUser } from '../../../types';
+import { Button, Card, Input } from '../../../components/ui/Components';
+import { roleLabel } from '../../lib/permissions';
+import { PASSWORD_MIN_LENGTH, checkPassword } from '../../lib/passwordPolicy';
+import { AuthSession, getSessions, revokeSession, signOut, updatePassword } from '../../services/authService';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+interface AccountSettingsProps {
+  // The signed-in user
+  currentUser: AdminUser;
+  // Called after "Sign out everywhere", once this browser is signed out too
+  onSignedOut: () => void;
+}
+
+// Short browser/OS summary from a user agent string
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+/**
+ * AccountSettings Component
+ *
+ * The signed-in user's own account: change password, see where they're signed in,
+ * and end other sessions or all of them.
+ */
+const AccountSettings: React.FC<AccountSettingsProps> = ({ currentUser, onSignedOut }) => {
+  // --- State Management ---
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  // --- Initial Data Fetch ---
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    setSessionsLoading(true);
+    setSessionsError(null);
+    try {
+      setSessions(await getSessions());
+    } catch (err: any) {
+      console.error('Failed to load sessions:', err);
+      setSessionsError(err?.message || 'Failed to load sessions. Please try again.');
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      alert('Passwords do not match. Please try again.');
+      return;
+    }
+
+    setIsSavingPassword(true);
+    try {
+      await updatePassword(newPassword);
+      setNewPassword('');
+      setConfirmPassword('');
+      alert('Password changed.');
+    } catch (err: any) {
+      console.error('Error changing password:', err);
+      alert(`Error changing password: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: AuthSession) => {
+    setBusySessionId(session.id);
+    try {
+      await revokeSession(session.id);
+      setSessions(current => current.filter(s => s.id !== session.id));
+    } catch (err: any) {
+      console.error('Error revoking session:', err);
+      alert(`Error signing out session: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    if (!confirm('Sign out every other browser and device? This one stays signed in.')) {
+      return;
+    }
+
+    setIsSigningOut(true);
+    try {
+      await signOut('others');
+      await loadSessions();
+    } catch (err: any) {
+      console.error('Error signing out other sessions:', err);
+      alert(`Error signing out other sessions: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out everywhere, including this browser?')) {
+      return;
+    }
+
+    setIsSigningOut(true);
+    try {
+      await signOut('global');
+      onSignedOut();
+    } catch (err: any) {
+      console.error('Error signing out everywhere:', err);
+      alert(`Error signing out: ${err?.message || 'Unknown error'}`);
+      setIsSigningOut(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white">Account</h2>
+        <p className="text-slate-400 text-sm mt-1">
+          {currentUser.email} · {roleLabel(currentUser.role)}
+        </p>
+      </div>
+
+      {/* Change Password */}
+      <Card className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-indigo-400" /> Change Password
+        </h3>
+        <form onSubmit={handleChangePassword} className="space-y-4 max-w-md">
+          <Input
+            label="New Password"
+            type="password"
+            value={newPassword}
+            onChange={e => setNewPassword(e.target.value)}
+            placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+            autoComplete="new-password"
+            required
+            disabled={isSavingPassword}
+          />
+          <PasswordStrengthMeter password={newPassword} email={currentUser.email} />
+          <Input
+            label="Confirm Password"
+            type="password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            placeholder="Confirm new password"
+            autoComplete="new-password"
+            required
+            disabled={isSavingPassword}
+          />
+          <Button type="submit" disabled={isSavingPassword || !checkPassword(newPassword, currentUser.email).valid}>
+            {isSavingPassword && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Change Password
+          </Button>
+        </form>
+      </Card>
+
+      {/* Active Sessions */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <MonitorSmartphone className="w-5 h-5 text-indigo-400" /> Where You're Signed In
+          </h3>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={handleSignOutOthers} disabled={isSigningOut || sessions.length < 2}>
+              Sign out other sessions
+            </Button>
+            <Button variant="secondary" className="hover:text-red-400" onClick={handleSignOutEverywhere} disabled={isSigningOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out everywhere
+            </Button>
+          </div>
+        </div>
+
+        {sessionsLoading ? (
+          <div className="flex items-center py-6">
+            <Loader2 className="w-5 h-5 text-indigo-500 animate-spin mr-3" />
+            <span className="text-slate-400 text-sm">Loading sessions...</span>
+          </div>
+        ) : sessionsError ? (
+          <p className="text-red-400 text-sm">{sessionsError}</p>
+        ) : (
+          <ul className="divide-y divide-slate-800">
+            {sessions.map(session => (
+              <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm text-white">
+                    {describeDevice(session.user_agent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-indigo-500/20 text-indigo-300">This device</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {session.ip || 'Unknown IP'} · Signed in {new Date(session.created_at).toLocaleDateString()}
+                    {session.updated_at && ` · Last active ${new Date(session.updated_at).toLocaleString()}`}
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    className="h-9 px-3 hover:text-red-400 shrink-0"
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={busySessionId === session.id}
+                  >
+                    {busySessionId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out'}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AccountSettings;
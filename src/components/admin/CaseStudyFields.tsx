@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, ImagePlus, Images, Loader2 } from 'lucide-react';
+import { Project, ProjectGalleryImage, ProjectLink, ProjectLinkKind, ProjectMetric } from '../../../types';
+import { uploadProjectImageSet } from '../../services/storageService';
+import { MediaItem } from '../../services/mediaService';
+import { moveItem } from '../../lib/projectOrder';
+import { Button, Input } from '../../../components/ui/Components';
+import MarkdownEditor from './MarkdownEditor';
+import MediaPicker from './MediaPicker';
+
+export type CaseStudyValue = Pick<Project, 'body' | 'role' | 'timeline' | 'team' | 'outcomes' | 'links' | 'gallery'>;
+
+interface CaseStudyFieldsProps {
+  value: Partial<CaseStudyValue>;
+  onChange: (value: Partial<CaseStudyValue>) => void;
+  // Used to name uploaded gallery images
+  projectId?: string;
+  disabled?: boolean;
+}
+
+const LINK_KIND_OPTIONS: Array<{ value: ProjectLinkKind; label: string }> = [
+  { value: 'live', label: 'Live site' },
+  { value: 'repo', label: 'Repository' },
+  { value: 'deck', label: 'Deck' },
+  { value: 'other', label: 'Other' },
+];
+
+const selectClassName = 'h-10 rounded-md border border-slate-700 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50';
+
+/**
+ * CaseStudyFields Component
+ *
+ * The case-study part of the project form: role, timeline and team, outcome figures,
+ * links, the Markdown write-up and the image gallery. Gallery images are uploaded as soon
+ * as they are picked, so the gallery only ever holds stored URLs.
+ */
+const CaseStudyFields: React.FC<CaseStudyFieldsProps> = ({ value, onChange, projectId, disabled }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+
+  const outcomes = value.outcomes || [];
+  const links = value.links || [];
+  const gallery = value.gallery || [];
+
+  // --- List Helpers ---
+  const updateOutcome = (index: number, changes: Partial<ProjectMetric>) =>
+    onChange({ ...value, outcomes: outcomes.map((o, i) => (i === index ? { ...o, ...changes } : o)) });
+
+  const updateLink = (index: number, changes: Partial<ProjectLink>) =>
+    onChange({ ...value, links: links.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+
+  const updateImage = (index: number, changes: Partial<ProjectGalleryImage>) =>
+    onChange({ ...value, gallery: gallery.map((g, i) => (i === index ? { ...g, ...changes } : g)) });
+
+  /**
+   * Uploads the picked images and appends them to the gallery
+   */
+  const handleGalleryUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    const added: ProjectGalleryImage[] = [];
+    try {
+      for (const file of files) {
+        const { url, imageSet } = await uploadProjectImageSet(file, projectId);
+        added.push({ url, caption: null, alt: null, image_set: imageSet });
+      }
+    } catch (err: any) {
+      console.error('Gallery upload error:', err);
+      alert(`Error uploading image: ${err?.message || 'Unknown error'}`);
+    } finally {
+      // Keep whatever uploaded before a failure
+      if (added.length) onChange({ ...value, gallery: [...gallery, ...added] });
+      setIsUploading(false);
+    }
+  };
+
+  /**
+   * Adds an image from the media library, with its saved alt text and caption
+   */
+  const handleSelectMedia = (item: MediaItem) => {
+    onChange({
+      ...value,
+      gallery: [...gallery, {
+        url: item.url,
+        caption: item.details?.caption || null,
+        alt: item.details?.alt || null,
+        image_set: item.imageSet,
+      }],
+    });
+    setShowMediaPicker(false);
+  };
+
+  return (
+    <div className="space-y-6 pt-4 border-t border-slate-800">
+      <h4 className="text-sm font-semibold text-white uppercase tracking-wider">Case Study</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Role"
+          value={value.role || ''}
+          onChange={e => onChange({ ...value, role: e.target.value })}
+          placeholder="e.g., Lead Designer"
+          disabled={disabled}
+        />
+        <Input
+          label="Timeline"
+          value={value.timeline || ''}
+          onChange={e => onChange({ ...value, timeline: e.target.value })}
+          placeholder="e.g., 6 months, 2023"
+          disabled={disabled}
+        />
+        <Input
+          label="Team"
+          value={value.team || ''}
+          onChange={e => onChange({ ...value, team: e.target.value })}
+          placeholder="e.g., 2 engineers, 1 PM"
+          disabled={disabled}
+        />
+      </div>
+
+      {/* Outcomes */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-300">Outcomes</label>
+        {outcomes.map((outcome, idx) => (
+          <div key={idx} className="flex gap-2">
+            <Input
+              value={outcome.value}
+              onChange={e => updateOutcome(idx, { value: e.target.value })}
+              placeholder="+40%"
+              aria-label={`Outcome ${idx + 1} figure`}
+              className="w-32"
+              disabled={disabled}
+            />
+            <Input
+              value={outcome.label}
+              onChange={e => updateOutcome(idx, { label: e.target.value })}
+              placeholder="checkout conversion"
+              aria-label={`Outcome ${idx + 1} label`}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              className="h-10 w-10 p-0 shrink-0 hover:text-red-400"
+              onClick={() => onChange({ ...value, outcomes: outcomes.filter((_, i) => i !== idx) })}
+              aria-label={`Remove outcome ${idx + 1}`}
+              disabled={disabled}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="secondary"
+          className="h-8"
+          onClick={() => onChange({ ...value, outcomes: [...outcomes, { value: '', label: '' }] })}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" /> Add Outcome
+        </Button>
+      </div>
+
+      {/* Links */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-300">Links</label>
+        {links.map((link, idx) => (
+          <div key={idx} className="flex gap-2">
+            <select
+              value={link.kind}
+              onChange={e => updateLink(idx, { kind: e.target.value as ProjectLinkKind })}
+              aria-label={`Link ${idx + 1} type`}
+              className={selectClassName}
+              disabled={disabled}
+            >
+              {LINK_KIND_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Input
+              type="url"
+              value={link.url}
+              onChange={e => updateLink(idx, { url: e.target.value })}
+              placeholder="https://"
+              aria-label={`Link ${idx + 1} URL`}
+              disabled={disabled}
+            />
+            <Input
+              value={link.label || ''}
+              onChange={e => updateLink(idx, { label: e.target.value || null })}
+              placeholder="Label (optional)"
+              aria-label={`Link ${idx + 1} label`}
+              className="w-40"
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              className="h-10 w-10 p-0 shrink-0 hover:text-red-400"
+              onClick={() => onChange({ ...value, links: links.filter((_, i) => i !== idx) })}
+              aria-label={`Remove link ${idx + 1}`}
+              disabled={disabled}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="secondary"
+          className="h-8"
+          onClick={() => onChange({ ...value, links: [...links, { kind: 'live', url: '', label: null }] })}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" /> Add Link
+        </Button>
+      </div>
+
+      <MarkdownEditor
+        label="Write-up"
+        value={value.body || ''}
+        onChange={body => onChange({ ...value, body })}
+      />
+
+      {/* Gallery */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-300">Gallery</label>
+        {gallery.map((image, idx) => (
+          <div key={`${idx}-${image.url}`} className="flex gap-3 p-3 rounded-md border border-slate-800 bg-slate-900/30">
+            <img src={image.url} alt={image.alt || ''} className="w-24 h-16 object-cover rounded shrink-0" />
+            <div className="flex-1 space-y-2">
+              <Input
+                value={image.caption || ''}
+                onChange={e => updateImage(idx, { caption: e.target.value || null })}
+                placeholder="Caption"
+                aria-label={`Image ${idx + 1} caption`}
+                disabled={disabled}
+              />
+              <Input
+                value={image.alt || ''}
+                onChange={e => updateImage(idx, { alt: e.target.value || null })}
+                placeholder="Alt text (describes the image for screen readers)"
+                aria-label={`Image ${idx + 1} alt text`}
+                disabled={disabled}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => onChange({ ...value, gallery: moveItem(gallery, idx, idx - 1) })}
+                aria-label={`Move image ${idx + 1} up`}
+                disabled={disabled || idx === 0}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => onChange({ ...value, gallery: moveItem(gallery, idx, idx + 1) })}
+                aria-label={`Move image ${idx + 1} down`}
+                disabled={disabled || idx === gallery.length - 1}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="h-8 w-8 p-0 hover:text-red-400"
+                onClick={() => onChange({ ...value, gallery: gallery.filter((_, i) => i !== idx) })}
+                aria-label={`Remove image ${idx + 1}`}
+                disabled={disabled}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <label className={`inline-flex items-center gap-2 px-3 h-8 rounded-lg border border-slate-700 bg-slate-800 text-sm text-slate-100 ${disabled || isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-700'}`}>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleGalleryUpload}
+            className="hidden"
+            disabled={disabled || isUploading}
+          />
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+          {isUploading ? 'Uploading...' : 'Add Images'}
+        </label>
+        <Button
+          type="button"
+          variant="secondary"
+          className="h-8 ml-2"
+          onClick={() => setShowMediaPicker(true)}
+          disabled={disabled}
+        >
+          <Images className="w-4 h-4 mr-2" /> From Library
+        </Button>
+        {showMediaPicker && (
+          <MediaPicker
+            title="Add to Gallery"
+            onSelect={handleSelectMedia}
+            onClose={() => setShowMediaPicker(false)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaseStudyFields;
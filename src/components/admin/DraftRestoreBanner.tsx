@@ -0,0 +1,29 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Button } from '../../../components/ui/Components';
+
+interface DraftRestoreBannerProps {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * DraftRestoreBanner Component
+ *
+ * Offers to restore an autosaved draft when an editor opens and unsaved work was found.
+ */
+const DraftRestoreBanner: React.FC<DraftRestoreBannerProps> = ({ savedAt, onRestore, onDiscard }) => (
+  <div className="p-3 rounded-md bg-amber-500/10 border border-amber-500/50 flex flex-col sm:flex-row sm:items-center gap-3">
+    <div className="flex items-center gap-2 text-amber-300 text-sm flex-1">
+      <History className="w-4 h-4 flex-shrink-0" />
+      <span>Restore unsaved draft from {new Date(savedAt).toLocaleString()}?</span>
+    </div>
+    <div className="flex gap-2">
+      <Button type="button" variant="ghost" className="h-8" onClick={onDiscard}>Discard</Button>
+      <Button type="button" className="h-8" onClick={onRestore}>Restore</Button>
+    </div>
+  </div>
+);
+
+export default DraftRestoreBanner;
@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Mail, MailOpen, Archive, ArchiveRestore, Trash2, Inbox, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { ContactMessage, ContactMessageFolder } from '../../../types';
+import { DataService } from '../../../services/supabaseService';
+import { Button, Card } from '../../../components/ui/Components';
+
+interface InboxManagerProps {
+  onUnreadCountChange?: (count: number) => void;
+}
+
+const FOLDERS: Array<{ id: ContactMessageFolder; label: string }> = [
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'archived', label: 'Archived' },
+  { id: 'spam', label: 'Spam' },
+];
+
+/**
+ * InboxManager Component
+ *
+ * Admin inbox for messages submitted through the public contact form.
+ * Lists messages by folder and lets the admin read, mark read/unread, archive and delete them.
+ * Messages flagged by the contact form spam filter are quarantined in the Spam folder.
+ */
+const InboxManager: React.FC<InboxManagerProps> = ({ onUnreadCountChange }) => {
+  // --- State Management ---
+  const [messages, setMessages] = useState<ContactMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [folder, setFolder] = useState<ContactMessageFolder>('inbox');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // --- Initial Data Fetch ---
+  useEffect(() => {
+    loadMessages();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Keep the sidebar badge in sync with the unread inbox count
+  useEffect(() => {
+    onUnreadCountChange?.(messages.filter(m => m.folder === 'inbox' && !m.is_read).length);
+  }, [messages, onUnreadCountChange]);
+
+  /**
+   * Fetches all contact messages and updates state
+   */
+  const loadMessages = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await DataService.getContactMessages();
+      setMessages(data);
+    } catch (err: any) {
+      console.error('Failed to load messages:', err);
+      setError(err?.message || 'Failed to load messages. Please try again.');
+      setMessages([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Applies a change to a message and swaps the saved row into local state
+   */
+  const applyChange = async (id: string, changes: Partial<Pick<ContactMessage, 'is_read' | 'folder'>>) => {
+    try {
+      const updated = await DataService.updateContactMessage(id, changes);
+      setMessages(prev => prev.map(m => (m.id === id ? updated : m)));
+    } catch (err: any) {
+      console.error('Error updating message:', err);
+      alert(`Error updating message: ${err?.message || 'Unknown error'}`);
+    }
+  };
+
+  /**
+   * Opens a message in the reading pane, marking it read
+   */
+  const handleOpenMessage = (message: ContactMessage) => {
+    setSelectedId(message.id);
+    if (!message.is_read) {
+      applyChange(message.id, { is_read: true });
+    }
+  };
+
+  const handleMove = async (message: ContactMessage, target: ContactMessageFolder) => {
+    await applyChange(message.id, { folder: target });
+    setSelectedId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this message? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await DataService.deleteContactMessage(id);
+      setMessages(prev => prev.filter(m => m.id !== id));
+      setSelectedId(null);
+    } catch (err: any) {
+      console.error('Error deleting message:', err);
+      alert(`Error deleting message: ${err?.message || 'Unknown error'}`);
+    }
+  };
+
+  const folderMessages = messages.filter(m => m.folder === folder);
+  const selectedMessage = messages.find(m => m.id === selectedId) || null;
+
+  // --- Loading State ---
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-indigo-500 animate-spin mr-3" />
+          <span className="text-slate-400">Loading messages...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Inbox</h2>
+          <p className="text-slate-400 text-sm mt-1">Messages sent through the contact form</p>
+        </div>
+        <div className="flex gap-2">
+          {FOLDERS.map(f => {
+            const unread = messages.filter(m => m.folder === f.id && !m.is_read).length;
+            return (
+              <Button
+                key={f.id}
+                variant={folder === f.id ? 'primary' : 'secondary'}
+                onClick={() => { setFolder(f.id); setSelectedId(null); }}
+              >
+                {f.label}{unread > 0 && ` (${unread})`}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <Card className="p-4 border-red-500/50 bg-red-500/10">
+          <p className="text-red-400 text-sm">{error}</p>
+        </Card>
+      )}
+
+      {folderMessages.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Inbox className="w-8 h-8 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">No messages in this folder.</p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          {/* Message List */}
+          <div className="lg:col-span-2 space-y-2">
+            {folderMessages.map(message => (
+              <button
+                key={message.id}
+                onClick={() => handleOpenMessage(message)}
+                className={`w-full text-left p-4 rounded-xl border transition-colors ${
+                  selectedId === message.id
+                    ? 'border-indigo-500/50 bg-indigo-500/10'
+                    : 'border-slate-800 bg-slate-900/40 hover:border-indigo-500/30'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate ${message.is_read ? 'text-slate-300' : 'font-bold text-white'}`}>
+                    {message.name}
+                  </span>
+                  <span className="text-xs text-slate-500 font-mono flex-shrink-0">
+                    {new Date(message.created_at).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-500 mt-1 line-clamp-1">{message.message}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Reading Pane */}
+          <Card className="lg:col-span-3 p-6">
+            {selectedMessage ? (
+              <div className="space-y-6">
+                <div className="flex items-start justify-between gap-4 border-b border-slate-800 pb-4">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-bold text-white truncate">{selectedMessage.name}</h3>
+                    <a
+                      href={`mailto:${selectedMessage.email}`}
+                      className="text-sm text-indigo-400 hover:text-indigo-300"
+                    >
+                      {selectedMessage.email}
+                    </a>
+                    <div className="text-xs text-slate-500 font-mono mt-1">
+                      {new Date(selectedMessage.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      variant="secondary"
+                      className="h-8 w-8 p-0"
+                      onClick={() => applyChange(selectedMessage.id, { is_read: !selectedMessage.is_read })}
+                      title={selectedMessage.is_read ? 'Mark as unread' : 'Mark as read'}
+                    >
+                      {selectedMessage.is_read ? <Mail className="w-4 h-4" /> : <MailOpen className="w-4 h-4" />}
+                    </Button>
+                    {selectedMessage.folder === 'spam' ? (
+                      <Button
+                        variant="secondary"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleMove(selectedMessage, 'inbox')}
+                        title="Not spam: move to inbox"
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                      </Button>
+                    ) : selectedMessage.folder === 'archived' ? (
+                      <Button
+                        variant="secondary"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleMove(selectedMessage, 'inbox')}
+                        title="Move to inbox"
+                      >
+                        <ArchiveRestore className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="secondary"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleMove(selectedMessage, 'archived')}
+                        title="Archive"
+                      >
+                        <Archive className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="danger"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleDelete(selectedMessage.id)}
+                      title="Delete message"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {selectedMessage.spam_reasons?.length > 0 && (
+                  <div className="p-3 rounded-md bg-amber-500/10 border border-amber-500/50 text-amber-300 text-sm space-y-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      <ShieldAlert className="w-4 h-4" />
+                      Spam score {selectedMessage.spam_score}
+                    </div>
+                    <ul className="list-disc list-inside text-amber-300/80">
+                      {selectedMessage.spam_reasons.map((reason, idx) => (
+                        <li key={idx}>{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">{selectedMessage.message}</p>
+              </div>
+            ) : (
+              <div className="h-full min-h-[200px] flex items-center justify-center text-slate-500">
+                Select a message to read it
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InboxManager;
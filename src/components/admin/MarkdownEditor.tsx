@@ -0,0 +1,300 @@
+import React, { useRef, useLayoutEffect, useState } from 'react';
+import { Heading1, Heading2, Bold, Italic, Link, List, ListOrdered, Code, Quote, ImagePlus } from 'lucide-react';
+import { Markdown } from '../../../components/ui/Markdown';
+import { ImageSet } from '../../../types';
+import {
+  EditResult,
+  wrapSelection,
+  prefixLines,
+  insertLink,
+  insertCode,
+  insertBlock,
+  imageMarkdown,
+  uploadingImageMarkdown,
+} from '../../lib/markdownFormatting';
+
+interface MarkdownEditorProps {
+  label?: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  // Stores a dropped, pasted or picked image and returns its URL; images are only accepted when set
+  onUploadImage?: (file: File) => Promise<string>;
+  // Resized copies of the content's images, for the preview
+  imageSets?: Record<string, ImageSet>;
+}
+
+type Action = (text: string, start: number, end: number) => EditResult;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl';
+
+/**
+ * Toolbar actions and their keyboard shortcuts (Cmd on macOS, Ctrl elsewhere)
+ */
+const ACTIONS: Array<{ id: string; label: string; shortcut: string; icon: React.ReactNode; run: Action }> = [
+  { id: 'h1', label: 'Heading 1', shortcut: `${MOD}+Alt+1`, icon: <Heading1 className="w-4 h-4" />, run: (t, s, e) => prefixLines(t, s, e, '# ') },
+  { id: 'h2', label: 'Heading 2', shortcut: `${MOD}+Alt+2`, icon: <Heading2 className="w-4 h-4" />, run: (t, s, e) => prefixLines(t, s, e, '## ') },
+  { id: 'bold', label: 'Bold', shortcut: `${MOD}+B`, icon: <Bold className="w-4 h-4" />, run: (t, s, e) => wrapSelection(t, s, e, '**', '**', 'bold text') },
+  { id: 'italic', label: 'Italic', shortcut: `${MOD}+I`, icon: <Italic className="w-4 h-4" />, run: (t, s, e) => wrapSelection(t, s, e, '*', '*', 'italic text') },
+  { id: 'link', label: 'Link', shortcut: `${MOD}+K`, icon: <Link className="w-4 h-4" />, run: insertLink },
+  { id: 'ul', label: 'Bulleted list', shortcut: `${MOD}+Shift+8`, icon: <List className="w-4 h-4" />, run: (t, s, e) => prefixLines(t, s, e, '- ') },
+  { id: 'ol', label: 'Numbered list', shortcut: `${MOD}+Shift+7`, icon: <ListOrdered className="w-4 h-4" />, run: (t, s, e) => prefixLines(t, s, e, '1. ') },
+  { id: 'quote', label: 'Quote', shortcut: `${MOD}+Shift+9`, icon: <Quote className="w-4 h-4" />, run: (t, s, e) => prefixLines(t, s, e, '> ') },
+  { id: 'code', label: 'Code', shortcut: `${MOD}+E`, icon: <Code className="w-4 h-4" />, run: insertCode },
+];
+
+/**
+ * Maps a keydown event to a toolbar action id, or null if it isn't a shortcut
+ */
+const shortcutFor = (e: React.KeyboardEvent): string | null => {
+  if (!(isMac ? e.metaKey : e.ctrlKey)) return null;
+
+  if (e.altKey && e.code === 'Digit1') return 'h1';
+  if (e.altKey && e.code === 'Digit2') return 'h2';
+  if (e.shiftKey && e.code === 'Digit8') return 'ul';
+  if (e.shiftKey && e.code === 'Digit7') return 'ol';
+  if (e.shiftKey && e.code === 'Digit9') return 'quote';
+  if (e.altKey || e.shiftKey) return null;
+
+  switch (e.key.toLowerCase()) {
+    case 'b': return 'bold';
+    case 'i': return 'italic';
+    case 'k': return 'link';
+    case 'e': return 'code';
+    default: return null;
+  }
+};
+
+// Suggested alt text from a file name, e.g. "team-offsite_2024.jpg" -> "team offsite 2024"
+const altFromFileName = (name: string): string =>
+  /^image\.\w+$/i.test(name) ? '' : name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+/**
+ * MarkdownEditor Component
+ *
+ * Split-pane markdown editor for Thoughts posts: source on the left, live preview on the right.
+ * The preview uses the same Markdown renderer as BlogDetail, and the two panes scroll together.
+ * With onUploadImage, images can be dropped or pasted in (or picked from the toolbar): each one
+ * asks for alt text, shows a placeholder at the cursor while it uploads, then becomes ![alt](url).
+ */
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ label, value, onChange, required, onUploadImage, imageSets }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Uploads finish after further typing, so they edit the latest text rather than the text they started with
+  const latestValue = useRef(value);
+  latestValue.current = value;
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Selection to restore once React has re-rendered the new value
+  const pendingSelection = useRef<{ start: number; end: number } | null>(null);
+  // Which pane is currently driving the scroll, so the follower's scroll event is ignored
+  const scrollSource = useRef<'editor' | 'preview' | null>(null);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingSelection.current) {
+      textarea.focus();
+      textarea.setSelectionRange(pendingSelection.current.start, pendingSelection.current.end);
+      pendingSelection.current = null;
+    }
+  }, [value]);
+
+  /**
+   * Runs a formatting action against the current selection
+   */
+  const applyAction = (id: string) => {
+    const textarea = textareaRef.current;
+    const action = ACTIONS.find(a => a.id === id);
+    if (!textarea || !action) return;
+
+    const result = action.run(value, textarea.selectionStart, textarea.selectionEnd);
+    pendingSelection.current = { start: result.selectionStart, end: result.selectionEnd };
+    onChange(result.text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const id = shortcutFor(e);
+    if (id) {
+      e.preventDefault();
+      applyAction(id);
+    }
+  };
+
+  /**
+   * Uploads images and inserts them at the cursor, one paragraph each
+   */
+  const insertImages = (files: File[]) => {
+    const textarea = textareaRef.current;
+    if (!onUploadImage || !textarea) return;
+
+    let text = latestValue.current;
+    let start = textarea.selectionStart;
+    let end = textarea.selectionEnd;
+    const uploads: Array<{ file: File; alt: string; placeholder: string }> = [];
+
+    for (const file of files) {
+      const alt = prompt(`Describe "${file.name}" for readers who can't see it (alt text):`, altFromFileName(file.name));
+      // Cancelling skips the image
+      if (alt === null) continue;
+
+      const placeholder = uploadingImageMarkdown(alt.trim() || file.name, `${Date.now()}-${uploads.length}`);
+      const result = insertBlock(text, start, end, placeholder);
+      text = result.text;
+      start = end = result.selectionStart;
+      uploads.push({ file, alt: alt.trim(), placeholder });
+    }
+    if (uploads.length === 0) return;
+
+    // Uploads can finish before the parent re-renders with the previous one's text,
+    // so each edit moves latestValue on straight away instead of waiting for the render
+    const editLatest = (edit: (current: string) => string) => {
+      latestValue.current = edit(latestValue.current);
+      onChange(latestValue.current);
+    };
+
+    pendingSelection.current = { start, end };
+    editLatest(() => text);
+
+    uploads.forEach(async ({ file, alt, placeholder }) => {
+      try {
+        const url = await onUploadImage(file);
+        editLatest(current => current.replace(placeholder, imageMarkdown(alt, url)));
+      } catch (err: any) {
+        console.error('Image upload error:', err);
+        // Drop the placeholder along with the blank line insertBlock put after it
+        editLatest(current => current.replace(`${placeholder}\n\n`, '').replace(placeholder, ''));
+        alert(`Error uploading ${file.name}: ${err?.message || 'Unknown error'}`);
+      }
+    });
+  };
+
+  const imageFiles = (files: FileList | null | undefined): File[] =>
+    Array.from(files || []).filter(file => file.type.startsWith('image/'));
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = imageFiles(e.clipboardData.files);
+    if (!onUploadImage || files.length === 0) return;
+    e.preventDefault();
+    insertImages(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (!onUploadImage || !Array.from(e.dataTransfer.items).some(item => item.kind === 'file' && item.type.startsWith('image/'))) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingImage(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setIsDraggingImage(false);
+    const files = imageFiles(e.dataTransfer.files);
+    if (!onUploadImage || files.length === 0) return;
+    e.preventDefault();
+    insertImages(files);
+  };
+
+  /**
+   * Scroll Sync
+   * Mirrors the scroll position proportionally from one pane to the other.
+   */
+  const syncScroll = (source: 'editor' | 'preview') => {
+    if (scrollSource.current && scrollSource.current !== source) return;
+
+    const from = source === 'editor' ? textareaRef.current : previewRef.current;
+    const to = source === 'editor' ? previewRef.current : textareaRef.current;
+    if (!from || !to) return;
+
+    const fromRange = from.scrollHeight - from.clientHeight;
+    const toRange = to.scrollHeight - to.clientHeight;
+    if (fromRange <= 0 || toRange <= 0) return;
+
+    scrollSource.current = source;
+    to.scrollTop = (from.scrollTop / fromRange) * toRange;
+    requestAnimationFrame(() => {
+      scrollSource.current = null;
+    });
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      {label && <label className="text-sm font-medium text-slate-300">{label}</label>}
+      <div className="rounded-md border border-slate-700 bg-slate-900/50 overflow-hidden focus-within:border-indigo-500">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-1 border-b border-slate-700 px-2 py-1.5" role="toolbar" aria-label="Formatting">
+          {ACTIONS.map(action => (
+            <button
+              key={action.id}
+              type="button"
+              onMouseDown={e => e.preventDefault()} // Keep the textarea selection
+              onClick={() => applyAction(action.id)}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+              title={`${action.label} (${action.shortcut})`}
+              aria-label={action.label}
+            >
+              {action.icon}
+            </button>
+          ))}
+          {onUploadImage && (
+            <>
+              <button
+                type="button"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => fileInputRef.current?.click()}
+                className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                title="Image (or drop/paste one into the editor)"
+                aria-label="Image"
+              >
+                <ImagePlus className="w-4 h-4" />
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={e => {
+                  insertImages(imageFiles(e.target.files));
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Editor + Preview */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 h-[60vh] min-h-[320px]">
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={() => syncScroll('editor')}
+            onPaste={handlePaste}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDraggingImage(false)}
+            onDrop={handleDrop}
+            required={required}
+            spellCheck
+            className={`h-full w-full resize-none px-4 py-3 font-mono text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none border-b lg:border-b-0 lg:border-r border-slate-700 ${isDraggingImage ? 'bg-indigo-500/10 outline-dashed outline-2 -outline-offset-4 outline-indigo-500' : 'bg-transparent'}`}
+            placeholder={onUploadImage ? 'Write your post in markdown... (drop or paste images)' : 'Write your post in markdown...'}
+          />
+          <div
+            ref={previewRef}
+            onScroll={() => syncScroll('preview')}
+            className="h-full overflow-y-auto bg-slate-950/50 px-6 py-4"
+            aria-label="Preview"
+          >
+            {value.trim() ? (
+              <Markdown content={value} imageSets={imageSets} className="text-slate-300" />
+            ) : (
+              <p className="text-slate-500 italic">Nothing to preview yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
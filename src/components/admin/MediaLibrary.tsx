@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Pencil, Trash2, Copy, FileText, Image as ImageIcon, Sparkles, Check, X } from 'lucide-react';
+import { Button, Card, Input } from '../../../components/ui/Components';
+import {
+  MediaItem,
+  getMediaLibrary,
+  updateMediaDetails,
+  deleteMediaItem,
+  deleteUnusedMedia,
+  getUnusedMedia,
+  mediaThumbnail,
+} from '../../services/mediaService';
+
+type MediaFilter = 'all' | 'images' | 'documents' | 'unused';
+
+const FILTERS: Array<{ id: MediaFilter; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'images', label: 'Images' },
+  { id: 'documents', label: 'Documents' },
+  { id: 'unused', label: 'Unused' },
+];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface MediaLibraryProps {
+  // Lists the files without editing, deleting or cleaning up
+  readOnly?: boolean;
+}
+
+/**
+ * MediaLibrary Component
+ *
+ * Admin view of every uploaded file: thumbnail, size, dimensions and where it is used.
+ * Alt text and captions saved here are filled in when the asset is reused from a picker.
+ * Files nothing uses can be deleted one at a time or all at once with Clean Up.
+ */
+const MediaLibrary: React.FC<MediaLibraryProps> = ({ readOnly }) => {
+  // --- State Management ---
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<MediaFilter>('all');
+  const [editing, setEditing] = useState<{ url: string; alt: string; caption: string } | null>(null);
+  const [busyUrl, setBusyUrl] = useState<string | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  // Sizes measured in the browser for images without saved dimensions
+  const [measured, setMeasured] = useState<Record<string, { width: number; height: number }>>({});
+
+  // --- Initial Data Fetch ---
+  useEffect(() => {
+    loadLibrary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Fetches the stored files with their details and usage
+   */
+  const loadLibrary = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setItems(await getMediaLibrary());
+    } catch (err: any) {
+      console.error('Failed to load media:', err);
+      setError(err?.message || 'Failed to load media. Please try again.');
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveDetails = async (item: MediaItem) => {
+    if (!editing) return;
+    setBusyUrl(item.url);
+    try {
+      const details = await updateMediaDetails(item, {
+        alt: editing.alt,
+        caption: editing.caption,
+        ...(measured[item.url] && !item.details?.width ? measured[item.url] : {}),
+      });
+      setItems(current => current.map(i => (i.url === item.url ? { ...i, details } : i)));
+      setEditing(null);
+    } catch (err: any) {
+      console.error('Error saving media details:', err);
+      alert(`Error saving details: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusyUrl(null);
+    }
+  };
+
+  const handleDelete = async (item: MediaItem) => {
+    const copies = item.files.length > 1 ? ` and its ${item.files.length - 1} resized copies` : '';
+    if (!confirm(`Delete ${item.name}${copies}? This action cannot be undone.`)) {
+      return;
+    }
+
+    setBusyUrl(item.url);
+    try {
+      await deleteMediaItem(item);
+      setItems(current => current.filter(i => i.url !== item.url));
+    } catch (err: any) {
+      console.error('Error deleting media:', err);
+      alert(`Error deleting file: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusyUrl(null);
+    }
+  };
+
+  const handleCleanUp = async () => {
+    const unused = getUnusedMedia(items);
+    const size = unused.reduce((total, item) => total + item.size, 0);
+    if (!confirm(`Delete ${unused.length} unused file${unused.length === 1 ? '' : 's'} (${formatBytes(size)})? Files uploaded in the last hour are kept. Older revisions that used them will restore without them.`)) {
+      return;
+    }
+
+    setIsCleaning(true);
+    try {
+      const deleted = await deleteUnusedMedia();
+      alert(`Deleted ${deleted} unused file${deleted === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      console.error('Error cleaning up media:', err);
+      alert(`Error cleaning up: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsCleaning(false);
+      await loadLibrary();
+    }
+  };
+
+  const handleCopyUrl = async (item: MediaItem) => {
+    try {
+      await navigator.clipboard.writeText(item.url);
+    } catch {
+      prompt('Copy the file URL:', item.url);
+    }
+  };
+
+  const isImage = (item: MediaItem) => item.type.startsWith('image/') || !!item.imageSet;
+  const visibleItems = items.filter(item =>
+    filter === 'images' ? isImage(item)
+      : filter === 'documents' ? !isImage(item)
+      : filter === 'unused' ? item.usages.length === 0
+      : true
+  );
+  const unusedCount = getUnusedMedia(items).length;
+  const totalSize = items.reduce((total, item) => total + item.size, 0);
+
+  // --- Loading State ---
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-indigo-500 animate-spin mr-3" />
+          <span className="text-slate-400">Loading media...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Header */}
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Media</h2>
+          <p className="text-slate-400 text-sm mt-1">
+            {items.length} file{items.length === 1 ? '' : 's'} · {formatBytes(totalSize)}
+          </p>
+        </div>
+        {!readOnly && (
+          <Button variant="secondary" onClick={handleCleanUp} disabled={isCleaning || unusedCount === 0}>
+            {isCleaning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+            Clean Up Unused{unusedCount > 0 && ` (${unusedCount})`}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {FILTERS.map(f => (
+          <Button
+            key={f.id}
+            variant={filter === f.id ? 'primary' : 'secondary'}
+            className="h-8"
+            onClick={() => setFilter(f.id)}
+          >
+            {f.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <Card className="p-4 border-red-500/50 bg-red-500/10">
+          <p className="text-red-400 text-sm">{error}</p>
+        </Card>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <Card className="p-8 text-center">
+          <ImageIcon className="w-8 h-8 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">{items.length === 0 ? 'Nothing uploaded yet.' : 'No files match this filter.'}</p>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {visibleItems.map(item => {
+            const thumbnail = mediaThumbnail(item);
+            const width = item.details?.width ?? item.imageSet?.width ?? measured[item.url]?.width;
+            const height = item.details?.height ?? item.imageSet?.height ?? measured[item.url]?.height;
+            const isEditing = editing?.url === item.url;
+            const isBusy = busyUrl === item.url;
+
+            return (
+              <li key={item.url}>
+                <Card className="p-4 flex gap-4">
+                  <div className="w-24 h-16 rounded-md overflow-hidden bg-slate-800 shrink-0 flex items-center justify-center">
+                    {thumbnail ? (
+                      <img
+                        src={thumbnail}
+                        alt={item.details?.alt || ''}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                        onLoad={e => {
+                          // Only the full file has the real size; thumbnails of image sets use the saved one
+                          if (thumbnail !== item.url || width) return;
+                          const { naturalWidth, naturalHeight } = e.currentTarget;
+                          setMeasured(current => ({ ...current, [item.url]: { width: naturalWidth, height: naturalHeight } }));
+                        }}
+                      />
+                    ) : (
+                      <FileText className="w-6 h-6 text-slate-500" />
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center justify-between gap-3">
+                      <a href={item.url} target="_blank" rel="noopener noreferrer" className="font-medium text-white truncate hover:text-indigo-300">
+                        {item.name}
+                      </a>
+                      <div className="flex gap-2 shrink-0">
+                        <Button variant="ghost" className="h-8 w-8 p-0" onClick={() => handleCopyUrl(item)} title="Copy URL">
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        {isImage(item) && !readOnly && (
+                          <Button
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            onClick={() => setEditing({ url: item.url, alt: item.details?.alt || '', caption: item.details?.caption || '' })}
+                            title="Edit alt text and caption"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {!readOnly && (
+                          <Button
+                            variant="ghost"
+                            className="h-8 w-8 p-0 hover:text-red-400"
+                            onClick={() => handleDelete(item)}
+                            disabled={isBusy || item.usages.length > 0}
+                            title={item.usages.length > 0 ? 'In use: remove it from the content first' : 'Delete file'}
+                          >
+                            {isBusy && !isEditing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    <p className="text-xs text-slate-500 font-mono">
+                      {item.bucket} · {formatBytes(item.size)}
+                      {width && height ? ` · ${width}×${height}` : ''}
+                      {item.files.length > 1 ? ` · ${item.files.length} sizes/formats` : ''}
+                      {' · '}{new Date(item.created_at).toLocaleDateString()}
+                    </p>
+
+                    {item.usages.length > 0 ? (
+                      <ul className="text-sm text-slate-400">
+                        {item.usages.map((usage, idx) => (
+                          <li key={idx}>
+                            <span className="text-slate-500">{usage.field}:</span> {usage.title}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-amber-300/80">Not used anywhere</p>
+                    )}
+
+                    {!isEditing && (item.details?.alt || item.details?.caption) && (
+                      <p className="text-sm text-slate-500 italic truncate">
+                        {[item.details.alt && `Alt: ${item.details.alt}`, item.details.caption && `Caption: ${item.details.caption}`].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+
+                    {isEditing && (
+                      <form
+                        className="pt-2 space-y-2"
+                        onSubmit={e => { e.preventDefault(); handleSaveDetails(item); }}
+                      >
+                        <Input
+                          value={editing.alt}
+                          onChange={e => setEditing({ ...editing, alt: e.target.value })}
+                          placeholder="Alt text (describes the image for screen readers)"
+                          aria-label="Alt text"
+                          autoFocus
+                        />
+                        <Input
+                          value={editing.caption}
+                          onChange={e => setEditing({ ...editing, caption: e.target.value })}
+                          placeholder="Caption"
+                          aria-label="Caption"
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" className="h-8" disabled={isBusy}>
+                            {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />} Save
+                          </Button>
+                          <Button type="button" variant="ghost" className="h-8" onClick={() => setEditing(null)}>
+                            <X className="w-4 h-4 mr-2" /> Cancel
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                </Card>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
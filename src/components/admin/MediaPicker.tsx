@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X, Image as ImageIcon } from 'lucide-react';
+import { Card } from '../../../components/ui/Components';
+import { MediaItem, getMediaLibrary, mediaThumbnail } from '../../services/mediaService';
+
+interface MediaPickerProps {
+  title?: string;
+  onSelect: (item: MediaItem) => void;
+  onClose: () => void;
+}
+
+/**
+ * MediaPicker Component
+ *
+ * Dialog for reusing an image that is already in the media library instead of uploading it again.
+ */
+const MediaPicker: React.FC<MediaPickerProps> = ({ title = 'Choose from Media Library', onSelect, onClose }) => {
+  const [items, setItems] = useState<MediaItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMediaLibrary()
+      .then(library => setItems(library.filter(item => mediaThumbnail(item))))
+      .catch(err => {
+        console.error('Failed to load media:', err);
+        setError(err?.message || 'Failed to load media.');
+      });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <Card
+        className="w-full max-w-3xl max-h-[80vh] flex flex-col bg-slate-900"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="font-medium text-white">{title}</h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-white" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          {error ? (
+            <p className="text-sm text-red-400 text-center py-8">{error}</p>
+          ) : !items ? (
+            <div className="flex items-center justify-center py-8 text-slate-400">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin text-indigo-500" /> Loading media...
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <ImageIcon className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+              No images uploaded yet.
+            </div>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {items.map(item => (
+                <li key={item.url}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(item)}
+                    className="block w-full rounded-md overflow-hidden border border-slate-800 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-left"
+                    title={item.details?.alt || item.name}
+                  >
+                    <img src={mediaThumbnail(item)!} alt={item.details?.alt || ''} loading="lazy" className="w-full aspect-[4/3] object-cover" />
+                    <span className="block px-2 py-1 text-xs text-slate-400 truncate">
+                      {item.details?.caption || item.details?.alt || item.name}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MediaPicker;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { checkPassword } from '../../lib/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // The account's email, which the password shouldn't contain
+  email?: string;
+}
+
+const BAR_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-500'];
+
+/**
+ * PasswordStrengthMeter Component
+ *
+ * Four-step bar and label for a new password, with the policy rules it still breaks.
+ * Shows nothing until something is typed.
+ */
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, email }) => {
+  if (!password) return null;
+  const { score, label, problems } = checkPassword(password, email);
+
+  return (
+    <div className="space-y-1.5" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map(step => (
+          <div key={step} className={`h-1.5 flex-1 rounded-full ${step <= Math.max(score, 1) ? BAR_COLORS[score] : 'bg-slate-700'}`} />
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">
+        Strength: <span className="text-slate-200">{label}</span>
+      </p>
+      {problems.length > 0 && (
+        <ul className="text-xs text-amber-300/90 space-y-0.5">
+          {problems.map(problem => <li key={problem}>• {problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button, Card, Input } from '../../../components/ui/Components';
+import { Link } from '../../lib/router';
+import { PASSWORD_MIN_LENGTH, checkPassword } from '../../lib/passwordPolicy';
+import { updatePassword } from '../../services/authService';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+interface ResetPasswordScreenProps {
+  // Whether the reset link signed the user in
+  hasSession: boolean;
+  onDone: () => void;
+}
+
+/**
+ * ResetPasswordScreen Component
+ *
+ * Opened from a password reset email. Supabase signs the user in from the link,
+ * so all that's left is choosing the new password.
+ */
+const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ hasSession, onDone }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match. Please try again.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await updatePassword(password);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password. Please try again.');
+      console.error('Password reset error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center relative z-20 px-4">
+      <Card className="w-full max-w-md p-8 space-y-6 border-slate-700 bg-slate-900/80">
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-bold text-white">Choose a New Password</h1>
+          <p className="text-slate-400 text-sm">
+            {hasSession ? 'Pick a password you don\'t use anywhere else' : 'This reset link has expired or was already used'}
+          </p>
+        </div>
+
+        {hasSession ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+            <Input
+              label="New Password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+              autoComplete="new-password"
+              required
+              disabled={loading}
+            />
+            <PasswordStrengthMeter password={password} />
+            <Input
+              label="Confirm Password"
+              type="password"
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              required
+              disabled={loading}
+            />
+            <Button className="w-full" type="submit" disabled={loading || !checkPassword(password).valid}>
+              {loading ? 'Saving...' : 'Save Password & Continue'}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-slate-400 text-center">
+            Request a new one from the login page with "Forgot password?".
+          </p>
+        )}
+
+        <div className="text-center">
+          <Link to="/admin/login" className="text-sm text-indigo-400 hover:text-indigo-300">Back to Login</Link>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPasswordScreen;
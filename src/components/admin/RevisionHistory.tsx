@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, History, RotateCcw, X } from 'lucide-react';
+import { Revision, RevisionEntityType } from '../../../types';
+import { getRevisions } from '../../services/revisionService';
+import { diffLines, fieldToText } from '../../lib/textDiff';
+import { Button, Card } from '../../../components/ui/Components';
+
+export interface RevisionField {
+  key: string;
+  label: string;
+}
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId: string;
+  // Snapshot fields to compare and restore, in display order
+  fields: RevisionField[];
+  onRestore: (snapshot: Record<string, any>) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * RevisionHistory Component
+ *
+ * History panel for the admin editors. Lists every saved version of a post, project or profile,
+ * shows a line diff between any two versions, and restores a version with one click.
+ * Restoring saves the old version as a new revision, so nothing in the history is ever lost.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entityType, entityId, fields, onRestore, onClose }) => {
+  // --- State Management ---
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    loadRevisions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entityType, entityId]);
+
+  /**
+   * Fetches the history and selects the latest version, compared against the one before it
+   */
+  const loadRevisions = async () => {
+    setLoading(true);
+    const data = await getRevisions(entityType, entityId);
+    setRevisions(data);
+    setSelectedId(data[0]?.id || null);
+    setCompareId(data[1]?.id || null);
+    setLoading(false);
+  };
+
+  const selectRevision = (id: string) => {
+    const index = revisions.findIndex(r => r.id === id);
+    setSelectedId(id);
+    setCompareId(revisions[index + 1]?.id || null);
+  };
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const compare = revisions.find(r => r.id === compareId) || null;
+
+  // Per-field diffs from the comparison version to the selected one; unchanged fields are skipped
+  const fieldDiffs = useMemo(() => {
+    if (!selected) return [];
+    return fields
+      .map(field => {
+        const before = fieldToText(compare?.snapshot[field.key]);
+        const after = fieldToText(selected.snapshot[field.key]);
+        return { field, changed: before !== after, lines: diffLines(before, after) };
+      })
+      .filter(diff => diff.changed);
+  }, [selected, compare, fields]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore the version from ${new Date(selected.created_at).toLocaleString()}? Unsaved changes in the editor will be replaced.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.snapshot);
+      await loadRevisions();
+    } catch (err: any) {
+      console.error('Error restoring revision:', err);
+      alert(`Error restoring revision: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-4 border-slate-700">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 font-medium text-white">
+          <History className="w-4 h-4 text-indigo-400" /> Revision History
+        </h4>
+        <button type="button" onClick={onClose} className="text-slate-400 hover:text-white" aria-label="Close history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-indigo-500 animate-spin mr-3" />
+          <span className="text-slate-400">Loading history...</span>
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No revisions yet. A revision is saved every time you save changes.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {/* Revision List */}
+          <ul className="space-y-1 max-h-96 overflow-y-auto">
+            {revisions.map((revision, idx) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => selectRevision(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                    revision.id === selectedId ? 'bg-indigo-600/20 text-white border border-indigo-500/50' : 'text-slate-400 hover:bg-white/5 border border-transparent'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span>{new Date(revision.created_at).toLocaleString()}</span>
+                    {idx === 0 && <span className="text-xs text-green-400">Current</span>}
+                  </div>
+                  {revision.created_by && <div className="text-xs text-slate-500 truncate">{revision.created_by}</div>}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff View */}
+          <div className="md:col-span-2 space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+              <span>Compare with</span>
+              <select
+                value={compareId || ''}
+                onChange={e => setCompareId(e.target.value || null)}
+                className="h-8 rounded-md border border-slate-700 bg-slate-900/50 px-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">(nothing)</option>
+                {revisions.filter(r => r.id !== selectedId).map(r => (
+                  <option key={r.id} value={r.id}>{new Date(r.created_at).toLocaleString()}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-3">
+              {fieldDiffs.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">No differences.</p>
+              ) : (
+                fieldDiffs.map(({ field, lines }) => (
+                  <div key={field.key}>
+                    <div className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-1">{field.label}</div>
+                    <pre className="rounded-md border border-slate-800 bg-slate-950/50 p-2 text-xs font-mono whitespace-pre-wrap break-words">
+                      {lines.map((line, idx) => (
+                        <div
+                          key={idx}
+                          className={
+                            line.type === 'added' ? 'bg-green-900/30 text-green-300' :
+                            line.type === 'removed' ? 'bg-red-900/30 text-red-300 line-through' :
+                            'text-slate-500'
+                          }
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="button" variant="secondary" onClick={handleRestore} disabled={!selected || isRestoring || selected.id === revisions[0].id}>
+                {isRestoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                Restore This Version
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RevisionHistory;
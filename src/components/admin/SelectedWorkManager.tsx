@@ -1,17 +1,75 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Loader2, X, Upload } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Edit, Trash2, Loader2, X, Upload, History, GripVertical, ChevronUp, ChevronDown, Star, Images } from 'lucide-react';
 import { Project } from '../../../types';
-import { getAdminProjects, createProject, updateProject, deleteProject } from '../../services/adminService';
-import { uploadProjectImage } from '../../services/storageService';
+import { getProjects, createProject, updateProject, reorderProjects, deleteProject } from '../../services/projectRepository';
+import { uploadProjectImageSet } from '../../services/storageService';
+import { MediaItem, releaseFiles } from '../../services/mediaService';
 import { Button, Input, Textarea, Card } from '../../../components/ui/Components';
+import DraftRestoreBanner from './DraftRestoreBanner';
+import RevisionHistory, { RevisionField } from './RevisionHistory';
+import { useDraftAutosave, loadDraft, clearDraft, StoredDraft } from '../../hooks/useDraftAutosave';
+import { slugify } from '../../lib/slug';
+import { getProjectTags, getProjectCategories } from '../../lib/taxonomy';
+import { moveItem } from '../../lib/projectOrder';
+import TagInput from './TagInput';
+import CaseStudyFields from './CaseStudyFields';
+import MediaPicker from './MediaPicker';
+
+// Fields compared and restored by the revision history panel
+const REVISION_FIELDS: RevisionField[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'Slug' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'image_url', label: 'Image URL' },
+  { key: 'featured', label: 'Featured' },
+  { key: 'role', label: 'Role' },
+  { key: 'timeline', label: 'Timeline' },
+  { key: 'team', label: 'Team' },
+  { key: 'outcomes', label: 'Outcomes' },
+  { key: 'links', label: 'Links' },
+  { key: 'body', label: 'Write-up' },
+  { key: 'gallery', label: 'Gallery' },
+];
+
+/**
+ * The case-study fields as saved: blank text becomes null and incomplete list rows are dropped
+ */
+const caseStudyPayload = (project: Partial<Project>) => ({
+  body: project.body?.trim() ? project.body : null,
+  role: project.role?.trim() || null,
+  timeline: project.timeline?.trim() || null,
+  team: project.team?.trim() || null,
+  outcomes: (project.outcomes || []).filter(outcome => outcome.value.trim() && outcome.label.trim()),
+  links: (project.links || []).filter(link => link.url.trim()),
+  gallery: project.gallery || [],
+});
+
+/**
+ * The images a project shows (cover and gallery), to find the ones an edit stopped using
+ */
+const projectImageUrls = (project?: Partial<Project> | null): string[] =>
+  project ? [project.image_url || '', ...(project.gallery || []).map(image => image.url)].filter(Boolean) : [];
+
+interface SelectedWorkManagerProps {
+  /** Reports whether the project form has unsaved changes */
+  onDirtyChange?: (dirty: boolean) => void;
+  /** Lists the projects without creating, editing, ordering or deleting */
+  readOnly?: boolean;
+}
 
 /**
  * SelectedWorkManager Component
  * 
- * Full CRUD interface for managing projects in the selected_work table.
+ * Full CRUD interface for managing projects through the project repository.
  * Provides create, read, update, and delete operations with real-time list updates.
+ * In-progress edits are autosaved as drafts and can be restored when the form reopens.
+ * The list sets the public order: drag a project by its handle, or focus the handle and use
+ * the arrow keys (or the move buttons). Starred projects are featured at the top of the grid.
+ * Each project can also carry a case study (write-up, outcomes, links and gallery) for its page.
  */
-const SelectedWorkManager: React.FC = () => {
+const SelectedWorkManager: React.FC<SelectedWorkManagerProps> = ({ onDirtyChange, readOnly }) => {
   // --- State Management ---
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
@@ -22,6 +80,37 @@ const SelectedWorkManager: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // Snapshot of the project as opened, used to detect unsaved changes
+  const [baseline, setBaseline] = useState<string>('{}');
+  const [pendingDraft, setPendingDraft] = useState<StoredDraft<Partial<Project>> | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  // --- Reordering ---
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isSavingOrder, setIsSavingOrder] = useState(false);
+  // Read out by screen readers after a move
+  const [orderAnnouncement, setOrderAnnouncement] = useState('');
+  // Handle to focus once a keyboard move has re-rendered the list
+  const focusHandleId = useRef<string | null>(null);
+
+  // Existing terms, offered as completions in the form
+  const tagSuggestions = getProjectTags(projects).map(term => term.name);
+  const categorySuggestions = getProjectCategories(projects).map(term => term.name);
+
+  // --- Draft Autosave ---
+  const draftKey = `project:${currentProject.id || 'new'}`;
+  const isDirty = isFormOpen && (JSON.stringify(currentProject) !== baseline || !!selectedFile);
+  const autosavedAt = useDraftAutosave(isFormOpen ? draftKey : null, currentProject, isDirty);
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  // Nothing is unsaved once this manager is gone (e.g. after leaving the tab)
+  useEffect(() => {
+    return () => onDirtyChange?.(false);
+  }, [onDirtyChange]);
 
   // --- Initial Data Fetch ---
   useEffect(() => {
@@ -36,7 +125,7 @@ const SelectedWorkManager: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await getAdminProjects();
+      const data = await getProjects();
       setProjects(data || []);
     } catch (err) {
       console.error('Failed to load projects:', err);
@@ -47,32 +136,167 @@ const SelectedWorkManager: React.FC = () => {
     }
   };
 
+  // Keep focus on the moved project's handle so arrow keys can keep moving it
+  useEffect(() => {
+    if (!focusHandleId.current) return;
+    document.querySelector<HTMLButtonElement>(`[data-reorder-handle="${focusHandleId.current}"]`)?.focus();
+    focusHandleId.current = null;
+  }, [projects]);
+
   /**
-   * Opens the form for creating a new project
+   * Moves a project and saves the new order, putting the old order back if saving fails
+   * @param from - Current index of the project
+   * @param to - Index it should end up at
    */
-  const handleNewProject = () => {
-    setCurrentProject({});
+  const handleMoveProject = async (from: number, to: number) => {
+    if (to < 0 || to >= projects.length || from === to || isSavingOrder) return;
+
+    const previous = projects;
+    const next = moveItem(projects, from, to);
+    setProjects(next);
+    setOrderAnnouncement(`${projects[from].title} moved to position ${to + 1} of ${projects.length}.`);
+
+    setIsSavingOrder(true);
+    try {
+      await reorderProjects(next.map(project => project.id));
+    } catch (err: any) {
+      console.error('Error saving project order:', err);
+      setProjects(previous);
+      setOrderAnnouncement('The new order could not be saved.');
+      alert(`Error saving order: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsSavingOrder(false);
+    }
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: projects.length - 1,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    focusHandleId.current = projects[index].id;
+    handleMoveProject(index, targets[e.key]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const from = projects.findIndex(project => project.id === draggingId);
+    if (from >= 0 && dropIndex !== null) {
+      // Dropping below itself: the gap it leaves shifts the target up by one
+      handleMoveProject(from, dropIndex > from ? dropIndex - 1 : dropIndex);
+    }
+    setDraggingId(null);
+    setDropIndex(null);
+  };
+
+  /**
+   * Features or unfeatures a project
+   */
+  const handleToggleFeatured = async (project: Project) => {
+    try {
+      const updated = await updateProject(project.id, { featured: !project.featured });
+      setProjects(current => current.map(p => (p.id === project.id ? updated : p)));
+    } catch (err: any) {
+      console.error('Error updating project:', err);
+      alert(`Error updating project: ${err?.message || 'Unknown error'}`);
+    }
+  };
+
+  /**
+   * Opens the form with the given project, offering to restore an autosaved draft if one differs
+   */
+  const openForm = (project: Partial<Project>) => {
+    const draft = loadDraft<Partial<Project>>(`project:${project.id || 'new'}`);
+    setCurrentProject(project);
+    setBaseline(JSON.stringify(project));
+    setPendingDraft(draft && JSON.stringify(draft.value) !== JSON.stringify(project) ? draft : null);
     setError(null);
     setSelectedFile(null);
-    setImagePreview(null);
+    setImagePreview(project.image_url || null);
+    setShowHistory(false);
     setIsFormOpen(true);
   };
 
+  /**
+   * Opens the form for creating a new project
+   */
+  const handleNewProject = () => {
+    openForm({});
+  };
+
   /**
    * Opens the form for editing an existing project
    */
   const handleEditProject = (project: Project) => {
-    setCurrentProject(project);
-    setError(null);
+    openForm(project);
+  };
+
+  /**
+   * Restores the autosaved draft into the form
+   */
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setCurrentProject(pendingDraft.value);
+    setImagePreview(pendingDraft.value.image_url || null);
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft(draftKey);
+    setPendingDraft(null);
+  };
+
+  /**
+   * Saves an earlier revision over the project being edited and reloads it into the form
+   */
+  const handleRestoreRevision = async (snapshot: Record<string, any>) => {
+    if (!currentProject.id) return;
+    const restored = await updateProject(currentProject.id, {
+      title: snapshot.title,
+      ...(snapshot.slug ? { slug: snapshot.slug } : {}),
+      description: snapshot.description,
+      category: snapshot.category || '',
+      image_url: snapshot.image_url || '',
+      image_set: snapshot.image_set ?? null,
+      tags: snapshot.tags || [],
+      featured: snapshot.featured ?? false,
+      body: snapshot.body || null,
+      role: snapshot.role || null,
+      timeline: snapshot.timeline || null,
+      team: snapshot.team || null,
+      outcomes: snapshot.outcomes || [],
+      links: snapshot.links || [],
+      gallery: snapshot.gallery || [],
+    });
+    clearDraft(draftKey);
+    setPendingDraft(null);
     setSelectedFile(null);
-    setImagePreview(project.image_url || null);
-    setIsFormOpen(true);
+    setCurrentProject(restored);
+    setBaseline(JSON.stringify(restored));
+    setImagePreview(restored.image_url || null);
+    await loadProjects();
+  };
+
+  /**
+   * Cancels editing, asking first if there are unsaved changes
+   */
+  const handleCancelForm = () => {
+    if (isDirty && !confirm('Discard unsaved changes to this project?')) {
+      return;
+    }
+    clearDraft(draftKey);
+    handleCloseForm();
   };
 
   /**
    * Closes the form and resets state
    */
   const handleCloseForm = () => {
+    setPendingDraft(null);
     setIsFormOpen(false);
     setCurrentProject({});
     setError(null);
@@ -111,6 +335,16 @@ const SelectedWorkManager: React.FC = () => {
     }
   };
 
+  /**
+   * Uses an image from the media library as the project image
+   */
+  const handleSelectMedia = (item: MediaItem) => {
+    setCurrentProject({ ...currentProject, image_url: item.url, image_set: item.imageSet });
+    setSelectedFile(null);
+    setImagePreview(item.url);
+    setShowMediaPicker(false);
+  };
+
   /**
    * Handles form submission for both create and update operations
    */
@@ -128,21 +362,16 @@ const SelectedWorkManager: React.FC = () => {
 
     try {
       let imageUrl = currentProject.image_url || '';
+      let imageSet = currentProject.image_set ?? null;
 
       // Upload image if a new file is selected
       if (selectedFile) {
         setIsUploading(true);
         try {
-          const uploadedUrl = await uploadProjectImage(selectedFile, currentProject.id);
-          
-          if (!uploadedUrl) {
-            setError('Failed to upload image. Please try again.');
-            setIsUploading(false);
-            setIsSubmitting(false);
-            return;
-          }
-
-          imageUrl = uploadedUrl;
+          // Resized to several widths and formats for the public pages
+          const uploaded = await uploadProjectImageSet(selectedFile, currentProject.id);
+          imageUrl = uploaded.url;
+          imageSet = uploaded.imageSet;
         } catch (uploadError: any) {
           console.error('Image upload error:', uploadError);
           setError(uploadError?.message || 'Failed to upload image. Please check that the storage bucket exists and has proper permissions.');
@@ -161,26 +390,40 @@ const SelectedWorkManager: React.FC = () => {
         // Update existing project
         result = await updateProject(currentProject.id!, {
           title: currentProject.title,
+          // Projects saved before slugs existed get one from their title
+          slug: currentProject.slug || currentProject.title,
           description: currentProject.description,
           category: currentProject.category || '',
           image_url: imageUrl,
+          image_set: imageSet,
           tags: currentProject.tags || [],
+          featured: currentProject.featured ?? false,
+          ...caseStudyPayload(currentProject),
         });
       } else {
         // Create new project
         result = await createProject({
           title: currentProject.title,
+          slug: currentProject.slug,
           description: currentProject.description,
           category: currentProject.category || '',
           image_url: imageUrl,
+          image_set: imageSet,
           tags: currentProject.tags || [],
+          featured: currentProject.featured ?? false,
+          ...caseStudyPayload(currentProject),
         });
       }
 
       // If we get here, result should be non-null (errors are thrown)
       if (result) {
+        // Images the edit replaced or removed are deleted unless something else uses them
+        const keptUrls = projectImageUrls(result);
+        releaseFiles(projectImageUrls(projects.find(p => p.id === result!.id)).filter(url => !keptUrls.includes(url)));
+
         // Success - reload the project list
         await loadProjects();
+        clearDraft(draftKey);
         handleCloseForm();
       } else {
         setError(isEdit ? 'Failed to update project: No data returned' : 'Failed to create project: No data returned');
@@ -204,16 +447,14 @@ const SelectedWorkManager: React.FC = () => {
     }
 
     try {
-      const success = await deleteProject(id);
-      if (success) {
-        // Success - reload the project list
-        await loadProjects();
-      } else {
-        alert('Failed to delete project. Please try again.');
-      }
-    } catch (err) {
+      const deleted = projects.find(p => p.id === id);
+      await deleteProject(id);
+      releaseFiles(projectImageUrls(deleted));
+      // Success - reload the project list
+      await loadProjects();
+    } catch (err: any) {
       console.error('Error deleting project:', err);
-      alert('An unexpected error occurred while deleting the project.');
+      alert(`Error deleting project: ${err?.message || 'Unknown error'}`);
     }
   };
 
@@ -235,11 +476,13 @@ const SelectedWorkManager: React.FC = () => {
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold text-white">Selected Work</h2>
-          <p className="text-slate-400 text-sm mt-1">Manage your portfolio projects</p>
+          <p className="text-slate-400 text-sm mt-1">{readOnly ? 'Your portfolio projects' : 'Manage your portfolio projects'}</p>
         </div>
-        <Button onClick={handleNewProject}>
-          <Plus className="w-4 h-4 mr-2" /> New Project
-        </Button>
+        {!readOnly && (
+          <Button onClick={handleNewProject}>
+            <Plus className="w-4 h-4 mr-2" /> New Project
+          </Button>
+        )}
       </div>
 
       {/* Error Message */}
@@ -255,68 +498,150 @@ const SelectedWorkManager: React.FC = () => {
           <p className="text-slate-400">No projects yet. Create your first project to get started.</p>
         </Card>
       ) : (
-        <div className="grid gap-4">
-          {projects.map(project => (
-            <Card 
-              key={project.id} 
-              className="p-4 flex items-center justify-between group hover:border-indigo-500/30 transition-colors"
-            >
-              <div className="flex items-center gap-4 flex-1 min-w-0">
-                <div className="w-16 h-16 rounded bg-slate-800 overflow-hidden flex-shrink-0">
-                  {project.image_url ? (
-                    <img 
-                      src={project.image_url} 
-                      alt={project.title}
-                      className="w-full h-full object-cover" 
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center text-slate-600 text-xs">
-                      No Image
-                    </div>
+        <div className="space-y-2">
+          {!readOnly && (
+            <p id="reorder-instructions" className="text-xs text-slate-500">
+              Drag projects by their handle to set the order on the public site, or focus a handle and use the arrow keys.
+            </p>
+          )}
+          <div aria-live="polite" className="sr-only">{orderAnnouncement}</div>
+          <ul
+            className="grid gap-4"
+            onDragOver={e => { if (draggingId) e.preventDefault(); }}
+            onDrop={handleDrop}
+          >
+            {projects.map((project, index) => (
+              <li
+                key={project.id}
+                onDragOver={e => {
+                  if (!draggingId) return;
+                  e.preventDefault();
+                  // Drop before or after this project, depending on which half the pointer is over
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                }}
+                className={`relative ${draggingId === project.id ? 'opacity-50' : ''}`}
+              >
+                {draggingId && dropIndex === index && (
+                  <div className="absolute -top-2.5 left-0 right-0 h-0.5 bg-indigo-500 rounded" />
+                )}
+                {draggingId && dropIndex === projects.length && index === projects.length - 1 && (
+                  <div className="absolute -bottom-2.5 left-0 right-0 h-0.5 bg-indigo-500 rounded" />
+                )}
+                <Card 
+                  className="p-4 flex items-center justify-between group hover:border-indigo-500/30 transition-colors"
+                >
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      draggable={!isSavingOrder}
+                      onDragStart={e => {
+                        setDraggingId(project.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', project.id);
+                      }}
+                      onDragEnd={() => { setDraggingId(null); setDropIndex(null); }}
+                      onKeyDown={e => handleHandleKeyDown(e, index)}
+                      data-reorder-handle={project.id}
+                      aria-label={`Reorder ${project.title}, position ${index + 1} of ${projects.length}`}
+                      aria-describedby="reorder-instructions"
+                      className="mr-3 p-1 rounded text-slate-600 hover:text-slate-300 cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <GripVertical className="w-5 h-5" />
+                    </button>
                   )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-bold text-white truncate">{project.title}</h4>
-                  <div className="text-xs text-slate-500 mt-1">
-                    {project.category} • {new Date(project.created_at).toLocaleDateString()}
-                  </div>
-                  {project.tags && project.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-1 mt-2">
-                      {project.tags.slice(0, 3).map((tag, idx) => (
-                        <span 
-                          key={idx}
-                          className="text-xs px-2 py-0.5 bg-slate-800 text-slate-400 rounded border border-slate-700"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                      {project.tags.length > 3 && (
-                        <span className="text-xs text-slate-500">+{project.tags.length - 3} more</span>
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-16 h-16 rounded bg-slate-800 overflow-hidden flex-shrink-0">
+                      {project.image_url ? (
+                        <img 
+                          src={project.image_url} 
+                          alt={project.title}
+                          className="w-full h-full object-cover" 
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-slate-600 text-xs">
+                          No Image
+                        </div>
                       )}
                     </div>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-bold text-white truncate flex items-center gap-2">
+                        {project.title}
+                        {project.featured && (
+                          <span className="text-xs font-normal bg-amber-900/30 text-amber-300 px-2 py-0.5 rounded border border-amber-800">Featured</span>
+                        )}
+                      </h4>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {project.category} • {new Date(project.created_at).toLocaleDateString()}
+                      </div>
+                      {project.tags && project.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {project.tags.slice(0, 3).map((tag, idx) => (
+                            <span 
+                              key={idx}
+                              className="text-xs px-2 py-0.5 bg-slate-800 text-slate-400 rounded border border-slate-700"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                          {project.tags.length > 3 && (
+                            <span className="text-xs text-slate-500">+{project.tags.length - 3} more</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ml-4">
+                      <Button
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleMoveProject(index, index - 1)}
+                        disabled={index === 0 || isSavingOrder}
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleMoveProject(index, index + 1)}
+                        disabled={index === projects.length - 1 || isSavingOrder}
+                        title="Move down"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className={`h-8 w-8 p-0 ${project.featured ? 'text-amber-300' : ''}`}
+                        onClick={() => handleToggleFeatured(project)}
+                        title={project.featured ? 'Unfeature project' : 'Feature project'}
+                        aria-pressed={project.featured}
+                      >
+                        <Star className={`w-4 h-4 ${project.featured ? 'fill-current' : ''}`} />
+                      </Button>
+                      <Button 
+                        variant="secondary" 
+                        className="h-8 w-8 p-0" 
+                        onClick={() => handleEditProject(project)}
+                        title="Edit project"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button 
+                        variant="danger" 
+                        className="h-8 w-8 p-0" 
+                        onClick={() => handleDeleteProject(project.id)}
+                        title="Delete project"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   )}
-                </div>
-              </div>
-              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity ml-4">
-                <Button 
-                  variant="secondary" 
-                  className="h-8 w-8 p-0" 
-                  onClick={() => handleEditProject(project)}
-                  title="Edit project"
-                >
-                  <Edit className="w-4 h-4" />
-                </Button>
-                <Button 
-                  variant="danger" 
-                  className="h-8 w-8 p-0" 
-                  onClick={() => handleDeleteProject(project.id)}
-                  title="Delete project"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
-              </div>
-            </Card>
-          ))}
+                </Card>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -327,18 +652,50 @@ const SelectedWorkManager: React.FC = () => {
             <div className="p-6 space-y-4">
               {/* Form Header */}
               <div className="flex justify-between items-center">
-                <h3 className="text-lg font-medium text-white">
-                  {currentProject.id ? 'Edit Project' : 'Create New Project'}
-                </h3>
-                <button
-                  onClick={handleCloseForm}
-                  className="p-2 hover:bg-slate-800 rounded-lg transition-colors text-slate-400 hover:text-white"
-                  disabled={isSubmitting}
-                >
-                  <X className="w-5 h-5" />
-                </button>
+                <div>
+                  <h3 className="text-lg font-medium text-white">
+                    {currentProject.id ? 'Edit Project' : 'Create New Project'}
+                  </h3>
+                  {autosavedAt && (
+                    <span className="text-xs text-slate-500">Draft autosaved {new Date(autosavedAt).toLocaleTimeString()}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {currentProject.id && (
+                    <Button type="button" variant="ghost" className="h-8" onClick={() => setShowHistory(!showHistory)}>
+                      <History className="w-4 h-4 mr-2" /> History
+                    </Button>
+                  )}
+                  <button
+                    onClick={handleCancelForm}
+                    className="p-2 hover:bg-slate-800 rounded-lg transition-colors text-slate-400 hover:text-white"
+                    disabled={isSubmitting}
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
 
+              {/* Revision History */}
+              {showHistory && currentProject.id && (
+                <RevisionHistory
+                  entityType="projects"
+                  entityId={currentProject.id}
+                  fields={REVISION_FIELDS}
+                  onRestore={handleRestoreRevision}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+
+              {/* Draft Recovery */}
+              {pendingDraft && (
+                <DraftRestoreBanner
+                  savedAt={pendingDraft.savedAt}
+                  onRestore={handleRestoreDraft}
+                  onDiscard={handleDiscardDraft}
+                />
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="p-3 rounded-md bg-red-500/10 border border-red-500/50">
@@ -362,10 +719,23 @@ const SelectedWorkManager: React.FC = () => {
                     value={currentProject.category || ''}
                     onChange={e => setCurrentProject({ ...currentProject, category: e.target.value })}
                     placeholder="e.g., Product, Creative Work"
+                    list="project-category-suggestions"
                     disabled={isSubmitting}
                   />
+                  <datalist id="project-category-suggestions">
+                    {categorySuggestions.map(category => <option key={category} value={category} />)}
+                  </datalist>
                 </div>
 
+                <Input
+                  label="Slug"
+                  value={currentProject.slug || ''}
+                  onChange={e => setCurrentProject({ ...currentProject, slug: e.target.value })}
+                  onBlur={() => setCurrentProject({ ...currentProject, slug: slugify(currentProject.slug || '') })}
+                  placeholder="Generated from the title (used in /work/your-slug)"
+                  disabled={isSubmitting}
+                />
+
                 <Textarea
                   label="Description *"
                   value={currentProject.description || ''}
@@ -397,7 +767,22 @@ const SelectedWorkManager: React.FC = () => {
                           </span>
                         </div>
                       </label>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => setShowMediaPicker(true)}
+                        disabled={isSubmitting || isUploading}
+                      >
+                        <Images className="w-4 h-4 mr-2" /> Media Library
+                      </Button>
                     </div>
+
+                    {showMediaPicker && (
+                      <MediaPicker
+                        onSelect={handleSelectMedia}
+                        onClose={() => setShowMediaPicker(false)}
+                      />
+                    )}
                     
                     {/* Image Preview */}
                     {imagePreview && (
@@ -417,17 +802,33 @@ const SelectedWorkManager: React.FC = () => {
                   </div>
                 </div>
 
-                <Input
-                  label="Tags (comma separated)"
-                  placeholder="React, Next.js, Design"
-                  value={currentProject.tags?.join(', ') || ''}
-                  onChange={e => {
-                    const tags = e.target.value
-                      .split(',')
-                      .map(s => s.trim())
-                      .filter(s => s.length > 0);
-                    setCurrentProject({ ...currentProject, tags });
-                  }}
+                <TagInput
+                  label="Tags"
+                  placeholder="Type a tag and press Enter"
+                  value={currentProject.tags || []}
+                  onChange={tags => setCurrentProject({ ...currentProject, tags })}
+                  suggestions={tagSuggestions}
+                  disabled={isSubmitting}
+                />
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="project-featured"
+                    checked={!!currentProject.featured}
+                    onChange={e => setCurrentProject({ ...currentProject, featured: e.target.checked })}
+                    className="w-4 h-4 rounded border-slate-700 bg-slate-900 text-indigo-600 focus:ring-indigo-500"
+                    disabled={isSubmitting}
+                  />
+                  <label htmlFor="project-featured" className="text-sm text-slate-300">
+                    Featured (shown as a large card at the top of Selected Work)
+                  </label>
+                </div>
+
+                <CaseStudyFields
+                  value={currentProject}
+                  onChange={caseStudy => setCurrentProject({ ...currentProject, ...caseStudy })}
+                  projectId={currentProject.id}
                   disabled={isSubmitting}
                 />
 
@@ -436,7 +837,7 @@ const SelectedWorkManager: React.FC = () => {
                   <Button
                     type="button"
                     variant="ghost"
-                    onClick={handleCloseForm}
+                    onClick={handleCancelForm}
                     disabled={isSubmitting}
                   >
                     Cancel
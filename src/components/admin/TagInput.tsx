@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTags, termSlug } from '../../lib/taxonomy';
+
+interface TagInputProps {
+  label?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered as completions
+  suggestions: string[];
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * TagInput Component
+ *
+ * Tag editor with autocomplete from the existing taxonomy. Tags are added with Enter,
+ * comma or Tab and shown as removable chips; Backspace in the empty field removes the last one.
+ * Picking a suggestion reuses its spelling, so the same tag isn't created twice.
+ */
+const TagInput: React.FC<TagInputProps> = ({ label, value, onChange, suggestions, placeholder, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  const taken = new Set(value.map(termSlug));
+  const matches = query.trim()
+    ? suggestions
+        .filter(tag => !taken.has(termSlug(tag)) && tag.toLowerCase().includes(query.trim().toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (tag: string) => {
+    // Typing an existing tag in another case reuses the existing spelling
+    const existing = suggestions.find(s => termSlug(s) === termSlug(tag));
+    onChange(normalizeTags([...value, existing || tag]));
+    setQuery('');
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && query.trim())) {
+      if (!query.trim()) return;
+      e.preventDefault();
+      addTag(matches[highlighted] || query);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    } else if (e.key === 'Backspace' && !query && value.length) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      {label && <label className="text-sm font-medium text-slate-300">{label}</label>}
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 min-h-10 w-full rounded-md border border-slate-700 bg-slate-900/50 px-3 py-2 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500">
+          {value.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-indigo-500/10 text-indigo-300 border border-indigo-500/20">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="text-indigo-300/70 hover:text-white"
+                aria-label={`Remove ${tag}`}
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            value={query}
+            onChange={e => { setQuery(e.target.value.replace(',', '')); setHighlighted(0); }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setFocused(true)}
+            // Add whatever was typed when leaving the field
+            onBlur={() => { setFocused(false); if (query.trim()) addTag(query); }}
+            placeholder={value.length ? '' : placeholder}
+            className="flex-1 min-w-[120px] bg-transparent text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none disabled:cursor-not-allowed"
+            disabled={disabled}
+            role="combobox"
+            aria-expanded={focused && matches.length > 0}
+            aria-autocomplete="list"
+          />
+        </div>
+
+        {/* Suggestions */}
+        {focused && matches.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full rounded-md border border-slate-700 bg-slate-900 shadow-xl py-1" role="listbox">
+            {matches.map((tag, idx) => (
+              <li
+                key={tag}
+                role="option"
+                aria-selected={idx === highlighted}
+                // mousedown fires before the input's blur, so the click isn't lost
+                onMouseDown={e => { e.preventDefault(); addTag(tag); }}
+                onMouseEnter={() => setHighlighted(idx)}
+                className={`px-3 py-1.5 text-sm cursor-pointer ${idx === highlighted ? 'bg-indigo-500/20 text-white' : 'text-slate-300'}`}
+              >
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagInput;
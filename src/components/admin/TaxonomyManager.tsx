@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Pencil, Trash2, Merge, Check, X } from 'lucide-react';
+import { Button, Card } from '../../../components/ui/Components';
+import { getProjects } from '../../services/projectRepository';
+import {
+  renameProjectTag,
+  deleteProjectTag,
+  renameProjectCategory,
+  deleteProjectCategory,
+} from '../../services/taxonomyService';
+import { TaxonomyTerm, getProjectTags, getProjectCategories, termSlug } from '../../lib/taxonomy';
+
+interface TermListProps {
+  title: string;
+  description: string;
+  // Singular noun for messages, e.g. "tag"
+  noun: string;
+  terms: TaxonomyTerm[];
+  onRename: (from: string, to: string) => Promise<number>;
+  onDelete: (term: string) => Promise<number>;
+  onChanged: () => Promise<void>;
+  // Hides the actions, for users who can't edit projects
+  readOnly?: boolean;
+}
+
+/**
+ * One taxonomy (tags or categories) with rename, merge and delete actions per term
+ */
+const TermList: React.FC<TermListProps> = ({ title, description, noun, terms, onRename, onDelete, onChanged, readOnly }) => {
+  const [editing, setEditing] = useState<{ slug: string; mode: 'rename' | 'merge'; value: string } | null>(null);
+  const [busySlug, setBusySlug] = useState<string | null>(null);
+
+  const run = async (term: TaxonomyTerm, action: () => Promise<number>, done: string) => {
+    setBusySlug(term.slug);
+    try {
+      const updated = await action();
+      setEditing(null);
+      await onChanged();
+      alert(`${done} (${updated} project${updated === 1 ? '' : 's'} updated).`);
+    } catch (err: any) {
+      console.error(`Error updating ${noun}:`, err);
+      alert(`Error updating ${noun}: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusySlug(null);
+    }
+  };
+
+  const handleRename = (term: TaxonomyTerm, to: string) => {
+    const target = terms.find(t => t.slug === termSlug(to) && t.slug !== term.slug);
+    // Renaming onto an existing term is a merge; make sure that's intended
+    if (target && !confirm(`"${target.name}" already exists. Merge "${term.name}" into it?`)) {
+      return;
+    }
+    run(term, () => onRename(term.name, target ? target.name : to), `Renamed "${term.name}" to "${target ? target.name : to.trim()}"`);
+  };
+
+  const handleDelete = (term: TaxonomyTerm) => {
+    if (!confirm(`Remove the ${noun} "${term.name}" from ${term.count} project${term.count === 1 ? '' : 's'}? This cannot be undone.`)) {
+      return;
+    }
+    run(term, () => onDelete(term.name), `Deleted "${term.name}"`);
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-white">{title}</h3>
+        <p className="text-sm text-slate-500">{description}</p>
+      </div>
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4">No {noun}s yet. They appear here once a project uses them.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800">
+          {terms.map(term => {
+            const isEditing = editing?.slug === term.slug;
+            const isBusy = busySlug === term.slug;
+
+            return (
+              <li key={term.slug} className="py-3 flex items-center gap-3">
+                {isEditing && editing.mode === 'rename' ? (
+                  <form
+                    className="flex-1 flex items-center gap-2"
+                    onSubmit={e => { e.preventDefault(); handleRename(term, editing.value); }}
+                  >
+                    <input
+                      autoFocus
+                      value={editing.value}
+                      onChange={e => setEditing({ ...editing, value: e.target.value })}
+                      className="flex h-9 w-full rounded-md border border-slate-700 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                      aria-label={`New name for ${term.name}`}
+                    />
+                    <Button type="submit" className="h-9 w-9 p-0" disabled={isBusy || !editing.value.trim()} title="Save">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" className="h-9 w-9 p-0" onClick={() => setEditing(null)} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                ) : isEditing && editing.mode === 'merge' ? (
+                  <form
+                    className="flex-1 flex items-center gap-2"
+                    onSubmit={e => { e.preventDefault(); if (editing.value) handleRename(term, editing.value); }}
+                  >
+                    <span className="text-sm text-slate-300 whitespace-nowrap">Merge "{term.name}" into</span>
+                    <select
+                      autoFocus
+                      value={editing.value}
+                      onChange={e => setEditing({ ...editing, value: e.target.value })}
+                      className="h-9 flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 text-sm text-slate-100 focus:border-indigo-500 focus:outline-none"
+                    >
+                      <option value="">Choose a {noun}...</option>
+                      {terms.filter(t => t.slug !== term.slug).map(t => (
+                        <option key={t.slug} value={t.name}>{t.name}</option>
+                      ))}
+                    </select>
+                    <Button type="submit" className="h-9 w-9 p-0" disabled={isBusy || !editing.value} title="Merge">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" className="h-9 w-9 p-0" onClick={() => setEditing(null)} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <span className="flex-1 text-slate-200">{term.name}</span>
+                    <span className="text-xs font-mono text-slate-500">{term.count} project{term.count === 1 ? '' : 's'}</span>
+                    {readOnly ? null : isBusy ? (
+                      <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />
+                    ) : (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" className="h-8 w-8 p-0" title="Rename" onClick={() => setEditing({ slug: term.slug, mode: 'rename', value: term.name })}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          title="Merge into another"
+                          disabled={terms.length < 2}
+                          onClick={() => setEditing({ slug: term.slug, mode: 'merge', value: '' })}
+                        >
+                          <Merge className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" className="h-8 w-8 p-0 hover:text-red-400" title="Delete" onClick={() => handleDelete(term)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+interface TaxonomyManagerProps {
+  // Lists the terms without rename, merge or delete
+  readOnly?: boolean;
+}
+
+/**
+ * TaxonomyManager Component
+ *
+ * Admin screen for the project tags and categories: see how often each term is used,
+ * and rename, merge or delete terms across all projects at once.
+ */
+const TaxonomyManager: React.FC<TaxonomyManagerProps> = ({ readOnly }) => {
+  // --- State Management ---
+  const [tags, setTags] = useState<TaxonomyTerm[]>([]);
+  const [categories, setCategories] = useState<TaxonomyTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTerms = async () => {
+    setError(null);
+    try {
+      const projects = await getProjects();
+      setTags(getProjectTags(projects));
+      setCategories(getProjectCategories(projects));
+    } catch (err: any) {
+      console.error('Error loading taxonomy:', err);
+      setError(err?.message || 'Failed to load tags and categories.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTerms();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-indigo-500 animate-spin mr-3" />
+        <span className="text-slate-400">Loading tags and categories...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <h2 className="text-2xl font-bold text-white">Tags & Categories</h2>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <TermList
+        title="Project Tags"
+        description="Shown as filters on the public Selected Work grid and as /work/tag/... pages."
+        noun="tag"
+        terms={tags}
+        onRename={renameProjectTag}
+        onDelete={deleteProjectTag}
+        onChanged={loadTerms}
+        readOnly={readOnly}
+      />
+
+      <TermList
+        title="Project Categories"
+        description="Each project has at most one category."
+        noun="category"
+        terms={categories}
+        onRename={renameProjectCategory}
+        onDelete={deleteProjectCategory}
+        onChanged={loadTerms}
+        readOnly={readOnly}
+      />
+    </div>
+  );
+};
+
+export default TaxonomyManager;
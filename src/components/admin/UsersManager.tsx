@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, UserPlus, UserX, Users } from 'lucide-react';
+import { AdminRole, AdminUser } from '../../../types';
+import { Button, Card, Input } from '../../../components/ui/Components';
+import { ROLES, roleLabel } from '../../lib/permissions';
+import { getAdminUsers, inviteAdminUser, changeAdminUserRole, revokeAdminUser } from '../../services/userService';
+
+interface UsersManagerProps {
+  // The signed-in owner
+  currentUser: AdminUser;
+}
+
+const selectClassName = 'h-10 rounded-md border border-slate-700 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50';
+
+/**
+ * UsersManager Component
+ *
+ * Owner-only list of everyone with CMS access: invite by email, change roles and revoke.
+ * Invited people finish signing up on the login page with "No, I'm new".
+ */
+const UsersManager: React.FC<UsersManagerProps> = ({ currentUser }) => {
+  // --- State Management ---
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AdminRole>('author');
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyEmail, setBusyEmail] = useState<string | null>(null);
+
+  // --- Initial Data Fetch ---
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await getAdminUsers());
+    } catch (err: any) {
+      console.error('Failed to load users:', err);
+      setError(err?.message || 'Failed to load users. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const invited = await inviteAdminUser(inviteEmail, inviteRole, currentUser);
+      setUsers(current => [...current, invited]);
+      setInviteEmail('');
+      alert(`${invited.email} can now sign in at ${window.location.origin}/admin/login by choosing "No, I'm new".`);
+    } catch (err: any) {
+      console.error('Error inviting user:', err);
+      alert(`Error inviting user: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleChangeRole = async (user: AdminUser, role: AdminRole) => {
+    if (role === user.role) return;
+    setBusyEmail(user.email);
+    try {
+      const updated = await changeAdminUserRole(user, role, currentUser);
+      setUsers(current => current.map(u => (u.email === user.email ? updated : u)));
+    } catch (err: any) {
+      console.error('Error changing role:', err);
+      alert(`Error changing role: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  const handleRevoke = async (user: AdminUser) => {
+    if (!confirm(`Revoke CMS access for ${user.email}? They lose access straight away.`)) {
+      return;
+    }
+
+    setBusyEmail(user.email);
+    try {
+      await revokeAdminUser(user, currentUser);
+      setUsers(current => current.filter(u => u.email !== user.email));
+    } catch (err: any) {
+      console.error('Error revoking access:', err);
+      alert(`Error revoking access: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  // --- Loading State ---
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-indigo-500 animate-spin mr-3" />
+        <span className="text-slate-400">Loading users...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white">Users</h2>
+        <p className="text-slate-400 text-sm mt-1">Who can sign in to the CMS, and what they can do</p>
+      </div>
+
+      {/* Invite Form */}
+      <Card className="p-6">
+        <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex-1">
+            <Input
+              label="Invite by email"
+              type="email"
+              value={inviteEmail}
+              onChange={e => setInviteEmail(e.target.value)}
+              placeholder="name@example.com"
+              required
+              disabled={isInviting}
+            />
+          </div>
+          <select
+            value={inviteRole}
+            onChange={e => setInviteRole(e.target.value as AdminRole)}
+            aria-label="Role for the invited user"
+            className={selectClassName}
+            disabled={isInviting}
+          >
+            {ROLES.map(role => (
+              <option key={role.id} value={role.id}>{role.label}</option>
+            ))}
+          </select>
+          <Button type="submit" disabled={isInviting || !inviteEmail}>
+            {isInviting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+            Invite
+          </Button>
+        </form>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-4 text-xs">
+          {ROLES.map(role => (
+            <div key={role.id} className="flex gap-2">
+              <dt className="text-slate-300 font-medium">{role.label}</dt>
+              <dd className="text-slate-500">{role.description}</dd>
+            </div>
+          ))}
+        </dl>
+      </Card>
+
+      {/* Error Message */}
+      {error && (
+        <Card className="p-4 border-red-500/50 bg-red-500/10">
+          <p className="text-red-400 text-sm">{error}</p>
+        </Card>
+      )}
+
+      {/* User List */}
+      {users.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Users className="w-8 h-8 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">No users yet.</p>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {users.map(user => {
+            const isSelf = user.email === currentUser.email;
+            const isBusy = busyEmail === user.email;
+
+            return (
+              <li key={user.email}>
+                <Card className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-white truncate">
+                      {user.email}
+                      {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      {user.invited_by ? `Invited by ${user.invited_by}` : 'Added directly'} · {new Date(user.created_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isSelf ? (
+                      <span className="text-sm text-slate-300 px-3">{roleLabel(user.role)}</span>
+                    ) : (
+                      <select
+                        value={user.role}
+                        onChange={e => handleChangeRole(user, e.target.value as AdminRole)}
+                        aria-label={`Role for ${user.email}`}
+                        className={selectClassName}
+                        disabled={isBusy}
+                      >
+                        {ROLES.map(role => (
+                          <option key={role.id} value={role.id}>{role.label}</option>
+                        ))}
+                      </select>
+                    )}
+                    <Button
+                      variant="ghost"
+                      className="h-10 w-10 p-0 hover:text-red-400"
+                      onClick={() => handleRevoke(user)}
+                      disabled={isSelf || isBusy}
+                      title={isSelf ? "You can't revoke your own access" : 'Revoke access'}
+                    >
+                      {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserX className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </Card>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UsersManager;
@@ -0,0 +1,106 @@
+import { Profile, Project, BlogPost, ContactMessage, Revision, RevisionEntityType, MediaDetails, AdminUser } from '../../types';
+
+/**
+ * Data Provider
+ *
+ * The storage backend behind DataService and the other services. Providers only
+ * store and fetch: validation, revisions, slug rules and publishing rules live in
+ * the services on top, so every backend behaves the same.
+ *
+ * - supabaseProvider: the live Supabase database and storage buckets
+ * - localProvider: everything in the browser (IndexedDB), for demos and offline work
+ */
+
+export type ProjectInput = Omit<Project, 'id' | 'created_at' | 'updated_at'>;
+export type BlogPostInput = Omit<BlogPost, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+export type ContactMessageInput = Omit<ContactMessage, 'id' | 'is_read' | 'created_at'>;
+export type StorageBucket = 'project-images' | 'resumes';
+export type MediaDetailsInput = Omit<MediaDetails, 'updated_at'>;
+export type AdminUserInput = Omit<AdminUser, 'created_at'>;
+
+// A file in one of the storage buckets
+export interface StoredFile {
+  bucket: StorageBucket;
+  path: string;
+  url: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  created_at: string;
+}
+
+export interface BlogPostQuery {
+  // Only posts readers can see: published, with a publish time that has passed
+  liveOnly: boolean;
+}
+
+export interface DataProvider {
+  readonly name: 'supabase' | 'local';
+  // Whether the admin dashboard sits behind a sign-in
+  readonly requiresAuth: boolean;
+
+  // --- Profile ---
+  getProfile(): Promise<Profile>;
+  updateProfile(profile: Partial<Profile>): Promise<Profile | null>;
+
+  // --- Projects ---
+  getProjects(): Promise<Project[]>;
+  getProjectById(id: string): Promise<Project | null>;
+  getProjectBySlug(slug: string): Promise<Project | null>;
+  // Slugs starting with the prefix, for picking a unique slug
+  getProjectSlugs(prefix: string, excludeId?: string): Promise<string[]>;
+  createProject(project: ProjectInput): Promise<Project>;
+  updateProject(id: string, project: Partial<ProjectInput>): Promise<Project>;
+  // Sets each project's sort_order to its position in the list
+  reorderProjects(ids: string[]): Promise<void>;
+  deleteProject(id: string): Promise<void>;
+
+  // --- Thoughts ---
+  getBlogPosts(query: BlogPostQuery): Promise<BlogPost[]>;
+  findBlogPost(match: { slug?: string; id?: string }, query: BlogPostQuery): Promise<BlogPost | null>;
+  // Slugs starting with the prefix, for picking a unique slug
+  getBlogSlugs(prefix: string, excludeId?: string): Promise<string[]>;
+  createBlog(post: BlogPostInput): Promise<BlogPost>;
+  updateBlog(id: string, post: Partial<BlogPostInput>): Promise<BlogPost>;
+  deleteBlog(id: string): Promise<void>;
+
+  // --- Site Content ---
+  getSiteContent(keys: string[]): Promise<Record<string, string | null>>;
+  setSiteContent(key: string, value: string): Promise<void>;
+
+  // --- Contact Messages ---
+  submitContactMessage(message: ContactMessageInput): Promise<void>;
+  getContactMessages(): Promise<ContactMessage[]>;
+  updateContactMessage(id: string, changes: Partial<Pick<ContactMessage, 'is_read' | 'folder'>>): Promise<ContactMessage>;
+  deleteContactMessage(id: string): Promise<void>;
+
+  // --- Revisions ---
+  // The current row of a revisioned table, or null if it doesn't exist
+  getRecord(entityType: RevisionEntityType, id: string): Promise<Record<string, any> | null>;
+  countRevisions(entityType: RevisionEntityType, entityId: string): Promise<number>;
+  insertRevision(entityType: RevisionEntityType, entityId: string, snapshot: Record<string, any>, savedAt?: string): Promise<void>;
+  getRevisions(entityType: RevisionEntityType, entityId: string): Promise<Revision[]>;
+
+  // --- Storage ---
+  // Stores a file and returns the URL to use for it
+  uploadFile(bucket: StorageBucket, path: string, file: File): Promise<string>;
+  deleteFile(bucket: StorageBucket, url: string): Promise<void>;
+  listFiles(bucket: StorageBucket): Promise<StoredFile[]>;
+
+  // --- Media Details ---
+  getMediaDetails(): Promise<MediaDetails[]>;
+  // Creates or replaces the details for details.url
+  saveMediaDetails(details: MediaDetailsInput): Promise<MediaDetails>;
+  deleteMediaDetails(url: string): Promise<void>;
+
+  // --- Admin Users ---
+  // The signed-in CMS user, or null when signed out or not on the admin list
+  getCurrentAdminUser(): Promise<AdminUser | null>;
+  getAdminUsers(): Promise<AdminUser[]>;
+  // Adds the user, or changes the role of an existing one
+  saveAdminUser(user: AdminUserInput): Promise<AdminUser>;
+  deleteAdminUser(email: string): Promise<void>;
+
+  // --- Analytics ---
+  incrementPortfolioView(): Promise<void>;
+  getTotalPortfolioViews(): Promise<number>;
+}
@@ -0,0 +1,31 @@
+import { isSupabaseConfigured } from '../lib/supabaseClient';
+import { DataProvider } from './DataProvider';
+import { supabaseProvider } from './supabaseProvider';
+import { localProvider } from './localProvider';
+
+export type { DataProvider } from './DataProvider';
+
+/**
+ * Picks the data backend from configuration:
+ * - VITE_DATA_PROVIDER=local    → in-browser storage, no backend needed
+ * - VITE_DATA_PROVIDER=supabase → Supabase (requires VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY)
+ * - unset                       → Supabase when its credentials are set, otherwise local
+ */
+const selectProvider = (): DataProvider => {
+  const configured = import.meta.env.VITE_DATA_PROVIDER;
+
+  if (configured === 'local') {
+    return localProvider;
+  }
+
+  if (isSupabaseConfigured()) {
+    return supabaseProvider;
+  }
+
+  if (configured === 'supabase') {
+    console.warn('VITE_DATA_PROVIDER is "supabase" but Supabase credentials are missing. Using local data instead.');
+  }
+  return localProvider;
+};
+
+export const dataProvider: DataProvider = selectProvider();
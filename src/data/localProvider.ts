@@ -0,0 +1,309 @@
+import { Profile, Project, BlogPost, ContactMessage, Revision, MediaDetails, AdminUser } from '../../types';
+import { MOCK_PROFILE, MOCK_PROJECTS, MOCK_BLOGS } from '../../constants';
+import { isPostLive } from '../lib/publishing';
+import { compareProjectOrder } from '../lib/projectOrder';
+import { DataProvider, StoredFile } from './DataProvider';
+import { readValue, writeValue } from './localStore';
+
+// There is no sign-in, so whoever uses this browser owns the CMS
+const LOCAL_OWNER: AdminUser = {
+  email: 'owner@localhost',
+  role: 'owner',
+  invited_by: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+};
+
+// Tables start out with the mock content so a fresh browser has something to show
+const SEEDS: Record<string, unknown> = {
+  profiles: MOCK_PROFILE,
+  projects: MOCK_PROJECTS,
+  thought_posts: MOCK_BLOGS,
+  site_content: {},
+  contact_messages: [],
+  revisions: [],
+  files: [],
+  media_details: [],
+  admin_users: [LOCAL_OWNER],
+  portfolio_views: 0,
+};
+
+const tableKey = (name: string) => `table:${name}`;
+
+const load = async <T>(name: string): Promise<T> => {
+  const stored = await readValue<T>(tableKey(name));
+  return stored === undefined ? (SEEDS[name] as T) : stored;
+};
+
+// Writes are queued so concurrent saves (e.g. several site content keys at once) don't overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads a table, applies a change and writes it back, one change at a time
+ * @returns Whatever the change function returns
+ */
+const update = <T, R>(name: string, change: (current: T) => { next: T; result: R }): Promise<R> => {
+  const run = writeQueue.then(async () => {
+    const { next, result } = change(await load<T>(name));
+    await writeValue(tableKey(name), next);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const now = () => new Date().toISOString();
+
+type Dated = Partial<Record<'created_at' | 'published_at', string | null>>;
+
+const byNewest = <T extends Dated>(field: keyof Dated) => (a: T, b: T) =>
+  new Date(b[field] || 0).getTime() - new Date(a[field] || 0).getTime();
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Local Provider
+ *
+ * Keeps the whole CMS in this browser's IndexedDB: content, inbox, revisions, analytics
+ * and uploaded files (stored as data URLs). Needs no backend and no sign-in, so the site
+ * can be demoed or developed offline. Data is per-browser and never leaves the device.
+ */
+export const localProvider: DataProvider = {
+  name: 'local',
+  requiresAuth: false,
+
+  // --- Profile ---
+
+  getProfile: () => load<Profile>('profiles'),
+
+  updateProfile: (profile) =>
+    update<Profile, Profile>('profiles', current => {
+      const next = { ...current, ...profile, id: current.id };
+      return { next, result: next };
+    }),
+
+  // --- Projects ---
+
+  getProjects: async () => [...await load<Project[]>('projects')].sort(compareProjectOrder),
+
+  getProjectById: async (id) => (await load<Project[]>('projects')).find(p => p.id === id) || null,
+
+  getProjectBySlug: async (slug) => (await load<Project[]>('projects')).find(p => p.slug === slug) || null,
+
+  getProjectSlugs: async (prefix, excludeId) => {
+    const projects = await load<Project[]>('projects');
+    return projects.filter(p => p.id !== excludeId && p.slug?.startsWith(prefix)).map(p => p.slug);
+  },
+
+  createProject: (project) =>
+    update<Project[], Project>('projects', rows => {
+      if (rows.some(p => p.slug === project.slug)) {
+        throw new Error(`The slug "${project.slug}" is already used by another project`);
+      }
+      const created: Project = { ...project, id: newId(), created_at: now(), updated_at: now() };
+      return { next: [...rows, created], result: created };
+    }),
+
+  updateProject: (id, project) =>
+    update<Project[], Project>('projects', rows => {
+      const existing = rows.find(p => p.id === id);
+      if (!existing) throw new Error('Failed to update project: Project not found');
+      if (project.slug !== undefined && rows.some(p => p.id !== id && p.slug === project.slug)) {
+        throw new Error(`The slug "${project.slug}" is already used by another project`);
+      }
+      const updated: Project = { ...existing, ...project, updated_at: now() };
+      return { next: rows.map(p => (p.id === id ? updated : p)), result: updated };
+    }),
+
+  reorderProjects: (ids) =>
+    update<Project[], void>('projects', rows => ({
+      next: rows.map(p => (ids.includes(p.id) ? { ...p, sort_order: ids.indexOf(p.id) } : p)),
+      result: undefined,
+    })),
+
+  deleteProject: (id) =>
+    update<Project[], void>('projects', rows => ({ next: rows.filter(p => p.id !== id), result: undefined })),
+
+  // --- Thoughts ---
+
+  getBlogPosts: async ({ liveOnly }) => {
+    const posts = await load<BlogPost[]>('thought_posts');
+    return liveOnly
+      ? posts.filter(b => isPostLive(b)).sort(byNewest('published_at'))
+      : [...posts].sort(byNewest('created_at'));
+  },
+
+  findBlogPost: async (match, { liveOnly }) => {
+    const posts = await load<BlogPost[]>('thought_posts');
+    return posts.find(b =>
+      (match.slug === undefined || b.slug === match.slug) &&
+      (match.id === undefined || b.id === match.id) &&
+      (!liveOnly || isPostLive(b))
+    ) || null;
+  },
+
+  getBlogSlugs: async (prefix, excludeId) => {
+    const posts = await load<BlogPost[]>('thought_posts');
+    return posts.filter(b => b.id !== excludeId && b.slug.startsWith(prefix)).map(b => b.slug);
+  },
+
+  createBlog: (post) =>
+    update<BlogPost[], BlogPost>('thought_posts', rows => {
+      if (rows.some(b => b.slug === post.slug)) {
+        throw new Error(`The slug "${post.slug}" is already used by another post`);
+      }
+      const created: BlogPost = { ...post, id: newId(), created_by: null, created_at: now(), updated_at: now() };
+      return { next: [...rows, created], result: created };
+    }),
+
+  updateBlog: (id, post) =>
+    update<BlogPost[], BlogPost>('thought_posts', rows => {
+      const existing = rows.find(b => b.id === id);
+      if (!existing) throw new Error('Failed to update blog post: Post not found');
+      if (post.slug !== undefined && rows.some(b => b.id !== id && b.slug === post.slug)) {
+        throw new Error(`The slug "${post.slug}" is already used by another post`);
+      }
+      const updated: BlogPost = { ...existing, ...post, updated_at: now() };
+      return { next: rows.map(b => (b.id === id ? updated : b)), result: updated };
+    }),
+
+  deleteBlog: (id) =>
+    update<BlogPost[], void>('thought_posts', rows => ({ next: rows.filter(b => b.id !== id), result: undefined })),
+
+  // --- Site Content ---
+
+  getSiteContent: async (keys) => {
+    const content = await load<Record<string, string>>('site_content');
+    const result: Record<string, string | null> = {};
+    keys.forEach(key => { result[key] = content[key] ?? null; });
+    return result;
+  },
+
+  setSiteContent: (key, value) =>
+    update<Record<string, string>, void>('site_content', content => ({ next: { ...content, [key]: value }, result: undefined })),
+
+  // --- Contact Messages ---
+
+  submitContactMessage: (message) =>
+    update<ContactMessage[], void>('contact_messages', rows => ({
+      next: [...rows, { ...message, id: newId(), is_read: false, created_at: now() }],
+      result: undefined,
+    })),
+
+  getContactMessages: async () => [...await load<ContactMessage[]>('contact_messages')].sort(byNewest('created_at')),
+
+  updateContactMessage: (id, changes) =>
+    update<ContactMessage[], ContactMessage>('contact_messages', rows => {
+      const existing = rows.find(m => m.id === id);
+      if (!existing) throw new Error('Failed to update message: Message not found');
+      const updated = { ...existing, ...changes };
+      return { next: rows.map(m => (m.id === id ? updated : m)), result: updated };
+    }),
+
+  deleteContactMessage: (id) =>
+    update<ContactMessage[], void>('contact_messages', rows => ({ next: rows.filter(m => m.id !== id), result: undefined })),
+
+  // --- Revisions ---
+
+  getRecord: async (entityType, id) => {
+    if (entityType === 'profiles') {
+      const profile = await load<Profile>('profiles');
+      return profile.id === id ? profile : null;
+    }
+    const rows = await load<Array<{ id: string }>>(entityType);
+    return rows.find(row => row.id === id) || null;
+  },
+
+  countRevisions: async (entityType, entityId) =>
+    (await load<Revision[]>('revisions')).filter(r => r.entity_type === entityType && r.entity_id === entityId).length,
+
+  insertRevision: (entityType, entityId, snapshot, savedAt) =>
+    update<Revision[], void>('revisions', rows => ({
+      next: [...rows, {
+        id: newId(),
+        entity_type: entityType,
+        entity_id: entityId,
+        snapshot,
+        created_by: null,
+        created_at: savedAt || now(),
+      }],
+      result: undefined,
+    })),
+
+  getRevisions: async (entityType, entityId) =>
+    (await load<Revision[]>('revisions'))
+      .filter(r => r.entity_type === entityType && r.entity_id === entityId)
+      .sort(byNewest('created_at')),
+
+  // --- Storage ---
+
+  uploadFile: async (bucket, path, file) => {
+    const url = await readFileAsDataUrl(file);
+    await update<StoredFile[], void>('files', rows => ({
+      next: [...rows, { bucket, path, url, type: file.type, size: file.size, created_at: now() }],
+      result: undefined,
+    }));
+    return url;
+  },
+
+  deleteFile: (bucket, url) =>
+    update<StoredFile[], void>('files', rows => ({
+      next: rows.filter(f => !(f.bucket === bucket && f.url === url)),
+      result: undefined,
+    })),
+
+  listFiles: async (bucket) =>
+    (await load<StoredFile[]>('files')).filter(f => f.bucket === bucket).sort(byNewest('created_at')),
+
+  // --- Media Details ---
+
+  getMediaDetails: () => load<MediaDetails[]>('media_details'),
+
+  saveMediaDetails: (details) =>
+    update<MediaDetails[], MediaDetails>('media_details', rows => {
+      const saved = { ...details, updated_at: now() };
+      return { next: [...rows.filter(row => row.url !== details.url), saved], result: saved };
+    }),
+
+  deleteMediaDetails: (url) =>
+    update<MediaDetails[], void>('media_details', rows => ({
+      next: rows.filter(row => row.url !== url),
+      result: undefined,
+    })),
+
+  // --- Admin Users ---
+
+  getCurrentAdminUser: async () => LOCAL_OWNER,
+
+  getAdminUsers: () => load<AdminUser[]>('admin_users'),
+
+  saveAdminUser: (user) =>
+    update<AdminUser[], AdminUser>('admin_users', rows => {
+      const existing = rows.find(row => row.email === user.email);
+      const saved = { ...user, created_at: existing?.created_at || now() };
+      return { next: existing ? rows.map(row => (row.email === user.email ? saved : row)) : [...rows, saved], result: saved };
+    }),
+
+  deleteAdminUser: (email) =>
+    update<AdminUser[], void>('admin_users', rows => ({
+      next: rows.filter(row => row.email !== email),
+      result: undefined,
+    })),
+
+  // --- Analytics ---
+
+  incrementPortfolioView: () =>
+    update<number, void>('portfolio_views', views => ({ next: views + 1, result: undefined })),
+
+  getTotalPortfolioViews: () => load<number>('portfolio_views'),
+};
@@ -0,0 +1,61 @@
+/**
+ * Local Store
+ *
+ * Minimal key-value store on IndexedDB for the local provider. IndexedDB has room for
+ * uploaded images, unlike localStorage. Falls back to memory (lost on reload) when
+ * IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+
+const DB_NAME = 'starfall-local';
+const STORE_NAME = 'kv';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, unknown>();
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, local data will not persist:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Reads a value, or undefined if the key has never been written
+ */
+export const readValue = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return memoryStore.get(key) as T | undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const writeValue = async <T>(key: string, value: T): Promise<void> => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(key, value);
+    return;
+  }
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
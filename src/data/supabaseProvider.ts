@@ -0,0 +1,648 @@
+import { supabase } from '../lib/supabaseClient';
+import { MOCK_PROFILE, MOCK_BLOGS } from '../../constants';
+import { isPostLive } from '../lib/publishing';
+import { DataProvider } from './DataProvider';
+
+/**
+ * Turns a Supabase error on the projects table into a message the admin can act on
+ */
+const describeProjectError = (error: { code?: string; message?: string }, action: string): string => {
+  if (error.message?.includes('does not exist') || error.message?.includes('relation') || error.code === '42P01') {
+    return `Table 'projects' does not exist. Please create it in Supabase.`;
+  } else if (error.message?.includes('new row violates row-level security') || error.code === '42501') {
+    return `Permission denied. Please check RLS policies for 'projects' table.`;
+  } else if (error.message?.includes('JWT') || error.code === 'PGRST301') {
+    return 'Authentication error. Please ensure you are logged in.';
+  }
+  return `Failed to ${action}: ${error.message || 'Unknown error'}`;
+};
+
+/**
+ * Supabase Provider
+ *
+ * Stores content in the Supabase database and files in Supabase Storage.
+ * Access rules are enforced by the RLS policies in the SQL setup files.
+ */
+export const supabaseProvider: DataProvider = {
+  name: 'supabase',
+  requiresAuth: true,
+
+  // --- Profile ---
+
+  getProfile: async () => {
+    const { data, error } = await supabase.from('profiles').select('*').single();
+    if (!error && data) return data;
+    // Fallback if the profile row is missing or the request fails
+    return MOCK_PROFILE;
+  },
+
+  updateProfile: async (profile) => {
+    // Try to update by ID '1' first, or get the first profile if ID doesn't exist
+    const { data: existingProfile } = await supabase
+      .from('profiles')
+      .select('id')
+      .limit(1)
+      .single();
+
+    const profileId = existingProfile?.id || '1';
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(profile)
+      .eq('id', profileId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error updating profile:', error);
+      throw new Error(`Failed to update profile: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  // --- Projects ---
+
+  getProjects: async () => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .order('sort_order', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching projects:', error);
+      throw new Error(describeProjectError(error, 'load projects'));
+    }
+
+    return data || [];
+  },
+
+  getProjectById: async (id) => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching project:', error);
+      throw new Error(describeProjectError(error, 'load project'));
+    }
+
+    return data;
+  },
+
+  getProjectBySlug: async (slug) => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching project:', error);
+      throw new Error(describeProjectError(error, 'load project'));
+    }
+
+    return data;
+  },
+
+  getProjectSlugs: async (prefix, excludeId) => {
+    let query = supabase.from('projects').select('slug').like('slug', `${prefix}%`);
+    if (excludeId) {
+      query = query.neq('id', excludeId);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Supabase error checking slug:', error);
+      throw new Error(describeProjectError(error, 'check slug'));
+    }
+
+    return (data || []).map(row => row.slug);
+  },
+
+  createProject: async (project) => {
+    const { data, error } = await supabase
+      .from('projects')
+      .insert([project])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating project:', error);
+      throw new Error(describeProjectError(error, 'create project'));
+    }
+
+    if (!data) {
+      throw new Error('Project created but no data returned');
+    }
+
+    return data;
+  },
+
+  updateProject: async (id, project) => {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ ...project, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating project:', error);
+      throw new Error(describeProjectError(error, 'update project'));
+    }
+
+    if (!data) {
+      throw new Error('Project updated but no data returned');
+    }
+
+    return data;
+  },
+
+  reorderProjects: async (ids) => {
+    const results = await Promise.all(ids.map((id, index) =>
+      supabase.from('projects').update({ sort_order: index }).eq('id', id)
+    ));
+    const error = results.find(result => result.error)?.error;
+
+    if (error) {
+      console.error('Error reordering projects:', error);
+      throw new Error(describeProjectError(error, 'reorder projects'));
+    }
+  },
+
+  deleteProject: async (id) => {
+    const { error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting project:', error);
+      throw new Error(describeProjectError(error, 'delete project'));
+    }
+  },
+
+  // --- Thoughts ---
+
+  getBlogPosts: async ({ liveOnly }) => {
+    let query = supabase.from('thought_posts').select('*');
+    if (liveOnly) {
+      query = query.eq('published', true).lte('published_at', new Date().toISOString());
+    }
+    const { data, error } = await query.order(liveOnly ? 'published_at' : 'created_at', { ascending: false });
+    if (!error && data) return data;
+    return liveOnly ? MOCK_BLOGS.filter(b => isPostLive(b)) : MOCK_BLOGS;
+  },
+
+  findBlogPost: async (match, { liveOnly }) => {
+    let query = supabase.from('thought_posts').select('*');
+    if (match.slug !== undefined) query = query.eq('slug', match.slug);
+    if (match.id !== undefined) query = query.eq('id', match.id);
+    if (liveOnly) {
+      query = query.eq('published', true).lte('published_at', new Date().toISOString());
+    }
+    const { data, error } = await query.maybeSingle();
+    if (!error) return data;
+    return MOCK_BLOGS.find(b =>
+      (match.slug === undefined || b.slug === match.slug) &&
+      (match.id === undefined || b.id === match.id) &&
+      (!liveOnly || isPostLive(b))
+    ) || null;
+  },
+
+  getBlogSlugs: async (prefix, excludeId) => {
+    let query = supabase.from('thought_posts').select('slug').like('slug', `${prefix}%`);
+    if (excludeId) {
+      query = query.neq('id', excludeId);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Supabase error checking slug:', error);
+      throw new Error(`Failed to check slug: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.slug);
+  },
+
+  createBlog: async (post) => {
+    const { data, error } = await supabase
+      .from('thought_posts')
+      .insert([post])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase error creating blog post:', error);
+      if (error.code === '23505') {
+        throw new Error(`The slug "${post.slug}" is already used by another post`);
+      }
+      throw new Error(`Failed to create blog post: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('No data returned from database');
+    }
+
+    return data;
+  },
+
+  updateBlog: async (id, post) => {
+    const { data, error } = await supabase
+      .from('thought_posts')
+      .update({ ...post, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase error updating blog post:', error);
+      if (error.code === '23505') {
+        throw new Error(`The slug "${post.slug}" is already used by another post`);
+      }
+      throw new Error(`Failed to update blog post: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('No data returned from database');
+    }
+
+    return data;
+  },
+
+  deleteBlog: async (id) => {
+    const { error } = await supabase
+      .from('thought_posts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Supabase error deleting blog post:', error);
+      throw new Error(`Failed to delete blog post: ${error.message}`);
+    }
+  },
+
+  // --- Site Content ---
+
+  getSiteContent: async (keys) => {
+    const result: Record<string, string | null> = {};
+    keys.forEach(key => { result[key] = null; });
+
+    if (keys.length === 0) {
+      return result;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('site_content')
+        .select('key, value')
+        .in('key', keys);
+
+      if (!error && data) {
+        keys.forEach(key => {
+          const item = data.find(d => d.key === key);
+          result[key] = item ? item.value : null;
+        });
+      }
+      // If there's an error (e.g., table doesn't exist), return null values
+      // This allows the page to load even if site_content table isn't set up yet
+    } catch (err) {
+      console.warn('Error fetching site_content (table may not exist yet):', err);
+    }
+
+    return result;
+  },
+
+  setSiteContent: async (key, value) => {
+    // Use upsert to insert or update
+    const { error } = await supabase
+      .from('site_content')
+      .upsert({ key, value, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+
+    if (error) {
+      console.error('Supabase error setting site_content:', error);
+      throw new Error(`Failed to set site content: ${error.message}`);
+    }
+  },
+
+  // --- Contact Messages ---
+
+  submitContactMessage: async (message) => {
+    // No select: anonymous visitors may insert but not read messages back
+    const { error } = await supabase
+      .from('contact_messages')
+      .insert([message]);
+
+    if (error) {
+      console.error('Supabase error submitting contact message:', error);
+      throw new Error(`Failed to send message: ${error.message}`);
+    }
+  },
+
+  getContactMessages: async () => {
+    const { data, error } = await supabase
+      .from('contact_messages')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Supabase error fetching contact messages:', error);
+      throw new Error(`Failed to load messages: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  updateContactMessage: async (id, changes) => {
+    const { data, error } = await supabase
+      .from('contact_messages')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase error updating contact message:', error);
+      throw new Error(`Failed to update message: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('No data returned from database');
+    }
+
+    return data;
+  },
+
+  deleteContactMessage: async (id) => {
+    const { error } = await supabase
+      .from('contact_messages')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Supabase error deleting contact message:', error);
+      throw new Error(`Failed to delete message: ${error.message}`);
+    }
+  },
+
+  // --- Revisions ---
+
+  getRecord: async (entityType, id) => {
+    const { data, error } = await supabase
+      .from(entityType)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load ${entityType} row: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  countRevisions: async (entityType, entityId) => {
+    const { count, error } = await supabase
+      .from('revisions')
+      .select('id', { count: 'exact', head: true })
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId);
+
+    if (error) {
+      throw new Error(`Failed to count revisions: ${error.message}`);
+    }
+
+    return count || 0;
+  },
+
+  insertRevision: async (entityType, entityId, snapshot, savedAt) => {
+    const { error } = await supabase
+      .from('revisions')
+      .insert([{
+        entity_type: entityType,
+        entity_id: entityId,
+        snapshot,
+        ...(savedAt ? { created_at: savedAt } : {}),
+      }]);
+
+    if (error) {
+      throw new Error(`Failed to record revision: ${error.message}`);
+    }
+  },
+
+  getRevisions: async (entityType, entityId) => {
+    const { data, error } = await supabase
+      .from('revisions')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load revisions: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  // --- Storage ---
+
+  uploadFile: async (bucket, path, file) => {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (error) {
+      // Provide more specific error messages
+      if (error.message?.includes('Bucket not found') || error.message?.includes('does not exist')) {
+        throw new Error(`Storage bucket '${bucket}' does not exist. Please create it in Supabase Storage.`);
+      } else if (error.message?.includes('new row violates row-level security')) {
+        throw new Error(`Permission denied. Please check RLS policies for bucket '${bucket}'.`);
+      } else if (error.message?.includes('JWT')) {
+        throw new Error('Authentication error. Please ensure you are logged in.');
+      }
+      throw new Error(`Upload failed: ${error.message || 'Unknown error'}`);
+    }
+
+    if (!data) {
+      throw new Error('Upload succeeded but no data returned');
+    }
+
+    // Get public URL for the uploaded file
+    const { data: urlData } = supabase.storage
+      .from(bucket)
+      .getPublicUrl(data.path);
+
+    if (!urlData?.publicUrl) {
+      throw new Error('Failed to get public URL for uploaded file');
+    }
+
+    return urlData.publicUrl;
+  },
+
+  deleteFile: async (bucket, url) => {
+    // Extract file path from the public URL
+    const urlParts = url.split('/');
+    const filePath = urlParts.slice(urlParts.indexOf(bucket) + 1).join('/');
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .remove([filePath]);
+
+    if (error) {
+      throw new Error(`Failed to delete file: ${error.message}`);
+    }
+  },
+
+  listFiles: async (bucket) => {
+    // Uploads all sit at the top of the bucket
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list('', { limit: 1000, sortBy: { column: 'created_at', order: 'desc' } });
+
+    if (error) {
+      throw new Error(`Failed to list files in '${bucket}': ${error.message}`);
+    }
+
+    return (data || [])
+      // Folders have no id; the placeholder keeps empty folders alive
+      .filter(file => file.id && file.name !== '.emptyFolderPlaceholder')
+      .map(file => ({
+        bucket,
+        path: file.name,
+        url: supabase.storage.from(bucket).getPublicUrl(file.name).data.publicUrl,
+        type: file.metadata?.mimetype || '',
+        size: file.metadata?.size || 0,
+        created_at: file.created_at,
+      }));
+  },
+
+  // --- Media Details ---
+
+  getMediaDetails: async () => {
+    const { data, error } = await supabase
+      .from('media_details')
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to load media details: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  saveMediaDetails: async (details) => {
+    const { data, error } = await supabase
+      .from('media_details')
+      .upsert([{ ...details, updated_at: new Date().toISOString() }], { onConflict: 'url' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save media details: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  deleteMediaDetails: async (url) => {
+    const { error } = await supabase
+      .from('media_details')
+      .delete()
+      .eq('url', url);
+
+    if (error) {
+      throw new Error(`Failed to delete media details: ${error.message}`);
+    }
+  },
+
+  // --- Admin Users ---
+
+  getCurrentAdminUser: async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const email = session?.user?.email;
+    if (!email) return null;
+
+    // Emails are stored lowercase (see add_admin_user_roles.sql), whatever case the sign-in used
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load your CMS role: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  getAdminUsers: async () => {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load users: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  saveAdminUser: async (user) => {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .upsert([{ ...user, email: user.email.toLowerCase() }], { onConflict: 'email' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save user: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  deleteAdminUser: async (email) => {
+    const { error } = await supabase
+      .from('admin_users')
+      .delete()
+      .eq('email', email);
+
+    if (error) {
+      throw new Error(`Failed to remove user: ${error.message}`);
+    }
+  },
+
+  // --- Analytics ---
+
+  incrementPortfolioView: async () => {
+    // The PostgreSQL function increments views atomically, server-side
+    const { error } = await supabase.rpc('increment_portfolio_views');
+
+    if (error) {
+      throw new Error(`Failed to increment portfolio views: ${error.message}`);
+    }
+  },
+
+  getTotalPortfolioViews: async () => {
+    const { data, error } = await supabase
+      .from('portfolio_analytics')
+      .select('view_count')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load portfolio views: ${error.message}`);
+    }
+
+    return data?.view_count || 0;
+  },
+};
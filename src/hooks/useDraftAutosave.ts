@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Draft Autosave
+ *
+ * Keeps in-progress editor state in localStorage so a closed tab or an expired
+ * session doesn't lose work, and warns before leaving the page with unsaved changes.
+ */
+
+const DRAFT_PREFIX = 'starfall:draft:';
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+export interface StoredDraft<T> {
+  value: T;
+  savedAt: string;
+}
+
+/**
+ * Reads a stored draft, or null if there is none (or storage is unavailable)
+ */
+export const loadDraft = <T>(key: string): StoredDraft<T> | null => {
+  try {
+    const raw = localStorage.getItem(DRAFT_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDraft = <T>(key: string, value: T): StoredDraft<T> | null => {
+  const draft: StoredDraft<T> = { value, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(DRAFT_PREFIX + key, JSON.stringify(draft));
+    return draft;
+  } catch (err) {
+    console.warn('Could not autosave draft:', err);
+    return null;
+  }
+};
+
+export const clearDraft = (key: string): void => {
+  try {
+    localStorage.removeItem(DRAFT_PREFIX + key);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
+
+/**
+ * Periodically saves `value` under `key` while `dirty` is true, and once more
+ * when the tab is hidden or closed. Returns the time of the last autosave.
+ * @param key - Draft key, e.g. "blog:new" or "project:<id>"; null disables autosave
+ * @param value - The editor state to save
+ * @param dirty - Whether the editor has unsaved changes
+ */
+export const useDraftAutosave = <T>(key: string | null, value: T, dirty: boolean): string | null => {
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // Latest state for the interval and unload handlers, without restarting them on every keystroke
+  const latest = useRef({ key, value, dirty });
+  latest.current = { key, value, dirty };
+  const lastWritten = useRef<string | null>(null);
+
+  useEffect(() => {
+    setLastSavedAt(null);
+    lastWritten.current = null;
+    if (!key) return;
+
+    const flush = () => {
+      const { key: currentKey, value: currentValue, dirty: isDirty } = latest.current;
+      if (!currentKey || !isDirty) return;
+
+      const serialized = JSON.stringify(currentValue);
+      if (serialized === lastWritten.current) return;
+
+      const draft = saveDraft(currentKey, currentValue);
+      if (draft) {
+        lastWritten.current = serialized;
+        setLastSavedAt(draft.savedAt);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    const interval = window.setInterval(flush, AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      flush();
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [key]);
+
+  return lastSavedAt;
+};
+
+/**
+ * Shows the browser's "leave site?" prompt on reload/close while `dirty` is true
+ */
+export const useUnsavedChangesWarning = (dirty: boolean): void => {
+  useEffect(() => {
+    if (!dirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+};
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { PageMeta, applyPageMeta, defaultPageMeta } from '../lib/seo';
+
+/**
+ * Page Metadata
+ *
+ * Sets the title, description, social tags and structured data for the current page
+ * (see src/lib/seo). Pass null while the page's content is still loading.
+ * When the page unmounts, the site defaults are put back so the next page never
+ * shows stale tags.
+ */
+export const usePageMeta = (meta: PageMeta | null) => {
+  // Compare by value: callers build a new object on every render
+  const key = meta ? JSON.stringify(meta) : null;
+
+  useEffect(() => {
+    if (meta) {
+      applyPageMeta(meta);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    return () => applyPageMeta(defaultPageMeta(window.location.pathname));
+  }, []);
+};
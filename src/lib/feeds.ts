@@ -0,0 +1,165 @@
+import { Profile, BlogPost } from '../../types';
+
+/**
+ * Feed Generator
+ *
+ * Turns the live Thoughts posts into RSS 2.0, Atom and JSON Feed documents so readers
+ * can follow the Insights section. Generated at build time (see src/prerender) and
+ * linked from index.html with <link rel="alternate"> tags.
+ *
+ * RSS and Atom need absolute links and ids, so there are no feeds without a site URL.
+ */
+
+export const FEED_PATHS = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+};
+
+export interface FeedInput {
+  profile: Profile;
+  // Live posts, newest first
+  posts: BlogPost[];
+  // Rendered HTML of each post's Markdown, with absolute URLs, by post ID (see FeedMarkdown)
+  contentHtml: Record<string, string>;
+  // Public origin of the site, e.g. https://example.com
+  siteUrl: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// "]]>" would end the CDATA section early, so it is split across two sections
+const cdata = (value: string): string => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Feeds made with a relative site URL would be invalid
+const assertSiteUrl = (siteUrl: string) => {
+  if (!siteUrl) {
+    throw new Error('A feed needs the absolute site URL (VITE_SITE_URL)');
+  }
+};
+
+const feedTitle = (profile: Profile) => `${profile.full_name} | Thoughts & Insights`;
+
+const feedDescription = (profile: Profile) => profile.subtitle || `Writing by ${profile.full_name}`;
+
+const postUrl = (post: BlogPost, siteUrl: string) => `${siteUrl}/thoughts/${encodeURIComponent(post.slug)}`;
+
+const publishedAt = (post: BlogPost) => post.published_at || post.created_at;
+
+const updatedAt = (post: BlogPost) => post.updated_at || publishedAt(post);
+
+const itemHtml = (post: BlogPost, input: FeedInput) => input.contentHtml[post.id] || '';
+
+// The most recent change to any post, used as the feed's own update time
+const lastUpdated = (posts: BlogPost[]): string =>
+  posts.reduce(
+    (latest, post) => (new Date(updatedAt(post)) > new Date(latest) ? updatedAt(post) : latest),
+    posts[0] ? updatedAt(posts[0]) : new Date().toISOString()
+  );
+
+/**
+ * RSS 2.0, with the full post in content:encoded
+ * @throws If siteUrl is empty
+ */
+export const buildRssFeed = (input: FeedInput): string => {
+  const { profile, posts, siteUrl } = input;
+  assertSiteUrl(siteUrl);
+
+  const items = posts.map(post => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(postUrl(post, siteUrl))}</link>
+      <guid isPermaLink="false">${escapeXml(post.id)}</guid>
+      <pubDate>${new Date(publishedAt(post)).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(profile.full_name)}</dc:creator>
+      <description>${escapeXml(post.summary || '')}</description>
+${(post.tags || []).map(tag => `      <category>${escapeXml(tag)}</category>\n`).join('')}      <content:encoded>${cdata(itemHtml(post, input))}</content:encoded>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feedTitle(profile))}</title>
+    <link>${escapeXml(`${siteUrl}/`)}</link>
+    <description>${escapeXml(feedDescription(profile))}</description>
+    <language>en</language>
+    <lastBuildDate>${new Date(lastUpdated(posts)).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(siteUrl + FEED_PATHS.rss)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
+
+/**
+ * Atom 1.0, with the full post as HTML content
+ * @throws If siteUrl is empty
+ */
+export const buildAtomFeed = (input: FeedInput): string => {
+  const { profile, posts, siteUrl } = input;
+  assertSiteUrl(siteUrl);
+
+  const entries = posts.map(post => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(postUrl(post, siteUrl))}" />
+    <id>${escapeXml(postUrl(post, siteUrl))}</id>
+    <published>${new Date(publishedAt(post)).toISOString()}</published>
+    <updated>${new Date(updatedAt(post)).toISOString()}</updated>
+    <author><name>${escapeXml(profile.full_name)}</name></author>
+${(post.tags || []).map(tag => `    <category term="${escapeXml(tag)}" />\n`).join('')}    ${post.summary ? `<summary>${escapeXml(post.summary)}</summary>\n    ` : ''}<content type="html">${escapeXml(itemHtml(post, input))}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feedTitle(profile))}</title>
+  <subtitle>${escapeXml(feedDescription(profile))}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(`${siteUrl}/`)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(siteUrl + FEED_PATHS.atom)}" />
+  <id>${escapeXml(`${siteUrl}/`)}</id>
+  <updated>${new Date(lastUpdated(posts)).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(profile.full_name)}</name>
+    <uri>${escapeXml(`${siteUrl}/`)}</uri>
+  </author>
+${entries.join('\n')}
+</feed>
+`;
+};
+
+/**
+ * JSON Feed 1.1
+ * @throws If siteUrl is empty
+ */
+export const buildJsonFeed = (input: FeedInput): string => {
+  const { profile, posts, siteUrl } = input;
+  assertSiteUrl(siteUrl);
+  const author = { name: profile.full_name, url: `${siteUrl}/` };
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle(profile),
+    home_page_url: `${siteUrl}/`,
+    feed_url: siteUrl + FEED_PATHS.json,
+    description: feedDescription(profile),
+    language: 'en',
+    authors: [author],
+    items: posts.map(post => ({
+      id: post.id,
+      url: postUrl(post, siteUrl),
+      title: post.title,
+      summary: post.summary || undefined,
+      content_html: itemHtml(post, input),
+      date_published: new Date(publishedAt(post)).toISOString(),
+      date_modified: new Date(updatedAt(post)).toISOString(),
+      authors: [author],
+      tags: post.tags?.length ? post.tags : undefined,
+    })),
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+};
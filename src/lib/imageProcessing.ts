@@ -0,0 +1,115 @@
+import { ImageFormat } from '../../types';
+
+/**
+ * Image Processing
+ *
+ * Turns an uploaded photo into the copies the public pages load: a few widths, each
+ * encoded as AVIF and WebP where the browser can encode them, plus a JPEG every browser
+ * can show. Drawing through a canvas re-encodes the pixels only, so EXIF data (camera,
+ * GPS location) is left behind; the EXIF rotation is applied first so photos stay upright.
+ */
+
+// Widths to generate; images narrower than the largest get one copy at their own width
+export const IMAGE_WIDTHS = [480, 960, 1600];
+
+const PLACEHOLDER_WIDTH = 16;
+
+// Best first; the browser picks the first <source> it supports
+const ENCODINGS: Array<{ format: ImageFormat; type: string; quality: number }> = [
+  { format: 'avif', type: 'image/avif', quality: 0.6 },
+  { format: 'webp', type: 'image/webp', quality: 0.8 },
+  { format: 'jpeg', type: 'image/jpeg', quality: 0.82 },
+];
+
+// JPEG has no transparency, so transparent areas are filled with the site background
+const JPEG_BACKGROUND = '#020617';
+
+export interface ProcessedVariant {
+  blob: Blob;
+  width: number;
+  format: ImageFormat;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  variants: ProcessedVariant[];
+  placeholder: string;
+}
+
+/**
+ * Whether an image should be resized; animated GIFs and SVGs are uploaded as they are
+ */
+export const canProcessImage = (file: File): boolean =>
+  file.type.startsWith('image/') && !['image/gif', 'image/svg+xml'].includes(file.type);
+
+const drawScaled = (source: ImageBitmap, width: number, background?: string): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((source.height * width) / source.width));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Encodes the canvas, or resolves null when the browser can't encode that type
+ * (canvases silently fall back to PNG for types they don't support)
+ */
+const encode = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => {
+    canvas.toBlob(blob => resolve(blob && blob.type === type ? blob : null), type, quality);
+  });
+
+/**
+ * The widths to generate for an image of the given width, smallest first
+ */
+export const variantWidths = (sourceWidth: number): number[] => {
+  const largest = Math.min(sourceWidth, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]);
+  return [...new Set([...IMAGE_WIDTHS.filter(width => width < largest), largest])];
+};
+
+/**
+ * Resizes and re-encodes an image file
+ * @param file - A raster image (see canProcessImage)
+ * @returns The encoded variants, the size of the largest and a placeholder data URL
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  const source = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const widths = variantWidths(source.width);
+    const variants: ProcessedVariant[] = [];
+
+    for (const width of widths) {
+      const canvas = drawScaled(source, width);
+      const opaqueCanvas = drawScaled(source, width, JPEG_BACKGROUND);
+
+      for (const { format, type, quality } of ENCODINGS) {
+        const blob = await encode(format === 'jpeg' ? opaqueCanvas : canvas, type, quality);
+        if (blob) variants.push({ blob, width, format });
+      }
+    }
+
+    if (!variants.some(variant => variant.format === 'jpeg')) {
+      throw new Error('This browser could not encode the image');
+    }
+
+    const largest = widths[widths.length - 1];
+    return {
+      width: largest,
+      height: Math.round((source.height * largest) / source.width),
+      variants,
+      placeholder: drawScaled(source, PLACEHOLDER_WIDTH, JPEG_BACKGROUND).toDataURL('image/jpeg', 0.6),
+    };
+  } finally {
+    source.close();
+  }
+};
@@ -0,0 +1,155 @@
+import { ImageSet } from '../../types';
+
+/**
+ * Markdown Formatting
+ *
+ * Pure text transforms behind the Thoughts editor toolbar, shortcuts and image uploads.
+ * Each takes the current text and selection and returns the new text and selection,
+ * so the editor only has to apply the result to its textarea.
+ */
+
+export interface EditResult {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in markers, e.g. **bold**. Unwraps it if it is already wrapped.
+ * With no selection, inserts a placeholder and selects it.
+ */
+export const wrapSelection = (
+  text: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string = before,
+  placeholder: string = 'text'
+): EditResult => {
+  const selected = text.slice(start, end);
+
+  // Toggle off when the markers sit just outside the selection
+  if (text.slice(start - before.length, start) === before && text.slice(end, end + after.length) === after) {
+    return {
+      text: text.slice(0, start - before.length) + selected + text.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+
+  const inner = selected || placeholder;
+  return {
+    text: text.slice(0, start) + before + inner + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  };
+};
+
+/**
+ * Adds a prefix to every line touched by the selection, e.g. "- " for lists or "## " for headings.
+ * Removes it instead when every line already has it. Heading prefixes replace any existing heading level.
+ */
+export const prefixLines = (text: string, start: number, end: number, prefix: string): EditResult => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const isHeading = /^#+ $/.test(prefix);
+
+  const allPrefixed = lines.every(line => line.startsWith(prefix));
+  const updated = lines.map((line, idx) => {
+    if (allPrefixed) return line.slice(prefix.length);
+    const bare = isHeading ? line.replace(/^#+\s+/, '') : line;
+    const itemPrefix = /^1\. $/.test(prefix) ? `${idx + 1}. ` : prefix;
+    return itemPrefix + bare;
+  });
+
+  const block = updated.join('\n');
+  return {
+    text: text.slice(0, lineStart) + block + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+/**
+ * Turns the selection into a link and selects the URL placeholder for typing
+ */
+export const insertLink = (text: string, start: number, end: number): EditResult => {
+  const label = text.slice(start, end) || 'link text';
+  const url = 'https://';
+  const inserted = `[${label}](${url})`;
+  const urlStart = start + label.length + 3;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  };
+};
+
+/**
+ * Inline code for a single-line selection, a fenced block for multi-line selections
+ */
+export const insertCode = (text: string, start: number, end: number): EditResult => {
+  const selected = text.slice(start, end);
+  if (!selected.includes('\n')) {
+    return wrapSelection(text, start, end, '`', '`', 'code');
+  }
+
+  const needsLeadingBreak = start > 0 && text[start - 1] !== '\n';
+  const fence = `${needsLeadingBreak ? '\n' : ''}\`\`\`\n${selected}\n\`\`\`\n`;
+  const codeStart = start + fence.indexOf('\n', needsLeadingBreak ? 1 : 0) + 1;
+  return {
+    text: text.slice(0, start) + fence + text.slice(end),
+    selectionStart: codeStart,
+    selectionEnd: codeStart + selected.length,
+  };
+};
+
+/**
+ * Inserts a block (e.g. an image) on its own paragraph at the selection, replacing it,
+ * and puts the cursor after it
+ */
+export const insertBlock = (text: string, start: number, end: number, block: string): EditResult => {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const lead = !before || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const trail = after.startsWith('\n\n') ? '' : after.startsWith('\n') || !after ? '\n' : '\n\n';
+  const cursor = start + lead.length + block.length + trail.length;
+  return {
+    text: before + lead + block + trail + after,
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  };
+};
+
+// Image "URL" standing in for an image that is still uploading
+const UPLOADING_PREFIX = 'uploading:';
+
+export const isUploadingImage = (src?: string): boolean => !!src && src.startsWith(UPLOADING_PREFIX);
+
+/**
+ * Markdown for an image; brackets in the alt text would end it early, so they are dropped
+ */
+export const imageMarkdown = (alt: string, url: string): string => `![${alt.replace(/[[\]]/g, '')}](${url})`;
+
+/**
+ * Placeholder inserted while an image uploads, replaced with imageMarkdown once it is stored
+ * @param id - Tells concurrent uploads apart
+ */
+export const uploadingImageMarkdown = (alt: string, id: string): string => imageMarkdown(alt, `${UPLOADING_PREFIX}${id}`);
+
+// An uploading placeholder and the blank line insertBlock put after it
+const UPLOADING_IMAGE_PATTERN = new RegExp(`!\\[[^\\]]*\\]\\(${UPLOADING_PREFIX}[^)]*\\)(\\n\\n)?`, 'g');
+
+/**
+ * Drops placeholders of uploads that will never finish (e.g. in a draft restored after a reload),
+ * so they aren't saved as images that spin forever
+ */
+export const removeUploadingImages = (content: string): string => content.replace(UPLOADING_IMAGE_PATTERN, '');
+
+/**
+ * The image sets whose image is still in the content, dropping those of removed images
+ */
+export const imageSetsInUse = (content: string, imageSets: Record<string, ImageSet>): Record<string, ImageSet> =>
+  Object.fromEntries(Object.entries(imageSets).filter(([url]) => content.includes(url)));
@@ -0,0 +1,104 @@
+import { BlogPost, ImageSet, MediaDetails, Profile, Project } from '../../types';
+import { StoredFile } from '../data/DataProvider';
+
+/**
+ * Media Usage
+ *
+ * Works out which content uses each stored file, so the media library can show where an
+ * asset appears and which files are safe to delete. A file counts as used when a project,
+ * post or the profile links to it, either directly (cover, gallery, resume) or anywhere
+ * in Markdown text.
+ */
+
+export interface MediaUsage {
+  type: 'project' | 'post' | 'profile';
+  id: string;
+  title: string;
+  // Where in that item, e.g. "Cover image"
+  field: string;
+}
+
+// One asset: a single file, or an image set's fallback with its resized copies
+export interface MediaGroup {
+  url: string;
+  files: StoredFile[];
+  imageSet: ImageSet | null;
+  usages: MediaUsage[];
+}
+
+interface Reference {
+  usage: MediaUsage;
+  urls: Set<string>;
+  // Markdown searched for the URL
+  text: string;
+}
+
+const setUrls = (url: string, imageSet?: ImageSet | null): string[] =>
+  [url, ...(imageSet?.variants || []).map(variant => variant.url)];
+
+const collectReferences = (projects: Project[], posts: BlogPost[], profile: Profile | null): Reference[] => {
+  const references: Reference[] = [];
+  const add = (usage: MediaUsage, urls: string[], text = '') => {
+    if (urls.some(Boolean) || text) references.push({ usage, urls: new Set(urls.filter(Boolean)), text });
+  };
+
+  projects.forEach(project => {
+    const item = { type: 'project' as const, id: project.id, title: project.title };
+    add({ ...item, field: 'Cover image' }, project.image_url ? setUrls(project.image_url, project.image_set) : []);
+    add({ ...item, field: 'Gallery' }, (project.gallery || []).flatMap(image => setUrls(image.url, image.image_set)));
+    add({ ...item, field: 'Write-up' }, [], project.body || '');
+  });
+
+  posts.forEach(post => {
+    add({ type: 'post', id: post.id, title: post.title, field: 'Article' }, [], post.content);
+  });
+
+  if (profile?.resume_url) {
+    add({ type: 'profile', id: profile.id, title: profile.full_name, field: 'Resume' }, [profile.resume_url]);
+  }
+
+  return references;
+};
+
+/**
+ * Groups stored files into assets and finds where each is used
+ * @param details - Saved media details, which remember the image set each fallback URL belongs to
+ */
+export const groupMedia = (
+  files: StoredFile[],
+  details: MediaDetails[],
+  projects: Project[],
+  posts: BlogPost[],
+  profile: Profile | null
+): MediaGroup[] => {
+  // Every known image set, from the media details and from the content that uses them
+  const imageSets = new Map<string, ImageSet>();
+  details.forEach(detail => detail.image_set && imageSets.set(detail.url, detail.image_set));
+  projects.forEach(project => {
+    if (project.image_set) imageSets.set(project.image_url, project.image_set);
+    (project.gallery || []).forEach(image => image.image_set && imageSets.set(image.url, image.image_set));
+  });
+  posts.forEach(post => Object.entries(post.image_sets || {}).forEach(([url, imageSet]) => imageSets.set(url, imageSet)));
+
+  // Resized copies are listed under their set's fallback URL
+  const owner = new Map<string, string>();
+  imageSets.forEach((imageSet, url) => setUrls(url, imageSet).forEach(variantUrl => owner.set(variantUrl, url)));
+
+  const groups = new Map<string, MediaGroup>();
+  files.forEach(file => {
+    const url = owner.get(file.url) || file.url;
+    const group = groups.get(url) || { url, files: [], imageSet: imageSets.get(url) || null, usages: [] };
+    group.files.push(file);
+    groups.set(url, group);
+  });
+
+  const references = collectReferences(projects, posts, profile);
+  groups.forEach(group => {
+    const urls = group.files.map(file => file.url);
+    group.usages = references
+      .filter(ref => urls.some(url => ref.urls.has(url) || (ref.text && ref.text.includes(url))))
+      .map(ref => ref.usage);
+  });
+
+  return [...groups.values()];
+};
@@ -0,0 +1,76 @@
+/**
+ * Password Policy
+ *
+ * The rules a CMS password must meet, and a rough strength score for the meter shown
+ * while typing one. Length counts for most: a long passphrase passes without symbols,
+ * while a shorter password needs a mix of character types. Pure functions, no I/O.
+ */
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+// Long enough that character variety no longer matters
+const PASSPHRASE_LENGTH = 16;
+
+// Seen at the top of every breached-password list
+const COMMON_PASSWORDS = [
+  'password', 'passw0rd', '123456', '12345678', '123456789', '1234567890', 'qwerty', 'qwertyuiop',
+  'abc123', 'letmein', 'welcome', 'iloveyou', 'admin', 'monkey', 'dragon', 'football', 'baseball',
+  'sunshine', 'princess', 'trustno1', 'portfolio', 'changeme',
+];
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordCheck {
+  // 0 (very weak) to 4 (strong)
+  score: PasswordStrength;
+  label: string;
+  // Rules the password breaks; empty when it can be used
+  problems: string[];
+  valid: boolean;
+}
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+const characterClasses = (password: string): number =>
+  [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+
+/**
+ * Checks a password against the policy
+ * @param password - The password to check
+ * @param email - The account's email; passwords containing its name part are rejected
+ */
+export const checkPassword = (password: string, email?: string): PasswordCheck => {
+  const problems: string[] = [];
+  const lower = password.toLowerCase();
+  const classes = characterClasses(password);
+  const emailName = email?.split('@')[0].toLowerCase() || '';
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Use at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length < PASSPHRASE_LENGTH && classes < 3) {
+    problems.push(`Mix upper and lower case, numbers and symbols, or use ${PASSPHRASE_LENGTH}+ characters`);
+  }
+  if (COMMON_PASSWORDS.some(common => lower.replace(/[^a-z0-9]/g, '').startsWith(common))) {
+    problems.push('Avoid common passwords');
+  }
+  if (emailName.length >= 3 && lower.includes(emailName)) {
+    problems.push("Don't include your email name");
+  }
+  if (/^(.)\1+$/.test(password) || /(.)\1{3,}/.test(password)) {
+    problems.push('Avoid repeating the same character');
+  }
+
+  // Length and variety earn points; any broken rule caps the score below "Good"
+  let score = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) score++;
+  if (password.length >= 14) score++;
+  if (password.length >= 20) score++;
+  if (classes >= 3) score++;
+  if (password.length > 0 && classes >= 2) score++;
+  score = Math.min(score, problems.length ? 2 : 4);
+  if (problems.length && password.length < PASSWORD_MIN_LENGTH) score = Math.min(score, 1);
+
+  const strength = score as PasswordStrength;
+  return { score: strength, label: STRENGTH_LABELS[strength], problems, valid: problems.length === 0 };
+};
@@ -0,0 +1,70 @@
+import { AdminRole, AdminUser, BlogPost } from '../../types';
+
+/**
+ * Permissions
+ *
+ * What each CMS role may do. The admin dashboard hides or disables controls with these,
+ * and the RLS policies in add_admin_user_roles.sql enforce the same rules in the database:
+ *
+ * - owner: everything, including managing users
+ * - editor: all content (work, posts, media, inbox, site content), but not users
+ * - author: writes Thoughts posts and edits their own drafts; an editor publishes them
+ * - viewer: reads the dashboard without changing anything
+ */
+
+export type Permission =
+  | 'work.edit' // Create, edit, order and delete projects
+  | 'taxonomy.edit' // Rename, merge and delete tags and categories
+  | 'posts.write' // Write posts and edit your own drafts
+  | 'posts.edit_any' // Edit and delete anyone's posts
+  | 'posts.publish' // Publish and schedule posts
+  | 'media.upload' // Upload images into content
+  | 'media.manage' // Edit alt text, delete and clean up files
+  | 'inbox.read' // Read and file contact messages
+  | 'site.edit' // Profile, resume and contact section
+  | 'users.manage'; // Invite users, change roles and revoke access
+
+export const ROLES: Array<{ id: AdminRole; label: string; description: string }> = [
+  { id: 'owner', label: 'Owner', description: 'Everything, including managing users' },
+  { id: 'editor', label: 'Editor', description: 'All content, the inbox and site settings' },
+  { id: 'author', label: 'Author', description: 'Writes posts; an editor publishes them' },
+  { id: 'viewer', label: 'Viewer', description: 'Read-only access to the dashboard' },
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  'work.edit',
+  'taxonomy.edit',
+  'posts.write',
+  'posts.edit_any',
+  'posts.publish',
+  'media.upload',
+  'media.manage',
+  'inbox.read',
+  'site.edit',
+];
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: [...EDITOR_PERMISSIONS, 'users.manage'],
+  editor: EDITOR_PERMISSIONS,
+  author: ['posts.write', 'media.upload'],
+  viewer: [],
+};
+
+/**
+ * Whether a role grants a permission (no role grants nothing)
+ */
+export const can = (role: AdminRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Whether the user may edit or delete a post: any post with posts.edit_any,
+ * otherwise only drafts they wrote (or a new post, if they can write)
+ */
+export const canEditPost = (user: AdminUser | null, post: Partial<Pick<BlogPost, 'id' | 'created_by' | 'published'>>): boolean => {
+  if (!user) return false;
+  if (can(user.role, 'posts.edit_any')) return true;
+  if (!can(user.role, 'posts.write')) return false;
+  return !post.id || (post.created_by === user.email && !post.published);
+};
+
+export const roleLabel = (role: AdminRole): string => ROLES.find(r => r.id === role)?.label || role;
@@ -0,0 +1,36 @@
+import { Project } from '../../types';
+
+/**
+ * Project Ordering
+ *
+ * Selected Work is shown in the order set in the admin (`sort_order`). Projects without
+ * a position (new ones, or all of them before any reordering) come first, newest first,
+ * so a new project shows up at the top until it is moved.
+ */
+
+export const compareProjectOrder = (a: Project, b: Project): number => {
+  const aOrder = a.sort_order ?? -1;
+  const bOrder = b.sort_order ?? -1;
+  if (aOrder !== bOrder) return aOrder - bOrder;
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+};
+
+/**
+ * Returns a copy of the list with one item moved
+ * @param from - Current index of the item
+ * @param to - Index the item should end up at
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+/**
+ * Splits projects into the featured ones (shown as large cards) and the rest, keeping the order
+ */
+export const splitFeatured = (projects: Project[]): { featured: Project[]; rest: Project[] } => ({
+  featured: projects.filter(project => project.featured),
+  rest: projects.filter(project => !project.featured),
+});
@@ -0,0 +1,65 @@
+import { BlogPost } from '../../types';
+
+/**
+ * Publishing
+ *
+ * A Thoughts post is live once it is published and its publish time has passed.
+ * Posts with a future published_at are "scheduled" and stay hidden from readers
+ * until then — no cron job needed, every public read compares against the current time.
+ */
+
+export type PostStatus = 'draft' | 'scheduled' | 'published';
+
+/**
+ * Works out whether a post is a draft, scheduled for later, or live
+ * @param post - The post to check
+ * @param now - The time to compare against (defaults to now)
+ */
+export const getPostStatus = (
+  post: Pick<BlogPost, 'published' | 'published_at'>,
+  now: Date = new Date()
+): PostStatus => {
+  if (!post.published) return 'draft';
+  if (post.published_at && new Date(post.published_at).getTime() > now.getTime()) return 'scheduled';
+  return 'published';
+};
+
+/**
+ * Whether readers can see the post yet
+ */
+export const isPostLive = (post: Pick<BlogPost, 'published' | 'published_at'>, now: Date = new Date()): boolean =>
+  getPostStatus(post, now) === 'published';
+
+/**
+ * The publish time for a post saved as published with no time picked ("publish now").
+ * Keeps the stored time when it has already passed, so the original publish date survives
+ * re-saves; a missing or future (scheduled) time becomes now.
+ * @param storedPublishedAt - The post's current published_at
+ * @param now - The time to compare against (defaults to now)
+ */
+export const publishNowDate = (storedPublishedAt: string | null | undefined, now: Date = new Date()): string => {
+  if (storedPublishedAt && new Date(storedPublishedAt).getTime() <= now.getTime()) return storedPublishedAt;
+  return now.toISOString();
+};
+
+/**
+ * Formats an ISO timestamp for a datetime-local input, in the browser's time zone
+ * @returns "YYYY-MM-DDTHH:mm", or an empty string for no date
+ */
+export const toDateTimeLocal = (iso: string | null | undefined): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * Converts a datetime-local input value (local time) back to an ISO timestamp
+ * @returns The ISO timestamp, or null if the input is empty or invalid
+ */
+export const fromDateTimeLocal = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
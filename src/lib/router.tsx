@@ -0,0 +1,289 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+
+/**
+ * Router
+ *
+ * A small History API router: clean paths (`/work/:slug`), route params, links that
+ * don't reload the page and scroll restoration on back/forward.
+ * The host must serve index.html for unknown paths (see README, "Deployment").
+ */
+
+export type RouteParams = Record<string, string>;
+
+interface NavigateOptions {
+  // Replace the current history entry instead of pushing (for redirects)
+  replace?: boolean;
+}
+
+// Fired on pushState/replaceState, which (unlike back/forward) don't emit popstate
+const NAVIGATE_EVENT = 'app:navigate';
+const SCROLL_STORAGE_KEY = 'router:scroll-positions';
+// How long to keep retrying a restore while the page is still loading its content
+const SCROLL_RESTORE_TIMEOUT_MS = 1500;
+
+// --- Matching ---
+
+/**
+ * Matches a path against a route pattern such as `/work/:slug`
+ * @param pattern - Route pattern; `:name` segments become params, a trailing `*` matches the rest
+ * @param path - The pathname to test
+ * @returns The decoded params, or null when the path doesn't match
+ */
+export const matchRoute = (pattern: string, path: string): RouteParams | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = normalizePath(path).split('/').filter(Boolean);
+  const params: RouteParams = {};
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+
+    if (part === '*') {
+      params['*'] = pathParts.slice(i).join('/');
+      return params;
+    }
+
+    const segment = pathParts[i];
+    if (segment === undefined) return null;
+
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(segment);
+      } catch {
+        return null;
+      }
+    } else if (part !== segment) {
+      return null;
+    }
+  }
+
+  return patternParts.length === pathParts.length ? params : null;
+};
+
+// "/work/x/" and "/work/x" are the same page
+const normalizePath = (path: string): string => (path.length > 1 ? path.replace(/\/+$/, '') : path) || '/';
+
+/**
+ * Maps links from the old hash router (`#/project/:id`, `#/article/:slug`, `#/admin/...`)
+ * to the same path without the hash, so links shared before the switch keep working.
+ * The old `/project` and `/article` paths then redirect to `/work` and `/thoughts` (see App).
+ * @param hash - window.location.hash
+ * @returns The path to redirect to, or null for ordinary in-page anchors like `#contact`
+ */
+export const legacyHashToPath = (hash: string): string | null => {
+  if (!hash.startsWith('#/')) return null;
+  return hash.slice(1);
+};
+
+// --- Scroll Restoration ---
+
+const readScrollPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const currentEntryKey = (): string => window.history.state?.key || 'initial';
+
+const newEntryKey = (): string => Math.random().toString(36).slice(2, 10);
+
+const saveScrollPosition = () => {
+  try {
+    const positions = readScrollPositions();
+    positions[currentEntryKey()] = window.scrollY;
+    sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(positions));
+  } catch {
+    // Storage full or disabled: back/forward just won't restore the position
+  }
+};
+
+let scrollFrame = 0;
+
+/**
+ * Scrolls to a position once the page is tall enough to reach it.
+ * Route content usually loads asynchronously, so the first attempts may fall short.
+ */
+const scrollWhenReady = (top: number) => {
+  cancelAnimationFrame(scrollFrame);
+  const startedAt = Date.now();
+
+  const attempt = () => {
+    const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+    window.scrollTo(0, Math.min(top, Math.max(maxScroll, 0)));
+
+    if (maxScroll < top && Date.now() - startedAt < SCROLL_RESTORE_TIMEOUT_MS) {
+      scrollFrame = requestAnimationFrame(attempt);
+    }
+  };
+
+  scrollFrame = requestAnimationFrame(attempt);
+};
+
+// --- Navigation ---
+
+const notify = () => window.dispatchEvent(new Event(NAVIGATE_EVENT));
+
+/**
+ * Navigates to a path without reloading the page
+ * @param to - Path, optionally with a query string or #anchor
+ */
+export const navigate = (to: string, { replace = false }: NavigateOptions = {}) => {
+  const current = window.location.pathname + window.location.search + window.location.hash;
+  if (to === current) return;
+
+  saveScrollPosition();
+
+  const state = { key: newEntryKey() };
+  if (replace) {
+    window.history.replaceState(state, '', to);
+  } else {
+    window.history.pushState(state, '', to);
+  }
+  notify();
+
+  // New pages start at the top (redirects keep the position the visitor already has)
+  if (!replace) {
+    scrollWhenReady(0);
+  }
+};
+
+let started = false;
+
+/**
+ * Sets up the router once, before the first render: takes over scroll restoration
+ * and rewrites legacy hash URLs to their clean path.
+ */
+export const startRouter = () => {
+  if (started) return;
+  started = true;
+
+  if ('scrollRestoration' in window.history) {
+    window.history.scrollRestoration = 'manual';
+  }
+
+  const legacyPath = legacyHashToPath(window.location.hash);
+  if (legacyPath) {
+    window.history.replaceState({ key: newEntryKey() }, '', legacyPath);
+  } else if (!window.history.state?.key) {
+    window.history.replaceState({ key: newEntryKey() }, '', window.location.href);
+  }
+
+  window.addEventListener('popstate', () => {
+    scrollWhenReady(readScrollPositions()[currentEntryKey()] || 0);
+  });
+
+  // Keep the position of the page being left when the tab is reloaded or closed
+  window.addEventListener('pagehide', saveScrollPosition);
+  window.addEventListener('load', () => {
+    const saved = readScrollPositions()[currentEntryKey()];
+    if (saved) scrollWhenReady(saved);
+  });
+};
+
+// --- Hooks & Components ---
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+/**
+ * The current pathname, without a trailing slash
+ */
+export const getPathname = () => normalizePath(window.location.pathname);
+
+// The page being rendered by the prerender step, where there is no window.location
+let serverPathname = '/';
+
+export const setServerPathname = (path: string) => {
+  serverPathname = normalizePath(path);
+};
+
+const getServerPathname = () => (typeof window === 'undefined' ? serverPathname : getPathname());
+
+/**
+ * The current pathname; re-renders on navigation and back/forward
+ */
+export const usePathname = (): string => useSyncExternalStore(subscribe, getPathname, getServerPathname);
+
+const getSearch = () => window.location.search;
+
+// Prerendered pages are always rendered without a query string
+const getServerSearch = () => '';
+
+/**
+ * The current query parameters; re-renders when they change
+ */
+export const useSearchParams = (): URLSearchParams => {
+  const search = useSyncExternalStore(subscribe, getSearch, getServerSearch);
+  return new URLSearchParams(search);
+};
+
+/**
+ * Sets (or, with null, removes) query parameters on the current page.
+ * Replaces the history entry and keeps the scroll position, so filters don't pile up in history.
+ */
+export const setSearchParams = (changes: Record<string, string | null>) => {
+  const params = new URLSearchParams(window.location.search);
+  Object.entries(changes).forEach(([name, value]) => {
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+  });
+
+  const query = params.toString();
+  navigate(`${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`, { replace: true });
+};
+
+interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+  replace?: boolean;
+}
+
+/**
+ * Link Component
+ *
+ * An anchor that navigates through the router. Modified clicks (new tab, new window)
+ * and external targets fall through to the browser.
+ */
+export const Link: React.FC<LinkProps> = ({ to, replace, onClick, target, children, ...rest }) => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey || e.ctrlKey || e.shiftKey || e.altKey ||
+      (target && target !== '_self')
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return (
+    <a href={to} target={target} onClick={handleClick} {...rest}>
+      {children}
+    </a>
+  );
+};
+
+/**
+ * Redirect Component
+ *
+ * Replaces the current history entry with another path once rendered.
+ */
+export const Redirect: React.FC<{ to: string }> = ({ to }) => {
+  useEffect(() => {
+    navigate(to, { replace: true });
+  }, [to]);
+
+  return null;
+};
@@ -0,0 +1,241 @@
+import { Project, BlogPost } from '../../types';
+
+/**
+ * Site Search
+ *
+ * A small in-memory full-text index over the public projects and articles, built in the
+ * browser from the data layer (or from the build's /search-index.json when that fails),
+ * so it keeps working offline with the local provider.
+ *
+ * Matching is per word: exact words score highest, then prefixes ("typo" finds "typography"),
+ * then words within one or two edits ("desgin" finds "design"). Every query word has to
+ * match somewhere in a result.
+ */
+
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+export interface SearchDocument {
+  id: string;
+  type: 'project' | 'post';
+  title: string;
+  // Page path, e.g. /work/my-project
+  url: string;
+  tags: string[];
+  // Project description or article summary
+  summary: string;
+  // Article or case-study body as plain text
+  body: string;
+}
+
+type SearchField = 'title' | 'tags' | 'summary' | 'body';
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 5, tags: 3, summary: 2, body: 1 };
+
+const SNIPPET_LENGTH = 160;
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // The distinct normalized words of each field, per document
+  words: Record<SearchField, Set<string>>[];
+}
+
+// A [start, end) character range to highlight
+export type MatchRange = [number, number];
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  titleMatches: MatchRange[];
+  // Text around the first match in the summary or body
+  snippet: string;
+  snippetMatches: MatchRange[];
+}
+
+// --- Text Processing ---
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Lowercase without accents, so "Café" matches "cafe"
+const normalizeWord = (word: string): string =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Word[] =>
+  [...text.matchAll(WORD_PATTERN)].map(match => ({
+    word: normalizeWord(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+/**
+ * Strips Markdown syntax, leaving the readable text
+ */
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' ') // Code blocks
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep their alt text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links keep their text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~`|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// --- Index ---
+
+export const buildSearchDocuments = (projects: Project[], posts: BlogPost[]): SearchDocument[] => [
+  ...projects.map(project => ({
+    id: project.id,
+    type: 'project' as const,
+    title: project.title,
+    url: `/work/${encodeURIComponent(project.slug || project.id)}`,
+    tags: [...(project.tags || []), ...(project.category ? [project.category] : [])],
+    summary: project.description || '',
+    body: markdownToPlainText(project.body || ''),
+  })),
+  ...posts.map(post => ({
+    id: post.id,
+    type: 'post' as const,
+    title: post.title,
+    url: `/thoughts/${encodeURIComponent(post.slug)}`,
+    tags: [...(post.tags || []), ...(post.series ? [post.series] : [])],
+    summary: post.summary || '',
+    body: markdownToPlainText(post.content),
+  })),
+];
+
+export const createSearchIndex = (documents: SearchDocument[]): SearchIndex => ({
+  documents,
+  words: documents.map(doc => ({
+    title: new Set(tokenize(doc.title).map(w => w.word)),
+    tags: new Set(tokenize(doc.tags.join(' ')).map(w => w.word)),
+    summary: new Set(tokenize(doc.summary).map(w => w.word)),
+    body: new Set(tokenize(doc.body).map(w => w.word)),
+  })),
+});
+
+// --- Matching ---
+
+/**
+ * Edit distance between two words, counting a swap of neighbouring letters as one edit.
+ * Gives up (returning max + 1) once the distance exceeds max.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly; longer ones may have a typo or two
+const allowedTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * How well a query term matches a word: 1 for the same word, less for prefixes and typos, 0 for no match
+ */
+const matchQuality = (term: string, word: string): number => {
+  if (word === term) return 1;
+  if (term.length >= 2 && word.startsWith(term)) return 0.8;
+
+  const typos = allowedTypos(term);
+  if (!typos) return 0;
+  // Compare against the start of longer words too, so a typo'd prefix still matches
+  const distance = Math.min(
+    editDistance(term, word, typos),
+    word.length > term.length ? editDistance(term, word.slice(0, term.length), typos) : typos + 1
+  );
+  return distance <= typos ? 0.6 - 0.15 * distance : 0;
+};
+
+const bestMatch = (term: string, words: Set<string>): number => {
+  let best = 0;
+  for (const word of words) {
+    best = Math.max(best, matchQuality(term, word));
+    if (best === 1) break;
+  }
+  return best;
+};
+
+const matchRanges = (text: string, terms: string[]): MatchRange[] =>
+  tokenize(text)
+    .filter(({ word }) => terms.some(term => matchQuality(term, word) > 0))
+    .map(({ start, end }): MatchRange => [start, end]);
+
+/**
+ * A window of the text around its first match, with the match ranges shifted to fit
+ */
+const makeSnippet = (text: string, terms: string[]): { snippet: string; snippetMatches: MatchRange[] } => {
+  const ranges = matchRanges(text, terms);
+  const first = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < first ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  const snippetMatches = ranges
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): MatchRange => [s - start + prefix.length, e - start + prefix.length]);
+
+  return { snippet, snippetMatches };
+};
+
+/**
+ * Finds the documents matching every word of the query, best first
+ */
+export const searchIndex = (index: SearchIndex, query: string, limit = 10): SearchResult[] => {
+  const terms = [...new Set(tokenize(query).map(w => w.word))];
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  index.documents.forEach((doc, i) => {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = Math.max(
+        ...(Object.keys(FIELD_WEIGHTS) as SearchField[]).map(field => FIELD_WEIGHTS[field] * bestMatch(term, index.words[i][field]))
+      );
+      if (termScore === 0) return;
+      score += termScore;
+    }
+
+    const snippetSource = doc.summary && matchRanges(doc.summary, terms).length ? doc.summary : doc.body || doc.summary;
+    results.push({
+      document: doc,
+      score,
+      titleMatches: matchRanges(doc.title, terms),
+      ...makeSnippet(snippetSource, terms),
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
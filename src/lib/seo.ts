@@ -0,0 +1,275 @@
+import { Profile, Project, BlogPost } from '../../types';
+
+/**
+ * SEO Metadata
+ *
+ * Builds the per-page head metadata (title, description, canonical URL, Open Graph and
+ * Twitter card tags, JSON-LD) and writes it into document.head.
+ * Pages describe themselves with a PageMeta object; see usePageMeta.
+ */
+
+export const SITE_NAME = 'Starfall Portfolio & CMS';
+const DEFAULT_DESCRIPTION = 'Portfolio, selected work and writing.';
+const DESCRIPTION_MAX_LENGTH = 160;
+
+// Marks the tags this module owns, so stale ones can be removed on the next page
+const MANAGED_ATTR = 'data-page-meta';
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Path of the page, e.g. /thoughts/my-post; combined with the site URL for the canonical link
+  path: string;
+  image?: string | null;
+  type?: 'website' | 'article' | 'profile';
+  // Keeps the page out of search results (e.g. the not-found page)
+  noIndex?: boolean;
+  jsonLd?: Record<string, unknown> | null;
+}
+
+/**
+ * The public origin of the site, used for canonical and Open Graph URLs.
+ * Set VITE_SITE_URL when the site is served from a different origin than the one it's built on.
+ */
+export const getSiteUrl = (): string => {
+  const configured = import.meta.env.VITE_SITE_URL as string | undefined;
+  if (configured) return configured.replace(/\/+$/, '');
+  return typeof window !== 'undefined' ? window.location.origin : '';
+};
+
+export const absoluteUrl = (pathOrUrl: string): string =>
+  /^https?:\/\//i.test(pathOrUrl) ? pathOrUrl : `${getSiteUrl()}${pathOrUrl.startsWith('/') ? '' : '/'}${pathOrUrl}`;
+
+/**
+ * Turns Markdown or long text into a single-line description of at most 160 characters
+ */
+export const toDescription = (text: string | null | undefined): string => {
+  const plain = (text || '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links keep their text
+    .replace(/[#*_>`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (plain.length <= DESCRIPTION_MAX_LENGTH) return plain;
+  const cut = plain.slice(0, DESCRIPTION_MAX_LENGTH - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+// --- Page Builders ---
+
+const personJsonLd = (profile: Profile) => ({
+  '@type': 'Person',
+  name: profile.full_name,
+  description: toDescription(profile.bio) || undefined,
+  jobTitle: profile.subtitle || undefined,
+  url: absoluteUrl('/'),
+});
+
+/**
+ * Metadata for the portfolio home page
+ */
+export const profilePageMeta = (profile: Profile): PageMeta => ({
+  title: profile.full_name ? `${profile.full_name} | Portfolio` : SITE_NAME,
+  description: toDescription(profile.subtitle || profile.bio) || DEFAULT_DESCRIPTION,
+  path: '/',
+  type: 'profile',
+  jsonLd: { '@context': 'https://schema.org', ...personJsonLd(profile) },
+});
+
+/**
+ * Metadata for a Thoughts article
+ * @param profile - The site owner, credited as the author
+ */
+export const blogPostPageMeta = (post: BlogPost, profile?: Profile | null): PageMeta => {
+  const path = `/thoughts/${encodeURIComponent(post.slug)}`;
+  const description = toDescription(post.summary || post.content);
+
+  return {
+    title: `${post.title} | ${profile?.full_name || SITE_NAME}`,
+    description,
+    path,
+    type: 'article',
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      headline: post.title,
+      description,
+      datePublished: post.published_at || post.created_at,
+      dateModified: post.updated_at || post.published_at || post.created_at,
+      keywords: post.tags?.length ? post.tags.join(', ') : undefined,
+      isPartOf: post.series ? { '@type': 'CreativeWorkSeries', name: post.series } : undefined,
+      mainEntityOfPage: absoluteUrl(path),
+      author: profile ? personJsonLd(profile) : undefined,
+    },
+  };
+};
+
+/**
+ * Metadata for a project page
+ * @param profile - The site owner, credited as the creator
+ */
+export const projectPageMeta = (project: Project, profile?: Profile | null): PageMeta => {
+  const path = `/work/${encodeURIComponent(project.slug || project.id)}`;
+  const description = toDescription(project.description);
+
+  return {
+    title: `${project.title} | ${profile?.full_name || SITE_NAME}`,
+    description,
+    path,
+    image: project.image_url || null,
+    type: 'article',
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'CreativeWork',
+      name: project.title,
+      description,
+      image: project.image_url ? absoluteUrl(project.image_url) : undefined,
+      genre: project.category || undefined,
+      keywords: project.tags?.length ? project.tags.join(', ') : undefined,
+      dateCreated: project.created_at,
+      dateModified: project.updated_at || project.created_at,
+      url: absoluteUrl(path),
+      creator: profile ? personJsonLd(profile) : undefined,
+    },
+  };
+};
+
+/**
+ * Metadata for a /work/tag/:tag page
+ * @param tagName - Display name of the tag
+ * @param slug - The tag's slug, as used in the URL
+ * @param projects - The projects with the tag
+ */
+export const projectTagPageMeta = (tagName: string, slug: string, projects: Project[], profile?: Profile | null): PageMeta => {
+  const path = `/work/tag/${encodeURIComponent(slug)}`;
+  const description = `${projects.length} project${projects.length === 1 ? '' : 's'} tagged ${tagName}${profile ? ` by ${profile.full_name}` : ''}.`;
+
+  return {
+    title: `${tagName} Work | ${profile?.full_name || SITE_NAME}`,
+    description,
+    path,
+    image: projects.find(project => project.image_url)?.image_url || null,
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      name: `${tagName} Work`,
+      description,
+      url: absoluteUrl(path),
+      hasPart: projects.map(project => ({
+        '@type': 'CreativeWork',
+        name: project.title,
+        url: absoluteUrl(`/work/${encodeURIComponent(project.slug || project.id)}`),
+      })),
+    },
+  };
+};
+
+/**
+ * Metadata for a /thoughts/tag/:tag archive page
+ * @param tagName - Display name of the tag
+ * @param slug - The tag's slug, as used in the URL
+ * @param posts - The live posts with the tag
+ */
+export const postTagPageMeta = (tagName: string, slug: string, posts: BlogPost[], profile?: Profile | null): PageMeta => {
+  const path = `/thoughts/tag/${encodeURIComponent(slug)}`;
+  const description = `${posts.length} article${posts.length === 1 ? '' : 's'} about ${tagName}${profile ? ` by ${profile.full_name}` : ''}.`;
+
+  return {
+    title: `Thoughts on ${tagName} | ${profile?.full_name || SITE_NAME}`,
+    description,
+    path,
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      name: `Thoughts on ${tagName}`,
+      description,
+      url: absoluteUrl(path),
+      hasPart: posts.map(post => ({
+        '@type': 'BlogPosting',
+        headline: post.title,
+        url: absoluteUrl(`/thoughts/${encodeURIComponent(post.slug)}`),
+      })),
+    },
+  };
+};
+
+// --- Head Tags ---
+
+export interface HeadTag {
+  tag: 'meta' | 'link' | 'script';
+  attrs: Record<string, string>;
+  content?: string;
+}
+
+/**
+ * The head tags for a page (everything except <title>)
+ */
+export const buildHeadTags = (meta: PageMeta): HeadTag[] => {
+  const url = absoluteUrl(meta.path);
+  const image = meta.image ? absoluteUrl(meta.image) : null;
+
+  const tags: HeadTag[] = [
+    { tag: 'meta', attrs: { name: 'description', content: meta.description } },
+    { tag: 'link', attrs: { rel: 'canonical', href: url } },
+    { tag: 'meta', attrs: { property: 'og:site_name', content: SITE_NAME } },
+    { tag: 'meta', attrs: { property: 'og:type', content: meta.type || 'website' } },
+    { tag: 'meta', attrs: { property: 'og:title', content: meta.title } },
+    { tag: 'meta', attrs: { property: 'og:description', content: meta.description } },
+    { tag: 'meta', attrs: { property: 'og:url', content: url } },
+    { tag: 'meta', attrs: { name: 'twitter:card', content: image ? 'summary_large_image' : 'summary' } },
+    { tag: 'meta', attrs: { name: 'twitter:title', content: meta.title } },
+    { tag: 'meta', attrs: { name: 'twitter:description', content: meta.description } },
+  ];
+
+  if (image) {
+    tags.push(
+      { tag: 'meta', attrs: { property: 'og:image', content: image } },
+      { tag: 'meta', attrs: { name: 'twitter:image', content: image } }
+    );
+  }
+
+  if (meta.noIndex) {
+    tags.push({ tag: 'meta', attrs: { name: 'robots', content: 'noindex' } });
+  }
+
+  if (meta.jsonLd) {
+    tags.push({
+      tag: 'script',
+      attrs: { type: 'application/ld+json' },
+      // Escape "<" so post content can't close the script tag
+      content: JSON.stringify(meta.jsonLd).replace(/</g, '\\u003c'),
+    });
+  }
+
+  return tags;
+};
+
+/**
+ * Replaces the page title and managed head tags with the ones for this page
+ */
+export const applyPageMeta = (meta: PageMeta) => {
+  document.title = meta.title;
+
+  // Tags from index.html or the previous page are replaced, not duplicated
+  const tags = buildHeadTags(meta);
+  document.head.querySelectorAll(`[${MANAGED_ATTR}], meta[name="description"], link[rel="canonical"]`)
+    .forEach(el => el.remove());
+
+  tags.forEach(({ tag, attrs, content }) => {
+    const el = document.createElement(tag);
+    Object.entries(attrs).forEach(([name, value]) => el.setAttribute(name, value));
+    el.setAttribute(MANAGED_ATTR, '');
+    if (content) el.textContent = content;
+    document.head.appendChild(el);
+  });
+};
+
+/**
+ * Metadata used when a page doesn't describe itself (e.g. the admin)
+ */
+export const defaultPageMeta = (path: string): PageMeta => ({
+  title: SITE_NAME,
+  description: DEFAULT_DESCRIPTION,
+  path,
+});
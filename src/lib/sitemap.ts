@@ -0,0 +1,106 @@
+import { Project, BlogPost } from '../../types';
+import { getProjectTags, getPostTags, hasTerm } from './taxonomy';
+
+/**
+ * Sitemap & robots.txt
+ *
+ * Lists the public pages for search engines: the portfolio, every live Thoughts post,
+ * every project and every tag page. Built from content loaded through the data layer (see src/prerender),
+ * so it works the same with Supabase and the local provider.
+ *
+ * Sitemaps only accept absolute URLs, so without a site URL there is no sitemap
+ * and robots.txt doesn't point to one.
+ */
+
+export const SITEMAP_PATH = '/sitemap.xml';
+export const ROBOTS_PATH = '/robots.txt';
+
+// Never listed, and disallowed for crawlers
+const PRIVATE_PATHS = ['/admin'];
+
+export interface SitemapInput {
+  projects: Project[];
+  // Live posts only
+  blogs: BlogPost[];
+  // Public origin of the site, e.g. https://example.com
+  siteUrl: string;
+}
+
+interface SitemapEntry {
+  path: string;
+  lastmod?: string;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Sitemaps use W3C dates; the day is precise enough
+const toW3cDate = (iso: string): string => new Date(iso).toISOString().slice(0, 10);
+
+/**
+ * The pages in the sitemap, with the date each last changed
+ */
+export const getSitemapEntries = ({ projects, blogs }: Pick<SitemapInput, 'projects' | 'blogs'>): SitemapEntry[] => {
+  const posts = blogs.map(post => ({
+    path: `/thoughts/${encodeURIComponent(post.slug)}`,
+    lastmod: post.updated_at || post.published_at || post.created_at,
+  }));
+  const work = projects.map(project => ({
+    path: `/work/${encodeURIComponent(project.slug || project.id)}`,
+    lastmod: project.updated_at || project.created_at,
+  }));
+
+  // A listing page changes whenever one of the entries on it does
+  const latestOf = (entries: SitemapEntry[]) => entries
+    .map(entry => entry.lastmod)
+    .filter((lastmod): lastmod is string => !!lastmod)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+    .pop();
+
+  const tags = getProjectTags(projects).map(term => ({
+    path: `/work/tag/${encodeURIComponent(term.slug)}`,
+    lastmod: latestOf(work.filter((_, i) => hasTerm(projects[i].tags, term.slug))),
+  }));
+
+  const topics = getPostTags(blogs).map(term => ({
+    path: `/thoughts/tag/${encodeURIComponent(term.slug)}`,
+    lastmod: latestOf(posts.filter((_, i) => hasTerm(blogs[i].tags, term.slug))),
+  }));
+
+  return [{ path: '/', lastmod: latestOf([...posts, ...work]) }, ...posts, ...work, ...tags, ...topics];
+};
+
+/**
+ * sitemap.xml
+ * @throws If siteUrl is empty, since the sitemap protocol rejects relative URLs
+ */
+export const buildSitemap = (input: SitemapInput): string => {
+  if (!input.siteUrl) {
+    throw new Error('A sitemap needs the absolute site URL (VITE_SITE_URL)');
+  }
+
+  const urls = getSitemapEntries(input).map(({ path, lastmod }) => {
+    const lines = [`    <loc>${escapeXml(input.siteUrl + path)}</loc>`];
+    if (lastmod) lines.push(`    <lastmod>${toW3cDate(lastmod)}</lastmod>`);
+    return `  <url>\n${lines.join('\n')}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+};
+
+/**
+ * robots.txt: everything but the admin may be crawled
+ * @param siteUrl - Public origin of the site; without one the Sitemap line is left out
+ */
+export const buildRobotsTxt = (siteUrl: string): string =>
+  [
+    'User-agent: *',
+    'Allow: /',
+    ...PRIVATE_PATHS.map(path => `Disallow: ${path}`),
+    '',
+    ...(siteUrl ? [`Sitemap: ${siteUrl}${SITEMAP_PATH}`, ''] : []),
+  ].join('\n');
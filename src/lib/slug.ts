@@ -0,0 +1,44 @@
+/**
+ * Slug Utilities
+ *
+ * Helpers for building URL-safe slugs for Thoughts posts (`/thoughts/:slug`) and projects (`/work/:slug`).
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Converts free text (usually a post title) into a URL-safe slug
+ * e.g. "Why Aesthetics Matter in Product!" -> "why-aesthetics-matter-in-product"
+ */
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/g, '');
+};
+
+/**
+ * Picks the first free variant of a slug: "my-post", then "my-post-2", "my-post-3", ...
+ * @param base - The desired slug
+ * @param taken - Slugs already in use
+ */
+export const uniqueSlug = (base: string, taken: string[]): string => {
+  const used = new Set(taken);
+  if (!used.has(base)) return base;
+
+  let suffix = 2;
+  while (used.has(`${base}-${suffix}`)) {
+    suffix++;
+  }
+  return `${base}-${suffix}`;
+};
+
+/**
+ * True when a route parameter is a legacy UUID rather than a slug
+ */
+export const isUuid = (value: string): boolean => UUID_PATTERN.test(value);
@@ -0,0 +1,152 @@
+/**
+ * Spam Filter
+ *
+ * Pure checks for contact form submissions. No DOM, storage or network access:
+ * the caller gathers the submission history and timestamps and passes them in,
+ * which keeps every rule deterministic and unit-testable.
+ *
+ * Each failed check adds to a score. Submissions at or above the threshold are
+ * flagged as spam and quarantined by the caller, never dropped.
+ *
+ * These checks run in the visitor's browser, so they can be skipped. With Supabase, the
+ * screen_contact_message trigger (create_contact_messages_table.sql) repeats the link,
+ * keyword and per-email checks; keep its numbers in step with SPAM_RULES and SPAM_KEYWORDS.
+ */
+
+export interface ContactSubmission {
+  name: string;
+  email: string;
+  message: string;
+  /** Value of the hidden honeypot field. Humans never see it, so it should be empty. */
+  honeypot: string;
+}
+
+export interface SubmissionContext {
+  /** When the form was first rendered (ms since epoch) */
+  formRenderedAt: number;
+  /** When the form was submitted (ms since epoch) */
+  submittedAt: number;
+  /** Previous submission times from this email address */
+  previousByEmail: number[];
+  /** Previous submission times from this browser session */
+  previousBySession: number[];
+}
+
+export interface SpamCheckResult {
+  isSpam: boolean;
+  score: number;
+  reasons: string[];
+}
+
+export const SPAM_RULES = {
+  /** Anything faster than this is a bot filling the form */
+  minSubmitMs: 3000,
+  /** Window used for rate limiting */
+  rateLimitWindowMs: 60 * 60 * 1000,
+  maxPerEmail: 3,
+  maxPerSession: 5,
+  /** Links allowed before each extra one counts against the message */
+  maxLinks: 2,
+  scoreThreshold: 5,
+};
+
+const SPAM_KEYWORDS = [
+  'viagra',
+  'casino',
+  'crypto',
+  'bitcoin',
+  'forex',
+  'loan',
+  'seo services',
+  'backlinks',
+  'guest post',
+  'web traffic',
+  'click here',
+  'limited time',
+  'free money',
+  'work from home',
+];
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/gi;
+
+/**
+ * Counts URLs in a block of text
+ */
+export const countLinks = (text: string): number => {
+  return (text.match(LINK_PATTERN) || []).length;
+};
+
+/**
+ * Returns the spam keywords found in a block of text (case-insensitive)
+ */
+export const findSpamKeywords = (text: string): string[] => {
+  const lower = text.toLowerCase();
+  return SPAM_KEYWORDS.filter(keyword => lower.includes(keyword));
+};
+
+/**
+ * Counts the timestamps that fall inside the rate limit window
+ */
+export const countRecent = (timestamps: number[], now: number, windowMs: number = SPAM_RULES.rateLimitWindowMs): number => {
+  return timestamps.filter(t => now - t >= 0 && now - t < windowMs).length;
+};
+
+/**
+ * Scores a contact form submission against every spam rule
+ * @param submission - The submitted form fields, including the honeypot
+ * @param context - Timing and history gathered by the caller
+ * @returns Whether the submission is spam, its score and the reasons behind it
+ */
+export const checkContactSubmission = (
+  submission: ContactSubmission,
+  context: SubmissionContext
+): SpamCheckResult => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // 1. Honeypot: only bots fill in a field they cannot see
+  if (submission.honeypot.trim() !== '') {
+    score += 10;
+    reasons.push('Hidden honeypot field was filled in');
+  }
+
+  // 2. Minimum time-to-submit
+  const elapsed = context.submittedAt - context.formRenderedAt;
+  if (elapsed < SPAM_RULES.minSubmitMs) {
+    score += 10;
+    reasons.push(`Submitted ${Math.max(elapsed, 0)}ms after the form loaded`);
+  }
+
+  // 3. Rate limiting per email and per session
+  const recentByEmail = countRecent(context.previousByEmail, context.submittedAt);
+  if (recentByEmail >= SPAM_RULES.maxPerEmail) {
+    score += 5;
+    reasons.push(`${recentByEmail} earlier messages from this email in the last hour`);
+  }
+
+  const recentBySession = countRecent(context.previousBySession, context.submittedAt);
+  if (recentBySession >= SPAM_RULES.maxPerSession) {
+    score += 5;
+    reasons.push(`${recentBySession} earlier messages from this session in the last hour`);
+  }
+
+  // 4. Content heuristics: links and keywords
+  const text = `${submission.name}\n${submission.message}`;
+  const links = countLinks(text);
+  if (links > SPAM_RULES.maxLinks) {
+    score += (links - SPAM_RULES.maxLinks) * 2;
+    reasons.push(`Contains ${links} links`);
+  }
+
+  const keywords = findSpamKeywords(text);
+  if (keywords.length > 0) {
+    score += keywords.length * 2;
+    reasons.push(`Contains spam keywords: ${keywords.join(', ')}`);
+  }
+
+  return {
+    isSpam: score >= SPAM_RULES.scoreThreshold,
+    score,
+    reasons,
+  };
+};
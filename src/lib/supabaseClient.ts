@@ -16,12 +16,21 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 if (!supabaseUrl || !supabaseAnonKey) {
   console.warn(
     'Supabase environment variables are not set. ' +
-    'Please ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are defined in your .env file.'
+    'Please ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are defined in your .env file. ' +
+    'Using local in-browser data instead.'
   );
 }
 
+// createClient rejects an empty URL; the placeholder is never called because the local provider takes over
 export const supabase = createClient(
-  supabaseUrl || '',
-  supabaseAnonKey || ''
+  supabaseUrl || 'http://localhost',
+  supabaseAnonKey || 'not-configured'
 );
 
+
+/**
+ * Whether Supabase credentials are set. Reads fall back to mock data when they aren't.
+ */
+export const isSupabaseConfigured = (): boolean => {
+  return !!(supabaseUrl && supabaseAnonKey && supabaseUrl.trim() !== '' && supabaseAnonKey.trim() !== '');
+};
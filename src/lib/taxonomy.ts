@@ -0,0 +1,97 @@
+import { Project, BlogPost } from '../../types';
+import { slugify } from './slug';
+
+/**
+ * Taxonomy Utilities
+ *
+ * Tags and categories are stored on each project (`tags`, `category`) and post (`tags`,
+ * `series`); the taxonomy is the set of terms in use. Terms are matched by slug, so
+ * "UX Strategy" and "ux strategy" are the same tag, and the slug is what appears in URLs
+ * (`/work/tag/ux-strategy`, `/thoughts/tag/ux-strategy`).
+ */
+
+export interface TaxonomyTerm {
+  name: string;
+  slug: string;
+  // Number of items using the term
+  count: number;
+}
+
+export const termSlug = (name: string): string => slugify(name);
+
+/**
+ * Counts the terms in use, keeping the first spelling seen for each
+ * @param values - One list of terms per item
+ * @returns Terms, most used first, then alphabetical
+ */
+export const collectTerms = (values: string[][]): TaxonomyTerm[] => {
+  const terms = new Map<string, TaxonomyTerm>();
+
+  values.forEach(itemTerms => {
+    // An item counts once per term, even if it lists it twice
+    new Set(itemTerms.map(termSlug)).forEach(slug => {
+      if (!slug) return;
+      const name = itemTerms.find(term => termSlug(term) === slug)!.trim();
+      const existing = terms.get(slug);
+      if (existing) {
+        existing.count++;
+      } else {
+        terms.set(slug, { name, slug, count: 1 });
+      }
+    });
+  });
+
+  return [...terms.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+export const getProjectTags = (projects: Project[]): TaxonomyTerm[] =>
+  collectTerms(projects.map(project => project.tags || []));
+
+export const getProjectCategories = (projects: Project[]): TaxonomyTerm[] =>
+  collectTerms(projects.map(project => (project.category ? [project.category] : [])));
+
+export const getPostTags = (posts: BlogPost[]): TaxonomyTerm[] =>
+  collectTerms(posts.map(post => post.tags || []));
+
+export const getPostSeries = (posts: BlogPost[]): TaxonomyTerm[] =>
+  collectTerms(posts.map(post => (post.series ? [post.series] : [])));
+
+/**
+ * The posts in a series, in reading order: by part number, then (for unnumbered parts) by publish date
+ * @param series - Name of the series
+ */
+export const getSeriesParts = (posts: BlogPost[], series: string): BlogPost[] => {
+  const slug = termSlug(series);
+  const publishedTime = (post: BlogPost) => new Date(post.published_at || post.created_at).getTime();
+
+  return posts
+    .filter(post => post.series && termSlug(post.series) === slug)
+    .sort((a, b) =>
+      (a.series_order ?? Number.MAX_SAFE_INTEGER) - (b.series_order ?? Number.MAX_SAFE_INTEGER) ||
+      publishedTime(a) - publishedTime(b)
+    );
+};
+
+/**
+ * Trims tags and drops empty and duplicate ones (by slug), keeping the order
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const slug = termSlug(tag);
+      if (!slug || seen.has(slug)) return false;
+      seen.add(slug);
+      return true;
+    });
+};
+
+export const hasTerm = (terms: string[] | null | undefined, slug: string): boolean =>
+  (terms || []).some(term => termSlug(term) === slug);
+
+/**
+ * Finds the display name of a term from its slug
+ */
+export const findTerm = (terms: TaxonomyTerm[], slug: string): TaxonomyTerm | undefined =>
+  terms.find(term => term.slug === slug);
@@ -0,0 +1,67 @@
+/**
+ * Text Diff
+ *
+ * Line-based diff used by the revision history panel. Finds the longest common
+ * subsequence of lines and reports everything else as added or removed.
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Diffs two texts line by line
+ * @param before - The older text
+ * @param after - The newer text
+ * @returns Lines in reading order, each marked same, added or removed
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+};
+
+/**
+ * Turns a snapshot field into text for diffing (lists become comma-separated, lists of records
+ * one line per record, empty values blank)
+ */
+export const fieldToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    // Lists of records (e.g. project links) get a line per item
+    if (value.some(item => item && typeof item === 'object')) {
+      return value
+        .map(item => Object.values(item).filter(v => v !== null && v !== '').join(' · '))
+        .join('\n');
+    }
+    return value.join(', ');
+  }
+  return String(value);
+};
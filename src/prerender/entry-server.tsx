@@ -0,0 +1,147 @@
+import React from 'react';
+import { renderToString, renderToStaticMarkup } from 'react-dom/server';
+import App from '../../App';
+import { FeedMarkdown } from '../../components/ui/Markdown';
+import { FEED_PATHS, buildRssFeed, buildAtomFeed, buildJsonFeed } from '../lib/feeds';
+import { SITEMAP_PATH, ROBOTS_PATH, buildSitemap, buildRobotsTxt } from '../lib/sitemap';
+import { SEARCH_INDEX_PATH, buildSearchDocuments } from '../lib/search';
+import { setServerPathname } from '../lib/router';
+import { getProjectTags, getPostTags, hasTerm } from '../lib/taxonomy';
+import {
+  PageMeta,
+  buildHeadTags,
+  blogPostPageMeta,
+  projectPageMeta,
+  projectTagPageMeta,
+  postTagPageMeta,
+  profilePageMeta,
+  getSiteUrl,
+} from '../lib/seo';
+import { ContentSnapshot, ContentSnapshotContext, pageSnapshotFor, renderSnapshotScript } from './snapshot';
+
+export { loadContentSnapshot } from './snapshot';
+
+/**
+ * Prerender Entry
+ *
+ * Loaded by the build (scripts/prerender.ts) to render the public pages to static HTML.
+ */
+
+export interface RenderedPage {
+  appHtml: string;
+  // <title>, meta tags, canonical link and JSON-LD for the page
+  headHtml: string;
+  // The embedded content snapshot the browser hydrates from
+  snapshotHtml: string;
+}
+
+export interface StaticFile {
+  // Output path, e.g. /feed.xml
+  path: string;
+  content: string;
+}
+
+/**
+ * Every public page: the portfolio, each live article, each project and each tag page
+ */
+export const getPrerenderPaths = (snapshot: ContentSnapshot): string[] => [
+  '/',
+  ...snapshot.blogs.map(b => `/thoughts/${encodeURIComponent(b.slug)}`),
+  ...snapshot.projects.map(p => `/work/${encodeURIComponent(p.slug || p.id)}`),
+  ...getProjectTags(snapshot.projects).map(t => `/work/tag/${encodeURIComponent(t.slug)}`),
+  ...getPostTags(snapshot.blogs).map(t => `/thoughts/tag/${encodeURIComponent(t.slug)}`),
+];
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderHead = (meta: PageMeta): string => {
+  const tags = buildHeadTags(meta).map(({ tag, attrs, content }) => {
+    // data-page-meta lets the browser replace these tags on the next page (see applyPageMeta)
+    const attributes = Object.entries(attrs)
+      .map(([name, value]) => `${name}="${escapeHtml(value)}"`)
+      .concat('data-page-meta')
+      .join(' ');
+    return tag === 'script' ? `<script ${attributes}>${content || ''}</script>` : `<${tag} ${attributes} />`;
+  });
+
+  return [`<title>${escapeHtml(meta.title)}</title>`, ...tags].join('\n    ');
+};
+
+const pageMetaFor = (path: string, snapshot: ContentSnapshot): PageMeta => {
+  if (path.startsWith('/work/tag/')) {
+    const slug = decodeURIComponent(path.slice('/work/tag/'.length));
+    const term = getProjectTags(snapshot.projects).find(t => t.slug === slug);
+    const tagged = snapshot.projects.filter(p => hasTerm(p.tags, slug));
+    if (term) return projectTagPageMeta(term.name, term.slug, tagged, snapshot.profile);
+  }
+  if (path.startsWith('/thoughts/tag/')) {
+    const slug = decodeURIComponent(path.slice('/thoughts/tag/'.length));
+    const term = getPostTags(snapshot.blogs).find(t => t.slug === slug);
+    const tagged = snapshot.blogs.filter(b => hasTerm(b.tags, slug));
+    if (term) return postTagPageMeta(term.name, term.slug, tagged, snapshot.profile);
+  }
+
+  const page = pageSnapshotFor(path, snapshot);
+  const post = path.startsWith('/thoughts/') ? page.blogs?.find(b => path === `/thoughts/${encodeURIComponent(b.slug)}`) : undefined;
+  const project = path.startsWith('/work/') ? page.projects?.[0] : undefined;
+
+  if (post) return blogPostPageMeta(post, snapshot.profile);
+  if (project) return projectPageMeta(project, snapshot.profile);
+  return profilePageMeta(snapshot.profile);
+};
+
+/**
+ * Renders one page with the content from the snapshot
+ * @param path - A path from getPrerenderPaths
+ */
+export const renderPage = (path: string, snapshot: ContentSnapshot): RenderedPage => {
+  const page = pageSnapshotFor(path, snapshot);
+  setServerPathname(path);
+
+  const appHtml = renderToString(
+    <React.StrictMode>
+      <ContentSnapshotContext.Provider value={page}>
+        <App />
+      </ContentSnapshotContext.Provider>
+    </React.StrictMode>
+  );
+
+  return {
+    appHtml,
+    headHtml: renderHead(pageMetaFor(path, snapshot)),
+    snapshotHtml: renderSnapshotScript(page),
+  };
+};
+
+/**
+ * The other generated files: the Thoughts feeds, sitemap.xml, robots.txt and the search index
+ * (no feeds or sitemap.xml without a site URL, see src/lib/feeds.ts and src/lib/sitemap.ts)
+ */
+export const renderStaticFiles = (snapshot: ContentSnapshot): StaticFile[] => {
+  const siteUrl = getSiteUrl();
+  const contentHtml: Record<string, string> = {};
+  snapshot.blogs.forEach(post => {
+    contentHtml[post.id] = renderToStaticMarkup(
+      <FeedMarkdown content={post.content} siteUrl={siteUrl} imageSets={post.image_sets} />
+    );
+  });
+
+  const feedInput = { profile: snapshot.profile, posts: snapshot.blogs, contentHtml, siteUrl };
+
+  // Feeds and the sitemap only take absolute URLs
+  const linkedFiles: StaticFile[] = siteUrl
+    ? [
+        { path: FEED_PATHS.rss, content: buildRssFeed(feedInput) },
+        { path: FEED_PATHS.atom, content: buildAtomFeed(feedInput) },
+        { path: FEED_PATHS.json, content: buildJsonFeed(feedInput) },
+        { path: SITEMAP_PATH, content: buildSitemap({ projects: snapshot.projects, blogs: snapshot.blogs, siteUrl }) },
+      ]
+    : [];
+
+  return [
+    ...linkedFiles,
+    { path: ROBOTS_PATH, content: buildRobotsTxt(siteUrl) },
+    { path: SEARCH_INDEX_PATH, content: JSON.stringify(buildSearchDocuments(snapshot.projects, snapshot.blogs)) },
+  ];
+};
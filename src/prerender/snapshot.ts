@@ -0,0 +1,119 @@
+import { createContext, useContext } from 'react';
+import { Profile, Project, BlogPost } from '../../types';
+import { DataService } from '../../services/supabaseService';
+import { getProjects } from '../services/projectRepository';
+import { usePathname } from '../lib/router';
+import { getSeriesParts } from '../lib/taxonomy';
+
+/**
+ * Content Snapshot
+ *
+ * The public content of the site at one point in time. The build prerenders pages from
+ * a snapshot (see scripts/prerender.ts), and each prerendered page embeds the part it
+ * used so the browser can hydrate the same markup before fetching fresh data.
+ */
+
+// site_content keys shown in the portfolio's contact section
+export const CONTACT_CONTENT_KEYS = ['contact_bio', 'linkedin_url', 'email_url'];
+
+const SNAPSHOT_ELEMENT_ID = 'content-snapshot';
+
+export interface ContentSnapshot {
+  generated_at: string;
+  profile: Profile;
+  projects: Project[];
+  // Live posts only: drafts and scheduled posts are never prerendered
+  blogs: BlogPost[];
+  siteContent: Record<string, string | null>;
+}
+
+/**
+ * The content a single page was rendered with
+ */
+export interface PageSnapshot {
+  // The page path the content belongs to
+  path: string;
+  profile?: Profile;
+  projects?: Project[];
+  blogs?: BlogPost[];
+  siteContent?: Record<string, string | null>;
+}
+
+/**
+ * Fetches the public content through the same services the site uses
+ * @returns A snapshot of the content readers can currently see
+ */
+export const loadContentSnapshot = async (): Promise<ContentSnapshot> => {
+  const [profile, projects, blogs, siteContent] = await Promise.all([
+    DataService.getProfile(),
+    getProjects(),
+    DataService.getBlogPosts(),
+    DataService.getSiteContentMultiple(CONTACT_CONTENT_KEYS),
+  ]);
+
+  return { generated_at: new Date().toISOString(), profile, projects, blogs, siteContent };
+};
+
+/**
+ * Picks the part of the snapshot a page renders, so each page only embeds what it needs
+ * @param path - The page path, e.g. /thoughts/my-post
+ */
+export const pageSnapshotFor = (path: string, snapshot: ContentSnapshot): PageSnapshot => {
+  const [section, slug, tag] = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+  // Tag pages list every tag as well as the tagged items
+  if (section === 'thoughts' && slug === 'tag' && tag) {
+    return { path, profile: snapshot.profile, blogs: snapshot.blogs };
+  }
+  if (section === 'thoughts') {
+    // Posts in a series also need the other parts for the series navigation
+    const post = snapshot.blogs.find(b => b.slug === slug);
+    const blogs = post?.series ? getSeriesParts(snapshot.blogs, post.series) : snapshot.blogs.filter(b => b.slug === slug);
+    return { path, profile: snapshot.profile, blogs };
+  }
+  if (section === 'work' && slug === 'tag' && tag) {
+    return { path, profile: snapshot.profile, projects: snapshot.projects };
+  }
+  if (section === 'work') {
+    return { path, profile: snapshot.profile, projects: snapshot.projects.filter(p => (p.slug || p.id) === slug) };
+  }
+  return {
+    path,
+    profile: snapshot.profile,
+    projects: snapshot.projects,
+    blogs: snapshot.blogs,
+    siteContent: snapshot.siteContent,
+  };
+};
+
+/**
+ * Serializes a page snapshot for embedding in the prerendered HTML
+ */
+export const renderSnapshotScript = (page: PageSnapshot): string =>
+  `<script type="application/json" id="${SNAPSHOT_ELEMENT_ID}">${JSON.stringify(page).replace(/</g, '\\u003c')}</script>`;
+
+/**
+ * Reads the snapshot embedded by the prerender step, or null on pages that weren't prerendered
+ */
+export const readEmbeddedSnapshot = (): PageSnapshot | null => {
+  const element = document.getElementById(SNAPSHOT_ELEMENT_ID);
+  if (!element?.textContent) return null;
+
+  try {
+    return JSON.parse(element.textContent);
+  } catch {
+    return null;
+  }
+};
+
+export const ContentSnapshotContext = createContext<PageSnapshot | null>(null);
+
+/**
+ * The prerendered content for the current page, used as initial state so hydration
+ * matches the static HTML. Null once the visitor has navigated to another page.
+ */
+export const useInitialContent = (): PageSnapshot | null => {
+  const snapshot = useContext(ContentSnapshotContext);
+  const pathname = usePathname();
+  return snapshot && snapshot.path === pathname ? snapshot : null;
+};
@@ -1,4 +1,4 @@
-import { supabase } from '../lib/supabaseClient';
+import { dataProvider } from '../data';
 
 /**
  * Analytics Service
@@ -15,16 +15,9 @@ import { supabase } from '../lib/supabaseClient';
  */
 export const incrementPortfolioView = async (): Promise<void> => {
   try {
-    // Call the PostgreSQL function to increment views atomically
-    // This is secure because the function handles the increment server-side
-    const { error } = await supabase.rpc('increment_portfolio_views');
-
-    if (error) {
-      console.error('Error incrementing portfolio view:', error);
-      // Fail silently for analytics - don't break user experience
-    }
+    await dataProvider.incrementPortfolioView();
   } catch (err) {
-    console.error('Unexpected error incrementing view:', err);
+    console.error('Error incrementing portfolio view:', err);
     // Fail silently for analytics
   }
 };
@@ -36,19 +29,9 @@ export const incrementPortfolioView = async (): Promise<void> => {
  */
 export const getTotalPortfolioViews = async (): Promise<number> => {
   try {
-    const { data, error } = await supabase
-      .from('portfolio_analytics')
-      .select('view_count')
-      .single();
-
-    if (error) {
-      console.error('Error fetching portfolio views:', error);
-      return 0;
-    }
-
-    return data?.view_count || 0;
+    return await dataProvider.getTotalPortfolioViews();
   } catch (err) {
-    console.error('Unexpected error fetching views:', err);
+    console.error('Error fetching portfolio views:', err);
     return 0;
   }
 };
@@ -0,0 +1,195 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabaseClient';
+import { checkPassword } from '../lib/passwordPolicy';
+
+/**
+ * Auth Service
+ *
+ * Signing in and out of the CMS with Supabase Auth: password sign-in, first-time setup
+ * with an emailed code, magic links, password reset over recovery emails, and the
+ * signed-in user's sessions. Only emails on the CMS user list (admin_users) can sign in.
+ * Functions throw an Error with a message that can be shown to the user.
+ *
+ * Magic links and reset emails link back to this site, so its address must be listed
+ * under Authentication > URL Configuration > Redirect URLs in Supabase.
+ */
+
+export interface AuthSession {
+  id: string;
+  created_at: string;
+  // Last time the session refreshed its token
+  updated_at: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  // The session this browser is using
+  current: boolean;
+}
+
+const adminUrl = (path: string): string => `${window.location.origin}${path}`;
+
+/**
+ * Throws unless the email is on the CMS user list
+ */
+const assertAdminEmail = async (email: string) => {
+  const { data: isAdmin, error } = await supabase.rpc('is_admin_email', { check_email: email });
+  if (error || !isAdmin) {
+    throw new Error('Email not found in admin users. Please contact an administrator.');
+  }
+};
+
+/**
+ * Throws with the first rule the password breaks (see src/lib/passwordPolicy.ts)
+ */
+const assertStrongPassword = (password: string, email?: string) => {
+  const { problems } = checkPassword(password, email);
+  if (problems.length) {
+    throw new Error(`${problems[0]}.`);
+  }
+};
+
+/**
+ * The current session, or null when signed out
+ */
+export const getSession = async (): Promise<Session | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session;
+};
+
+/**
+ * Calls back on every sign-in, sign-out and token refresh
+ * @returns A function that stops listening
+ */
+export const onAuthChange = (callback: (session: Session | null, event: string) => void): (() => void) => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => callback(session, event));
+  return () => subscription.unsubscribe();
+};
+
+/**
+ * Signs in an existing CMS user with their password
+ */
+export const signInWithPassword = async (email: string, password: string): Promise<void> => {
+  await assertAdminEmail(email);
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) {
+    throw new Error(error.message || 'Invalid email or password. Please try again.');
+  }
+  console.log('Login successful:', data.user?.email);
+};
+
+/**
+ * Emails a new CMS user the code to set up their account
+ */
+export const sendSetupCode = async (email: string): Promise<void> => {
+  await assertAdminEmail(email);
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: true, // Invited users don't have an auth account yet
+    },
+  });
+  if (error) {
+    throw new Error(error.message || 'Failed to send verification code. Please try again.');
+  }
+};
+
+/**
+ * Verifies the emailed setup code and sets the new user's password, leaving them signed in
+ */
+export const completeAccountSetup = async (email: string, code: string, password: string): Promise<void> => {
+  assertStrongPassword(password, email);
+
+  const { data, error: verifyError } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+  if (verifyError || !data?.user) {
+    throw new Error(verifyError?.message || 'Invalid verification code. Please try again.');
+  }
+
+  const { error: updateError } = await supabase.auth.updateUser({ password });
+  if (updateError) {
+    throw new Error(updateError.message || 'Failed to set password. Please try again.');
+  }
+  console.log('Password set and login successful:', data.user.email);
+};
+
+/**
+ * Emails a one-click sign-in link that opens the dashboard
+ */
+export const sendMagicLink = async (email: string): Promise<void> => {
+  await assertAdminEmail(email);
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      // Magic links are for existing accounts; new users set a password first
+      shouldCreateUser: false,
+      emailRedirectTo: adminUrl('/admin/dashboard'),
+    },
+  });
+  if (error) {
+    throw new Error(error.message || 'Failed to send sign-in link. Please try again.');
+  }
+};
+
+/**
+ * Emails a link to /admin/reset-password, which signs the user in to choose a new password.
+ * Doesn't reveal whether the email has an account.
+ */
+export const sendPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: adminUrl('/admin/reset-password'),
+  });
+  if (error) {
+    throw new Error(error.message || 'Failed to send reset email. Please try again.');
+  }
+};
+
+/**
+ * Changes the signed-in user's password (also used to finish a reset)
+ */
+export const updatePassword = async (password: string): Promise<void> => {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('Your reset link has expired. Please request a new one.');
+  }
+  assertStrongPassword(password, session.user.email);
+
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) {
+    throw new Error(error.message || 'Failed to change password. Please try again.');
+  }
+  console.log('Password changed for:', session.user.email);
+};
+
+/**
+ * Signs out
+ * @param scope - 'local' for this browser, 'others' for every other session, 'global' for all of them
+ */
+export const signOut = async (scope: 'local' | 'others' | 'global' = 'local'): Promise<void> => {
+  const { error } = await supabase.auth.signOut({ scope });
+  if (error) {
+    throw new Error(error.message || 'Failed to sign out. Please try again.');
+  }
+};
+
+/**
+ * Lists the signed-in user's active sessions, newest activity first
+ * (needs the functions in create_auth_session_functions.sql)
+ */
+export const getSessions = async (): Promise<AuthSession[]> => {
+  const { data, error } = await supabase.rpc('list_my_sessions');
+  if (error) {
+    throw new Error(`Failed to load sessions: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Ends one of the signed-in user's sessions; that browser is signed out when its token next refreshes
+ */
+export const revokeSession = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_my_session', { session_id: id });
+  if (error) {
+    throw new Error(`Failed to sign out session: ${error.message}`);
+  }
+};
@@ -0,0 +1,159 @@
+import { ImageSet, MediaDetails } from '../../types';
+import { dataProvider } from '../data';
+import { StorageBucket, StoredFile } from '../data/DataProvider';
+import { DataService } from '../../services/supabaseService';
+import { getProjects } from './projectRepository';
+import { deleteProjectImage, deleteResume } from './storageService';
+import { MediaUsage, groupMedia } from '../lib/mediaUsage';
+
+/**
+ * Media Service
+ *
+ * The media library: every file in the storage buckets, grouped into assets (an uploaded
+ * image and its resized copies count as one), with the alt text and caption saved for it
+ * and the content that uses it. Unused assets can be deleted one by one or all at once.
+ */
+
+const BUCKETS: StorageBucket[] = ['project-images', 'resumes'];
+
+// Files this new may belong to a form that hasn't been saved yet, so cleanup leaves them
+const CLEANUP_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+export interface MediaItem {
+  // The file shown and linked (for image sets, the JPEG fallback)
+  url: string;
+  bucket: StorageBucket;
+  // The file plus any resized copies
+  files: StoredFile[];
+  // Total bytes across the files
+  size: number;
+  type: string;
+  name: string;
+  created_at: string;
+  imageSet: ImageSet | null;
+  details: MediaDetails | null;
+  usages: MediaUsage[];
+}
+
+/**
+ * Loads every stored asset with its details and usage, newest first
+ */
+export const getMediaLibrary = async (): Promise<MediaItem[]> => {
+  const [files, details, projects, posts, profile] = await Promise.all([
+    Promise.all(BUCKETS.map(bucket => dataProvider.listFiles(bucket))).then(lists => lists.flat()),
+    // The details table is optional: without it the library still lists files
+    dataProvider.getMediaDetails().catch(err => {
+      console.error('Error loading media details:', err);
+      return [] as MediaDetails[];
+    }),
+    getProjects(),
+    DataService.getAllBlogPosts(),
+    DataService.getProfile().catch(() => null),
+  ]);
+
+  return groupMedia(files, details, projects, posts, profile)
+    .map(group => {
+      const main = group.files.find(file => file.url === group.url) || group.files[group.files.length - 1];
+      return {
+        url: group.url,
+        bucket: main.bucket,
+        files: group.files,
+        size: group.files.reduce((total, file) => total + file.size, 0),
+        type: main.type,
+        name: main.path,
+        created_at: group.files.reduce((oldest, file) => (file.created_at < oldest ? file.created_at : oldest), main.created_at),
+        imageSet: group.imageSet,
+        details: details.find(detail => detail.url === group.url) || null,
+        usages: group.usages,
+      };
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+};
+
+/**
+ * Saves the alt text and caption for an asset, used as defaults when it is reused
+ */
+export const updateMediaDetails = async (
+  item: MediaItem,
+  changes: Pick<MediaDetails, 'alt' | 'caption'> & Partial<Pick<MediaDetails, 'width' | 'height'>>
+): Promise<MediaDetails> => {
+  console.log('Updating media details:', item.url);
+  return dataProvider.saveMediaDetails({
+    url: item.url,
+    width: item.details?.width ?? item.imageSet?.width ?? null,
+    height: item.details?.height ?? item.imageSet?.height ?? null,
+    image_set: item.imageSet,
+    ...changes,
+    alt: changes.alt?.trim() || null,
+    caption: changes.caption?.trim() || null,
+  });
+};
+
+/**
+ * Deletes an asset's files and details
+ * @throws If the asset is still used somewhere
+ */
+export const deleteMediaItem = async (item: MediaItem): Promise<void> => {
+  if (item.usages.length > 0) {
+    throw new Error('This file is still in use');
+  }
+
+  for (const file of item.files) {
+    const deleted = file.bucket === 'resumes' ? await deleteResume(file.url) : await deleteProjectImage(file.url);
+    if (!deleted) throw new Error(`Failed to delete ${file.path}`);
+  }
+  if (item.details) {
+    await dataProvider.deleteMediaDetails(item.url);
+  }
+  console.log('Media deleted:', item.url);
+};
+
+/**
+ * Finds the assets nothing uses, leaving out recent uploads
+ */
+export const getUnusedMedia = (items: MediaItem[]): MediaItem[] => {
+  const cutoff = Date.now() - CLEANUP_GRACE_PERIOD_MS;
+  return items.filter(item => item.usages.length === 0 && new Date(item.created_at).getTime() < cutoff);
+};
+
+/**
+ * Deletes every unused asset (see getUnusedMedia)
+ * @returns The number of assets deleted
+ */
+export const deleteUnusedMedia = async (): Promise<number> => {
+  const unused = getUnusedMedia(await getMediaLibrary());
+  for (const item of unused) {
+    await deleteMediaItem(item);
+  }
+  return unused.length;
+};
+
+/**
+ * Deletes files that content has just stopped using (a replaced image or resume, an image
+ * removed from a gallery or whose project was deleted), unless other content still uses them.
+ * URLs that aren't stored here (e.g. external links) are left alone.
+ * @param urls - The dropped URLs (for image sets, the fallback)
+ */
+export const releaseFiles = async (urls: string[]): Promise<void> => {
+  if (urls.length === 0) return;
+  try {
+    const items = (await getMediaLibrary()).filter(item => item.files.some(file => urls.includes(file.url)));
+    for (const item of items) {
+      if (item.usages.length === 0) await deleteMediaItem(item);
+    }
+  } catch (err) {
+    // The content is saved either way; a leftover file shows up as unused in the library
+    console.error('Error deleting replaced files:', err);
+  }
+};
+
+/**
+ * A small image to preview an asset with (the smallest resized copy when there is one), or null for documents
+ */
+export const mediaThumbnail = (item: MediaItem): string | null => {
+  if (!item.type.startsWith('image/') && !item.imageSet) return null;
+  const smallest = item.imageSet?.variants
+    .filter(variant => variant.format === 'jpeg')
+    .sort((a, b) => a.width - b.width)[0];
+  return smallest?.url || item.url;
+};
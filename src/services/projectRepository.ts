@@ -0,0 +1,130 @@
+import { dataProvider } from '../data';
+import { ProjectInput } from '../data/DataProvider';
+import { Project } from '../../types';
+import { slugify, uniqueSlug } from '../lib/slug';
+import { recordRevision, recordBaselineRevision } from './revisionService';
+
+/**
+ * Project Repository
+ *
+ * The single data path for projects (the "Selected Work" shown on the public site).
+ * The public grid, the project page and the admin all go through this module,
+ * which reads and writes the projects table of the configured data provider.
+ */
+
+// Optional when creating a project; the image set and case-study fields start empty
+type OptionalProjectField = 'slug' | 'featured' | 'image_set' | 'body' | 'role' | 'timeline' | 'team' | 'outcomes' | 'links' | 'gallery';
+
+export type NewProjectInput = Omit<ProjectInput, OptionalProjectField | 'sort_order'> & Partial<Pick<ProjectInput, OptionalProjectField>>;
+
+/**
+ * Fetches all projects in display order (see src/lib/projectOrder.ts)
+ * @returns Array of Project objects
+ */
+export const getProjects = async (): Promise<Project[]> => {
+  return dataProvider.getProjects();
+};
+
+/**
+ * Fetches a single project
+ * @param id - The project ID
+ * @returns The project, or null if it doesn't exist
+ */
+export const getProjectById = async (id: string): Promise<Project | null> => {
+  return dataProvider.getProjectById(id);
+};
+
+/**
+ * Fetches a single project by its slug
+ * @param slug - The slug from the /work/:slug route
+ * @returns The project, or null if no project has this slug
+ */
+export const getProjectBySlug = async (slug: string): Promise<Project | null> => {
+  return dataProvider.getProjectBySlug(slug);
+};
+
+/**
+ * Returns a slug no other project uses, appending -2, -3, ... when needed
+ * @param slug - The desired slug
+ * @param excludeId - The project being edited, so it doesn't conflict with itself
+ */
+export const getUniqueProjectSlug = async (slug: string, excludeId?: string): Promise<string> => {
+  return uniqueSlug(slug, await dataProvider.getProjectSlugs(slug, excludeId));
+};
+
+/**
+ * Creates a new project
+ * @param project - Project data (id and timestamps are generated; the slug defaults to one made from the title).
+ * New projects have no position yet, so they appear first until moved.
+ * @returns The created Project object
+ */
+export const createProject = async (project: NewProjectInput): Promise<Project> => {
+  const slug = await getUniqueProjectSlug(slugify(project.slug || project.title) || 'project');
+  console.log('Creating project:', { ...project, slug });
+
+  const data = await dataProvider.createProject({
+    image_set: null,
+    body: null,
+    role: null,
+    timeline: null,
+    team: null,
+    outcomes: [],
+    links: [],
+    gallery: [],
+    ...project,
+    slug,
+    sort_order: null,
+    featured: project.featured ?? false,
+  });
+
+  console.log('Project created successfully:', data);
+  return data;
+};
+
+/**
+ * Updates an existing project, recording a revision of the saved version.
+ * The slug only changes when one is passed, so renaming a project doesn't break its links.
+ * @param id - The project ID to update
+ * @param project - Partial project data to update
+ * @returns The updated Project object
+ */
+export const updateProject = async (id: string, project: Partial<ProjectInput>): Promise<Project> => {
+  const changes = project.slug === undefined
+    ? project
+    : { ...project, slug: await getUniqueProjectSlug(slugify(project.slug) || 'project', id) };
+  console.log('Updating project:', id, changes);
+
+  await recordBaselineRevision('projects', id);
+
+  const data = await dataProvider.updateProject(id, changes);
+
+  await recordRevision('projects', id, data);
+
+  console.log('Project updated successfully:', data);
+  return data;
+};
+
+/**
+ * Saves a new display order for Selected Work. Not recorded in the revision history,
+ * since it changes where projects appear rather than their content.
+ * @param ids - Every project ID, in the new order
+ */
+export const reorderProjects = async (ids: string[]): Promise<void> => {
+  console.log('Reordering projects:', ids);
+
+  await dataProvider.reorderProjects(ids);
+
+  console.log('Projects reordered successfully');
+};
+
+/**
+ * Deletes a project
+ * @param id - The project ID to delete
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  console.log('Deleting project:', id);
+
+  await dataProvider.deleteProject(id);
+
+  console.log('Project deleted successfully');
+};
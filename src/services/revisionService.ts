@@ -0,0 +1,64 @@
+import { dataProvider } from '../data';
+import { Revision, RevisionEntityType } from '../../types';
+
+/**
+ * Revision Service
+ *
+ * Keeps a snapshot of every saved version of thought posts, projects and the profile
+ * in the revisions table, so a bad save can be compared against and rolled back.
+ * Recording never blocks a save: if the revisions table is missing, a warning is logged.
+ */
+
+/**
+ * Stores a snapshot of a saved row
+ * @param entityType - The table the row belongs to
+ * @param entityId - The row ID
+ * @param snapshot - The row as saved
+ * @param savedAt - When this version was saved (defaults to now)
+ */
+export const recordRevision = async (
+  entityType: RevisionEntityType,
+  entityId: string,
+  snapshot: Record<string, any>,
+  savedAt?: string
+): Promise<void> => {
+  try {
+    await dataProvider.insertRevision(entityType, entityId, snapshot, savedAt);
+  } catch (err) {
+    console.warn('Could not record revision (revisions table may not exist yet):', err);
+  }
+};
+
+/**
+ * Call before overwriting a row. If the row has no history yet (it predates revisions),
+ * its current state is recorded first so the first tracked save can still be undone.
+ * @param entityType - The table the row belongs to
+ * @param entityId - The row ID
+ */
+export const recordBaselineRevision = async (entityType: RevisionEntityType, entityId: string): Promise<void> => {
+  try {
+    if (await dataProvider.countRevisions(entityType, entityId)) return;
+
+    const current = await dataProvider.getRecord(entityType, entityId);
+    if (current) {
+      await recordRevision(entityType, entityId, current, current.updated_at || current.created_at);
+    }
+  } catch (err) {
+    console.warn('Unexpected error recording baseline revision:', err);
+  }
+};
+
+/**
+ * Fetches the saved versions of a row
+ * @param entityType - The table the row belongs to
+ * @param entityId - The row ID
+ * @returns Revisions newest first, or empty array on error
+ */
+export const getRevisions = async (entityType: RevisionEntityType, entityId: string): Promise<Revision[]> => {
+  try {
+    return await dataProvider.getRevisions(entityType, entityId);
+  } catch (err) {
+    console.error('Error fetching revisions:', err);
+    return [];
+  }
+};
@@ -0,0 +1,38 @@
+import { DataService } from '../../services/supabaseService';
+import { getProjects } from './projectRepository';
+import { SEARCH_INDEX_PATH, SearchDocument, SearchIndex, buildSearchDocuments, createSearchIndex } from '../lib/search';
+
+/**
+ * Search Service
+ *
+ * Builds the site search index once per page load. The content comes from the data layer;
+ * if that can't be reached, the index the build wrote to /search-index.json is used instead.
+ */
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+const loadDocuments = async (): Promise<SearchDocument[]> => {
+  try {
+    const [projects, posts] = await Promise.all([getProjects(), DataService.getBlogPosts()]);
+    return buildSearchDocuments(projects, posts);
+  } catch (err) {
+    console.error('Error loading search content, using the prebuilt index:', err);
+    const response = await fetch(SEARCH_INDEX_PATH);
+    if (!response.ok) {
+      throw new Error(`Failed to load search index: ${response.status}`);
+    }
+    return response.json();
+  }
+};
+
+/**
+ * Gets the search index, building it on first use
+ */
+export const getSearchIndex = (): Promise<SearchIndex> => {
+  if (!indexPromise) {
+    indexPromise = loadDocuments().then(createSearchIndex);
+    // Let a failed load be retried the next time search opens
+    indexPromise.catch(() => { indexPromise = null; });
+  }
+  return indexPromise;
+};
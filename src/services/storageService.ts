@@ -1,17 +1,46 @@
-import { supabase } from '../lib/supabaseClient';
+import { dataProvider } from '../data';
+import { ImageSet, ImageVariant } from '../../types';
+import { canProcessImage, processImage } from '../lib/imageProcessing';
 
 /**
  * Storage Service
  * 
- * Handles file uploads to Supabase Storage.
- * Used for storing project images in the 'project-images' bucket.
+ * Validates and names uploaded files, then stores them with the configured data provider
+ * (Supabase Storage, or the browser when running locally).
+ * Project images go in the 'project-images' bucket, resumes in 'resumes'.
+ * Cover, gallery and post images are stored as sets of resized copies (uploadProjectImageSet).
  */
 
 const BUCKET_NAME = 'project-images';
 const RESUME_BUCKET_NAME = 'resumes';
 
+const validateProjectImage = (file: File) => {
+  // Validate file type
+  if (!file.type.startsWith('image/')) {
+    throw new Error('File must be an image');
+  }
+
+  // SVGs can carry scripts, which would run when opened from the public bucket
+  if (file.type === 'image/svg+xml') {
+    throw new Error('SVG images are not supported. Please upload a PNG, JPEG, WebP or AVIF instead.');
+  }
+
+  // Validate file size (max 5MB)
+  const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('Image must be less than 5MB');
+  }
+};
+
+// Unique name (without extension) for a project image
+const projectImageName = (projectId?: string): string => {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 15);
+  return `${projectId || 'project'}-${timestamp}-${randomString}`;
+};
+
 /**
- * Uploads an image file to Supabase Storage
+ * Uploads a project image
  * @param file - The image file to upload
  * @param projectId - Optional project ID for naming the file (if editing existing project)
  * @returns The public URL of the uploaded image, or null on error
@@ -21,88 +50,98 @@ export const uploadProjectImage = async (
   projectId?: string
 ): Promise<string | null> => {
   try {
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      throw new Error('File must be an image');
-    }
-
-    // Validate file size (max 5MB)
-    const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-    if (file.size > MAX_FILE_SIZE) {
-      throw new Error('Image must be less than 5MB');
-    }
+    validateProjectImage(file);
 
-    // Generate unique filename
     const fileExt = file.name.split('.').pop();
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 15);
-    const fileName = projectId 
-      ? `${projectId}-${timestamp}-${randomString}.${fileExt}`
-      : `project-${timestamp}-${randomString}.${fileExt}`;
-
-    // Upload file to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-
-    if (error) {
-      console.error('Error uploading image:', error);
-      // Provide more specific error messages
-      if (error.message?.includes('Bucket not found') || error.message?.includes('does not exist')) {
-        throw new Error(`Storage bucket '${BUCKET_NAME}' does not exist. Please create it in Supabase Storage.`);
-      } else if (error.message?.includes('new row violates row-level security')) {
-        throw new Error(`Permission denied. Please check RLS policies for bucket '${BUCKET_NAME}'.`);
-      } else if (error.message?.includes('JWT')) {
-        throw new Error('Authentication error. Please ensure you are logged in.');
-      }
-      throw new Error(`Upload failed: ${error.message || 'Unknown error'}`);
-    }
+    const fileName = `${projectImageName(projectId)}.${fileExt}`;
 
-    if (!data) {
-      throw new Error('Upload succeeded but no data returned');
-    }
+    const publicUrl = await dataProvider.uploadFile(BUCKET_NAME, fileName, file);
 
-    // Get public URL for the uploaded file
-    const { data: urlData } = supabase.storage
-      .from(BUCKET_NAME)
-      .getPublicUrl(data.path);
+    console.log('Image uploaded successfully:', publicUrl);
+    return publicUrl;
+  } catch (err: any) {
+    console.error('Unexpected error uploading image:', err);
+    // Return the error message instead of null for better debugging
+    throw err instanceof Error ? err : new Error('Failed to upload image');
+  }
+};
 
-    if (!urlData?.publicUrl) {
-      throw new Error('Failed to get public URL for uploaded image');
+/**
+ * Uploads a project image as resized AVIF/WebP/JPEG copies with a blur placeholder (see src/lib/imageProcessing.ts).
+ * GIFs are uploaded unchanged, without an image set.
+ * @param file - The image file to upload
+ * @param projectId - Optional project ID for naming the files (if editing existing project)
+ * @returns The URL of the largest JPEG (for places that need one plain URL) and the image set
+ */
+export const uploadProjectImageSet = async (
+  file: File,
+  projectId?: string
+): Promise<{ url: string; imageSet: ImageSet | null }> => {
+  if (!canProcessImage(file)) {
+    const url = await uploadProjectImage(file, projectId);
+    if (!url) throw new Error('Failed to upload image');
+    return { url, imageSet: null };
+  }
+
+  try {
+    validateProjectImage(file);
+    const processed = await processImage(file);
+    const baseName = projectImageName(projectId);
+
+    const uploads = await Promise.allSettled(
+      processed.variants.map(async ({ blob, width, format }) => {
+        const fileName = `${baseName}-${width}w.${format === 'jpeg' ? 'jpg' : format}`;
+        const url = await dataProvider.uploadFile(BUCKET_NAME, fileName, new File([blob], fileName, { type: blob.type }));
+        return { url, width, format };
+      })
+    );
+
+    // An incomplete set is never recorded, so remove the copies that did upload rather than orphan them
+    const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+    if (failed) {
+      await Promise.allSettled(
+        uploads.map(upload => (upload.status === 'fulfilled' ? dataProvider.deleteFile(BUCKET_NAME, upload.value.url) : null))
+      );
+      throw failed.reason;
     }
+    const variants = uploads.map(upload => (upload as PromiseFulfilledResult<ImageVariant>).value);
+
+    const fallback = variants.filter(variant => variant.format === 'jpeg').pop()!;
+    const imageSet: ImageSet = { width: processed.width, height: processed.height, variants, placeholder: processed.placeholder };
+    console.log('Image set uploaded successfully:', variants.map(variant => variant.url));
+
+    // Lets the media library group the copies and offer the set for reuse
+    await dataProvider
+      .saveMediaDetails({ url: fallback.url, alt: null, caption: null, width: imageSet.width, height: imageSet.height, image_set: imageSet })
+      .catch(err => console.error('Error recording media details:', err));
 
-    console.log('Image uploaded successfully:', urlData.publicUrl);
-    return urlData.publicUrl;
+    return { url: fallback.url, imageSet };
   } catch (err: any) {
-    console.error('Unexpected error uploading image:', err);
-    // Return the error message instead of null for better debugging
+    console.error('Unexpected error uploading image set:', err);
     throw err instanceof Error ? err : new Error('Failed to upload image');
   }
 };
 
 /**
- * Deletes an image from Supabase Storage
+ * Uploads an image embedded in a Thoughts post, as an image set like project images
+ * @param file - The image file to upload
+ * @param postId - Optional post ID for naming the files (if editing an existing post)
+ * @returns The fallback URL to put in the Markdown and the image set
+ */
+export const uploadPostImage = async (
+  file: File,
+  postId?: string
+): Promise<{ url: string; imageSet: ImageSet | null }> =>
+  uploadProjectImageSet(file, postId ? `post-${postId}` : 'post');
+
+/**
+ * Deletes a project image
  * @param imageUrl - The public URL of the image to delete
  * @returns true if successful, false on error
  */
 export const deleteProjectImage = async (imageUrl: string): Promise<boolean> => {
   try {
-    // Extract file path from URL
-    const urlParts = imageUrl.split('/');
-    const filePath = urlParts.slice(urlParts.indexOf(BUCKET_NAME) + 1).join('/');
-
-    // Delete file from storage
-    const { error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .remove([filePath]);
-
-    if (error) {
-      console.error('Error deleting image:', error);
-      return false;
-    }
+    await dataProvider.deleteFile(BUCKET_NAME, imageUrl);
 
     return true;
   } catch (err) {
@@ -112,7 +151,7 @@ export const deleteProjectImage = async (imageUrl: string): Promise<boolean> =>
 };
 
 /**
- * Uploads a resume file to Supabase Storage
+ * Uploads a resume file
  * @param file - The resume file to upload (PDF, DOC, DOCX)
  * @returns The public URL of the uploaded resume, or null on error
  */
@@ -138,42 +177,10 @@ export const uploadResume = async (file: File): Promise<string | null> => {
     const randomString = Math.random().toString(36).substring(2, 15);
     const fileName = `resume-${timestamp}-${randomString}.${fileExt}`;
 
-    // Upload file to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from(RESUME_BUCKET_NAME)
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-
-    if (error) {
-      console.error('Error uploading resume:', error);
-      // Provide more specific error messages
-      if (error.message?.includes('Bucket not found') || error.message?.includes('does not exist')) {
-        throw new Error(`Storage bucket '${RESUME_BUCKET_NAME}' does not exist. Please create it in Supabase Storage.`);
-      } else if (error.message?.includes('new row violates row-level security')) {
-        throw new Error(`Permission denied. Please check RLS policies for bucket '${RESUME_BUCKET_NAME}'.`);
-      } else if (error.message?.includes('JWT')) {
-        throw new Error('Authentication error. Please ensure you are logged in.');
-      }
-      throw new Error(`Upload failed: ${error.message || 'Unknown error'}`);
-    }
-
-    if (!data) {
-      throw new Error('Upload succeeded but no data returned');
-    }
-
-    // Get public URL for the uploaded file
-    const { data: urlData } = supabase.storage
-      .from(RESUME_BUCKET_NAME)
-      .getPublicUrl(data.path);
+    const publicUrl = await dataProvider.uploadFile(RESUME_BUCKET_NAME, fileName, file);
 
-    if (!urlData?.publicUrl) {
-      throw new Error('Failed to get public URL for uploaded resume');
-    }
-
-    console.log('Resume uploaded successfully:', urlData.publicUrl);
-    return urlData.publicUrl;
+    console.log('Resume uploaded successfully:', publicUrl);
+    return publicUrl;
   } catch (err: any) {
     console.error('Unexpected error uploading resume:', err);
     throw err instanceof Error ? err : new Error('Failed to upload resume');
@@ -181,25 +188,13 @@ export const uploadResume = async (file: File): Promise<string | null> => {
 };
 
 /**
- * Deletes a resume from Supabase Storage
+ * Deletes a resume
  * @param resumeUrl - The public URL of the resume to delete
  * @returns true if successful, false on error
  */
 export const deleteResume = async (resumeUrl: string): Promise<boolean> => {
   try {
-    // Extract file path from URL
-    const urlParts = resumeUrl.split('/');
-    const filePath = urlParts.slice(urlParts.indexOf(RESUME_BUCKET_NAME) + 1).join('/');
-
-    // Delete file from storage
-    const { error } = await supabase.storage
-      .from(RESUME_BUCKET_NAME)
-      .remove([filePath]);
-
-    if (error) {
-      console.error('Error deleting resume:', error);
-      return false;
-    }
+    await dataProvider.deleteFile(RESUME_BUCKET_NAME, resumeUrl);
 
     return true;
   } catch (err) {
@@ -0,0 +1,87 @@
+import { Project } from '../../types';
+import { getProjects, updateProject } from './projectRepository';
+import { hasTerm, normalizeTags, termSlug } from '../lib/taxonomy';
+
+/**
+ * Taxonomy Service
+ *
+ * Renames, merges and deletes project tags and categories. Terms live on the projects
+ * themselves, so each operation rewrites the affected projects through the project
+ * repository (which records a revision for each of them).
+ */
+
+/**
+ * Saves a change to every project it affects
+ * @returns The number of projects updated
+ */
+const rewriteProjects = async (
+  affects: (project: Project) => boolean,
+  change: (project: Project) => Partial<Pick<Project, 'tags' | 'category'>>
+): Promise<number> => {
+  const projects = (await getProjects()).filter(affects);
+
+  for (const project of projects) {
+    await updateProject(project.id, change(project));
+  }
+
+  return projects.length;
+};
+
+/**
+ * Renames a tag on every project. Renaming to an existing tag merges the two.
+ * @param from - The tag to rename
+ * @param to - The new name (or the tag to merge into)
+ * @returns The number of projects updated
+ */
+export const renameProjectTag = async (from: string, to: string): Promise<number> => {
+  const fromSlug = termSlug(from);
+  if (!termSlug(to)) throw new Error('Tag name cannot be empty');
+
+  return rewriteProjects(
+    project => hasTerm(project.tags, fromSlug),
+    project => ({
+      // normalizeTags drops the duplicate when the project already has the target tag
+      tags: normalizeTags(project.tags.map(tag => (termSlug(tag) === fromSlug ? to.trim() : tag))),
+    })
+  );
+};
+
+/**
+ * Removes a tag from every project
+ * @returns The number of projects updated
+ */
+export const deleteProjectTag = async (tag: string): Promise<number> => {
+  const slug = termSlug(tag);
+
+  return rewriteProjects(
+    project => hasTerm(project.tags, slug),
+    project => ({ tags: project.tags.filter(t => termSlug(t) !== slug) })
+  );
+};
+
+/**
+ * Renames a category on every project. Renaming to an existing category merges the two.
+ * @returns The number of projects updated
+ */
+export const renameProjectCategory = async (from: string, to: string): Promise<number> => {
+  const fromSlug = termSlug(from);
+  if (!termSlug(to)) throw new Error('Category name cannot be empty');
+
+  return rewriteProjects(
+    project => termSlug(project.category || '') === fromSlug,
+    () => ({ category: to.trim() })
+  );
+};
+
+/**
+ * Clears a category from every project that uses it
+ * @returns The number of projects updated
+ */
+export const deleteProjectCategory = async (category: string): Promise<number> => {
+  const slug = termSlug(category);
+
+  return rewriteProjects(
+    project => termSlug(project.category || '') === slug,
+    () => ({ category: '' })
+  );
+};
@@ -0,0 +1,88 @@
+import { AdminRole, AdminUser } from '../../types';
+import { dataProvider } from '../data';
+
+/**
+ * User Service
+ *
+ * The people allowed into the CMS and their roles (see src/lib/permissions.ts).
+ * Inviting someone adds their email to the admin list; they then set a password from the
+ * sign-in page ("No, I'm new"). Revoking removes them from the list, and the RLS policies
+ * stop their session from reading or changing anything straight away.
+ * There must always be at least one owner, and nobody can change or revoke their own access.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Gets the signed-in user with their role
+ * @returns The user, or null if their email isn't on the admin list
+ */
+export const getCurrentAdminUser = async (): Promise<AdminUser | null> => {
+  return dataProvider.getCurrentAdminUser();
+};
+
+/**
+ * Lists everyone with access, oldest first
+ */
+export const getAdminUsers = async (): Promise<AdminUser[]> => {
+  return dataProvider.getAdminUsers();
+};
+
+/**
+ * Gives a new person access to the CMS
+ * @param email - The email they will sign in with
+ * @param role - What they may do
+ * @param invitedBy - The owner sending the invite
+ * @throws If the email is invalid or already has access
+ */
+export const inviteAdminUser = async (email: string, role: AdminRole, invitedBy: AdminUser): Promise<AdminUser> => {
+  const normalized = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalized)) {
+    throw new Error('Please enter a valid email address');
+  }
+
+  const users = await dataProvider.getAdminUsers();
+  if (users.some(user => user.email.toLowerCase() === normalized)) {
+    throw new Error(`${normalized} already has access`);
+  }
+
+  console.log('Inviting CMS user:', normalized, role);
+  return dataProvider.saveAdminUser({ email: normalized, role, invited_by: invitedBy.email });
+};
+
+/**
+ * Throws if the change would leave the CMS without an owner, or targets the current user
+ */
+const assertCanChange = async (user: AdminUser, currentUser: AdminUser, nextRole: AdminRole | null) => {
+  if (user.email === currentUser.email) {
+    throw new Error("You can't change your own access. Ask another owner.");
+  }
+  if (user.role === 'owner' && nextRole !== 'owner') {
+    const owners = (await dataProvider.getAdminUsers()).filter(u => u.role === 'owner');
+    if (owners.length <= 1) {
+      throw new Error('The CMS needs at least one owner');
+    }
+  }
+};
+
+/**
+ * Changes what a user may do
+ * @throws If it is the current user, or the last owner
+ */
+export const changeAdminUserRole = async (user: AdminUser, role: AdminRole, currentUser: AdminUser): Promise<AdminUser> => {
+  await assertCanChange(user, currentUser, role);
+
+  console.log('Changing CMS role:', user.email, user.role, '->', role);
+  return dataProvider.saveAdminUser({ email: user.email, role, invited_by: user.invited_by });
+};
+
+/**
+ * Removes a user's access to the CMS
+ * @throws If it is the current user, or the last owner
+ */
+export const revokeAdminUser = async (user: AdminUser, currentUser: AdminUser): Promise<void> => {
+  await assertCanChange(user, currentUser, null);
+
+  console.log('Revoking CMS access:', user.email);
+  await dataProvider.deleteAdminUser(user.email);
+};
@@ -9,14 +9,63 @@ export interface Profile {
   subtitle: string;
 }
 
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+  format: ImageFormat;
+}
+
+// Resized copies of an uploaded image, for srcset
+export interface ImageSet {
+  width: number; // Size of the largest variant
+  height: number;
+  variants: ImageVariant[];
+  placeholder: string; // Tiny JPEG data URL shown while the image loads
+}
+
+export type ProjectLinkKind = 'live' | 'repo' | 'deck' | 'other';
+
+export interface ProjectLink {
+  kind: ProjectLinkKind;
+  url: string;
+  label: string | null; // Shown instead of the default label for the kind
+}
+
+export interface ProjectMetric {
+  value: string; // e.g. "+40%"
+  label: string; // e.g. "checkout conversion"
+}
+
+export interface ProjectGalleryImage {
+  url: string;
+  caption: string | null;
+  alt: string | null;
+  image_set?: ImageSet | null; // Missing for images uploaded before resizing
+}
+
 export interface Project {
   id: string;
   title: string;
+  slug: string; // URL path segment for /work/:slug
   description: string;
   tags: string[];
   image_url: string;
+  image_set: ImageSet | null; // Resized copies of image_url; null for external or older images
   category: string;
+  // Case study
+  body: string | null; // Markdown
+  role: string | null;
+  timeline: string | null;
+  team: string | null;
+  outcomes: ProjectMetric[];
+  links: ProjectLink[];
+  gallery: ProjectGalleryImage[]; // In display order
+  sort_order: number | null; // Position in Selected Work; null (e.g. new projects) sorts first
+  featured: boolean; // Pinned to the top of Selected Work as a large card
   created_at: string;
+  updated_at: string;
 }
 
 export interface BlogPost {
@@ -25,12 +74,65 @@ export interface BlogPost {
   slug: string;
   summary: string | null;
   content: string; // Markdown
+  tags: string[];
+  series: string | null; // Name of the series the post belongs to, if any
+  series_order: number | null; // Part number within the series
+  image_sets: Record<string, ImageSet>; // Resized copies of images in the content, by image URL
+  created_by: string | null; // Email of the CMS user who wrote it (set by the database)
   published: boolean;
   published_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ContactMessageFolder = 'inbox' | 'archived' | 'spam';
+
+export interface ContactMessage {
+  id: string;
+  name: string;
+  email: string;
+  message: string;
+  is_read: boolean;
+  folder: ContactMessageFolder;
+  spam_score: number;
+  spam_reasons: string[];
+  created_at: string;
+}
+
+// Revisions are keyed by the table the snapshot was taken from
+export type RevisionEntityType = 'thought_posts' | 'projects' | 'profiles';
+
+export interface Revision {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  snapshot: Record<string, any>;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Alt text, caption and size kept for an uploaded image, keyed by its URL
+export interface MediaDetails {
+  url: string;
+  alt: string | null;
+  caption: string | null;
+  width: number | null;
+  height: number | null;
+  image_set: ImageSet | null; // Set when the URL is the fallback of a resized image set
+  updated_at: string;
+}
+
+// What a CMS user may do, from most to least (see src/lib/permissions.ts)
+export type AdminRole = 'owner' | 'editor' | 'author' | 'viewer';
+
+// Someone allowed to sign in to the CMS (the admin_users table)
+export interface AdminUser {
+  email: string;
+  role: AdminRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
 export interface DashboardStats {
   totalProjects: number;
   totalPosts: number;